@@ -18,7 +18,8 @@ export function createApp() {
 			set.headers["Access-Control-Allow-Origin"] = allowedOrigin;
 			set.headers["Access-Control-Allow-Methods"] =
 				"GET, POST, PUT, DELETE, OPTIONS";
-			set.headers["Access-Control-Allow-Headers"] = "Content-Type";
+			set.headers["Access-Control-Allow-Headers"] =
+				"Content-Type, Authorization";
 		}),
 	);
 
@@ -26,11 +27,20 @@ export function createApp() {
 		set.headers["Access-Control-Allow-Origin"] = allowedOrigin;
 		set.headers["Access-Control-Allow-Methods"] =
 			"GET, POST, PUT, DELETE, OPTIONS";
-		set.headers["Access-Control-Allow-Headers"] = "Content-Type";
+		set.headers["Access-Control-Allow-Headers"] = "Content-Type, Authorization";
 		return "";
 	});
 
-	app.use(openapi());
+	app.use(
+		openapi({
+			documentation: {
+				components: {
+					// API keys (and the admin token) are sent as bearer tokens
+					securitySchemes: { bearerAuth: { scheme: "bearer", type: "http" } },
+				},
+			},
+		}),
+	);
 
 	registerRoutes(app);
 
@@ -0,0 +1,240 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import { Audio, type AudioFormat, AudioFormatError } from ".";
+
+// An ID3 tag header followed by padding, enough for detectFormat
+const mp3 = () =>
+	new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0, ...new Array(64)]);
+
+/** A WAV file with a plain fmt chunk holding `data` as is */
+function wav(
+	data: Uint8Array,
+	{ bits = 16, channels = 1, rate = 16000, tag = 1 } = {},
+): Uint8Array<ArrayBuffer> {
+	const bytes = new Uint8Array(44 + data.length);
+	const view = new DataView(bytes.buffer);
+	bytes.set(new TextEncoder().encode("RIFF"), 0);
+	view.setUint32(4, 36 + data.length, true);
+	bytes.set(new TextEncoder().encode("WAVEfmt "), 8);
+	view.setUint32(16, 16, true);
+	view.setUint16(20, tag, true);
+	view.setUint16(22, channels, true);
+	view.setUint32(24, rate, true);
+	view.setUint32(28, (rate * channels * bits) / 8, true);
+	view.setUint16(32, (channels * bits) / 8, true);
+	view.setUint16(34, bits, true);
+	bytes.set(new TextEncoder().encode("data"), 36);
+	view.setUint32(40, data.length, true);
+	bytes.set(data, 44);
+	return bytes;
+}
+
+function int16(...samples: number[]): Uint8Array {
+	return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+/** Expect a 16 kHz mono WAV holding these samples, give or take rounding */
+function expectSamples(bytes: Uint8Array, expected: number[]): void {
+	const info = Audio.parseWav(bytes);
+	expect(Audio.isTargetFormat(info)).toBe(true);
+	const actual = new Int16Array(
+		bytes.slice(info.dataOffset, info.dataOffset + info.dataLength).buffer,
+	);
+	expect(actual).toHaveLength(expected.length);
+	actual.forEach((sample, i) => {
+		expect(Math.abs(sample - (expected[i] ?? 0))).toBeLessThanOrEqual(1);
+	});
+}
+
+describe("Audio.detectFormat", () => {
+	const header = (...parts: (string | number[])[]) => {
+		const bytes = new Uint8Array(64);
+		let offset = 0;
+		for (const part of parts) {
+			const chunk =
+				typeof part === "string" ? new TextEncoder().encode(part) : part;
+			bytes.set(chunk, offset);
+			offset += chunk.length;
+		}
+		return bytes;
+	};
+
+	test.each<[AudioFormat, Uint8Array]>([
+		["wav", header("RIFF", [0, 0, 0, 0], "WAVE")],
+		["flac", header("fLaC")],
+		["ogg", header("OggS")],
+		["opus", header("OggS", new Array(24).fill(0), "OpusHead")],
+		["m4a", header([0, 0, 0, 0x20], "ftypM4A ")],
+		["webm", header([0x1a, 0x45, 0xdf, 0xa3])],
+		["mp3", mp3()],
+		["mp3", header([0xff, 0xfb, 0x90, 0x64])],
+	])("recognises %s", (format, bytes) => {
+		expect(Audio.detectFormat(bytes)).toBe(format);
+	});
+
+	test("rejects other and too short data", () => {
+		expect(Audio.detectFormat(header("RIFF", [0, 0, 0, 0], "AVI "))).toBeNull();
+		// ADTS AAC has the MPEG sync word but layer bits 00
+		expect(Audio.detectFormat(header([0xff, 0xf1, 0x50, 0x80]))).toBeNull();
+		expect(
+			Audio.detectFormat(new TextEncoder().encode("hello world!")),
+		).toBeNull();
+		expect(Audio.detectFormat(new TextEncoder().encode("fLaC"))).toBeNull();
+	});
+});
+
+describe("Audio.parseWav", () => {
+	test("reads the fmt and data chunks", () => {
+		const info = Audio.parseWav(
+			wav(new Uint8Array(48), { bits: 24, channels: 2, rate: 44100 }),
+		);
+		expect(info).toEqual({
+			bitsPerSample: 24,
+			channels: 2,
+			dataLength: 48,
+			dataOffset: 44,
+			encoding: "pcm",
+			sampleRate: 44100,
+		});
+		expect(Audio.isTargetFormat(info)).toBe(false);
+		expect(Audio.isTargetFormat(Audio.parseWav(wav(int16(1, 2))))).toBe(true);
+	});
+
+	test("skips other chunks and trims partial frames", () => {
+		const plain = wav(int16(1, 2, 3));
+		// fmt, then a 3-byte LIST chunk padded to an even size, then data
+		const bytes = new Uint8Array([
+			...plain.subarray(0, 36),
+			...new TextEncoder().encode("LIST"),
+			...[3, 0, 0, 0, 1, 2, 3, 0],
+			...plain.subarray(36, 44),
+			...plain.subarray(44),
+			0xff,
+		]);
+		// With an odd byte after the last whole sample
+		new DataView(bytes.buffer).setUint32(52, 7, true);
+		const info = Audio.parseWav(bytes);
+		expect(info.dataOffset).toBe(56);
+		expect(info.dataLength).toBe(6);
+	});
+
+	test("reads the format tag of WAVE_FORMAT_EXTENSIBLE files", () => {
+		const bytes = new Uint8Array(68 + 8);
+		const view = new DataView(bytes.buffer);
+		bytes.set(
+			wav(new Uint8Array(0), { bits: 32, tag: 0xfffe }).subarray(0, 36),
+		);
+		view.setUint32(16, 40, true);
+		view.setUint16(36, 22, true);
+		view.setUint16(44, 3, true);
+		bytes.set(new TextEncoder().encode("data"), 60);
+		view.setUint32(64, 8, true);
+		expect(Audio.parseWav(bytes.subarray(0, 76))).toMatchObject({
+			bitsPerSample: 32,
+			dataLength: 8,
+			dataOffset: 68,
+			encoding: "float",
+		});
+	});
+
+	test("rejects malformed and unsupported files", () => {
+		const error = (bytes: Uint8Array) => {
+			try {
+				Audio.parseWav(bytes);
+			} catch (error) {
+				expect(error).toBeInstanceOf(AudioFormatError);
+				return (error as AudioFormatError).code;
+			}
+			return null;
+		};
+		expect(error(wav(int16(1), { tag: 2 }))).toBe("UNSUPPORTED_FORMAT");
+		expect(error(wav(int16(1), { bits: 12 }))).toBe("UNSUPPORTED_FORMAT");
+		expect(error(wav(int16(1), { channels: 0 }))).toBe("INVALID_AUDIO");
+		expect(error(wav(int16(1)).subarray(0, 30))).toBe("INVALID_AUDIO");
+		expect(error(wav(int16(1)).subarray(0, 36))).toBe("INVALID_AUDIO");
+	});
+});
+
+describe("Audio.normalizeWav", () => {
+	test("averages channels to mono", () => {
+		const output = Audio.normalizeWav(
+			wav(int16(1000, 3000, -2000, 0), { channels: 2 }),
+		);
+		expect(Audio.isTargetFormat(Audio.parseWav(output))).toBe(true);
+		expectSamples(output, [2000, -1000]);
+	});
+
+	test("converts 8-bit, 24-bit and float samples to 16-bit", () => {
+		expectSamples(
+			Audio.normalizeWav(wav(new Uint8Array([128, 192, 0]), { bits: 8 })),
+			[0, 16384, -32768],
+		);
+		expectSamples(
+			Audio.normalizeWav(
+				wav(new Uint8Array([0, 0, 0x40, 0, 0, 0xc0]), { bits: 24 }),
+			),
+			[16384, -16384],
+		);
+		const float = new Uint8Array(new Float32Array([0.5, -1, 2]).buffer);
+		// Out of range samples are clipped
+		expectSamples(
+			Audio.normalizeWav(wav(float, { bits: 32, tag: 3 })),
+			[16384, -32768, 32767],
+		);
+	});
+
+	test("resamples to 16 kHz", () => {
+		const down = Audio.normalizeWav(
+			wav(int16(...new Array(4800).fill(1000)), { rate: 48000 }),
+		);
+		expectSamples(down, new Array(1600).fill(1000));
+
+		const up = Audio.normalizeWav(wav(int16(0, 1000, 2000), { rate: 8000 }));
+		expectSamples(up, [0, 500, 1000, 1500, 2000, 2000]);
+	});
+});
+
+describe("Audio.prepare", () => {
+	const converter = Config.config.audio.converter;
+
+	afterEach(() => {
+		Config.config.audio.converter = converter;
+	});
+
+	test("passes 16 kHz mono PCM through and normalizes other WAVs", async () => {
+		const target = wav(int16(1, 2, 3));
+		const same = await Audio.prepare(new File([target], "a.wav"));
+		expect(await same.bytes()).toEqual(target);
+		expect(same.type).toBe("audio/wav");
+
+		const stereo = await Audio.prepare(
+			new File([wav(int16(2000, 4000), { channels: 2 })], "b.wav"),
+		);
+		expectSamples(await stereo.bytes(), [3000]);
+	});
+
+	test("forwards compressed audio as-is without a converter", async () => {
+		Config.config.audio.converter = [];
+		const file = await Audio.prepare(new File([mp3()], "a.bin"));
+		expect(file.name).toBe("audio.mp3");
+		expect(file.type).toBe("audio/mpeg");
+	});
+
+	test("rejects unsupported audio", async () => {
+		const error = await Audio.prepare(
+			new File([new Uint8Array(64)], "a.txt"),
+		).catch((error) => error);
+		expect(error).toBeInstanceOf(AudioFormatError);
+		expect(error.code).toBe("UNSUPPORTED_FORMAT");
+	});
+
+	test("a converter that is not installed fails the conversion", async () => {
+		Config.config.audio.converter = ["no-such-audio-converter"];
+		const error = await Audio.prepare(new File([mp3()], "a.mp3")).catch(
+			(error) => error,
+		);
+		expect(error).toBeInstanceOf(AudioFormatError);
+		expect(error.code).toBe("CONVERSION_FAILED");
+		expect(error.message).toContain("no-such-audio-converter");
+	});
+});
@@ -0,0 +1,512 @@
+import { Config } from "../config";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "Audio" });
+
+/**
+ * Audio containers recognised from their magic bytes.
+ */
+export type AudioFormat =
+	| "wav"
+	| "mp3"
+	| "flac"
+	| "ogg"
+	| "opus"
+	| "m4a"
+	| "webm";
+
+/** Layout of a WAV file's fmt and data chunks */
+export interface WavInfo {
+	channels: number;
+	sampleRate: number;
+	bitsPerSample: number;
+	encoding: "pcm" | "float";
+	dataOffset: number;
+	dataLength: number;
+}
+
+/**
+ * Detects the container of incoming audio and normalizes it to what
+ * whisper-server expects: 16 kHz mono 16-bit PCM WAV. WAV variants are
+ * converted in-process; compressed formats go through the configured
+ * external converter, or are forwarded as-is when none is set.
+ */
+export namespace Audio {
+	export const SAMPLE_RATE = 16000;
+
+	export const FORMATS: readonly AudioFormat[] = [
+		"wav",
+		"mp3",
+		"m4a",
+		"flac",
+		"ogg",
+		"opus",
+		"webm",
+	];
+
+	const CONTAINERS: Record<AudioFormat, { ext: string; mime: string }> = {
+		flac: { ext: "flac", mime: "audio/flac" },
+		m4a: { ext: "m4a", mime: "audio/mp4" },
+		mp3: { ext: "mp3", mime: "audio/mpeg" },
+		ogg: { ext: "ogg", mime: "audio/ogg" },
+		opus: { ext: "opus", mime: "audio/ogg" },
+		wav: { ext: "wav", mime: "audio/wav" },
+		webm: { ext: "webm", mime: "audio/webm" },
+	};
+
+	/**
+	 * File extension and MIME type of a container.
+	 */
+	export function container(format: AudioFormat): {
+		ext: string;
+		mime: string;
+	} {
+		return CONTAINERS[format];
+	}
+
+	// WAVE_FORMAT_* tags in the fmt chunk
+	const WAVE_PCM = 0x0001;
+	const WAVE_FLOAT = 0x0003;
+	const WAVE_EXTENSIBLE = 0xfffe;
+
+	function ascii(bytes: Uint8Array, offset: number, length: number): string {
+		return String.fromCharCode(...bytes.subarray(offset, offset + length));
+	}
+
+	/**
+	 * Identify the container from the first bytes of the file.
+	 * @returns The format, or null when it is not a supported audio container
+	 */
+	export function detectFormat(bytes: Uint8Array): AudioFormat | null {
+		if (bytes.length < 12) {
+			return null;
+		}
+		if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WAVE") {
+			return "wav";
+		}
+		if (ascii(bytes, 0, 4) === "fLaC") {
+			return "flac";
+		}
+		if (ascii(bytes, 0, 4) === "OggS") {
+			// The first page of an Ogg Opus stream carries the OpusHead packet
+			return ascii(bytes, 28, 8) === "OpusHead" ? "opus" : "ogg";
+		}
+		if (ascii(bytes, 4, 4) === "ftyp") {
+			return "m4a";
+		}
+		if (
+			bytes[0] === 0x1a &&
+			bytes[1] === 0x45 &&
+			bytes[2] === 0xdf &&
+			bytes[3] === 0xa3
+		) {
+			return "webm";
+		}
+		if (ascii(bytes, 0, 3) === "ID3") {
+			return "mp3";
+		}
+		// MPEG audio frame sync; layer bits of 00 would be AAC in ADTS
+		const second = bytes[1] ?? 0;
+		if (bytes[0] === 0xff && (second & 0xe0) === 0xe0 && second & 0x06) {
+			return "mp3";
+		}
+		return null;
+	}
+
+	/**
+	 * Read the fmt and data chunks of a WAV file.
+	 * @throws AudioFormatError when the file is malformed or the sample
+	 * encoding is not plain PCM or IEEE float
+	 */
+	export function parseWav(bytes: Uint8Array): WavInfo {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+		let format: Omit<WavInfo, "dataOffset" | "dataLength"> | null = null;
+
+		let offset = 12;
+		while (offset + 8 <= bytes.length) {
+			const id = ascii(bytes, offset, 4);
+			const size = view.getUint32(offset + 4, true);
+			const body = offset + 8;
+
+			if (id === "fmt ") {
+				if (size < 16 || body + size > bytes.length) {
+					throw new AudioFormatError("INVALID_AUDIO", "Truncated WAV header");
+				}
+				let tag = view.getUint16(body, true);
+				if (tag === WAVE_EXTENSIBLE && size >= 26) {
+					// The sub-format GUID starts with the actual format tag
+					tag = view.getUint16(body + 24, true);
+				}
+				const bitsPerSample = view.getUint16(body + 14, true);
+				const supported =
+					(tag === WAVE_PCM && [8, 16, 24, 32].includes(bitsPerSample)) ||
+					(tag === WAVE_FLOAT && [32, 64].includes(bitsPerSample));
+				if (!supported) {
+					throw new AudioFormatError(
+						"UNSUPPORTED_FORMAT",
+						`Unsupported WAV encoding (format tag ${tag}, ${bitsPerSample}-bit)`,
+					);
+				}
+				format = {
+					bitsPerSample,
+					channels: view.getUint16(body + 2, true),
+					encoding: tag === WAVE_FLOAT ? "float" : "pcm",
+					sampleRate: view.getUint32(body + 4, true),
+				};
+			} else if (id === "data") {
+				if (!format) {
+					throw new AudioFormatError(
+						"INVALID_AUDIO",
+						"WAV data chunk before fmt chunk",
+					);
+				}
+				if (format.channels === 0 || format.sampleRate === 0) {
+					throw new AudioFormatError("INVALID_AUDIO", "Invalid WAV header");
+				}
+				// Streamed WAVs may leave the size unset, take what is there
+				const frameSize = (format.bitsPerSample / 8) * format.channels;
+				const available = Math.min(size, bytes.length - body);
+				return {
+					...format,
+					dataLength: available - (available % frameSize),
+					dataOffset: body,
+				};
+			}
+
+			// Chunks are padded to an even size
+			offset = body + size + (size % 2);
+		}
+
+		throw new AudioFormatError("INVALID_AUDIO", "WAV file has no audio data");
+	}
+
+	/**
+	 * Whether a WAV file can be sent to the worker without conversion.
+	 */
+	export function isTargetFormat(info: WavInfo): boolean {
+		return (
+			info.encoding === "pcm" &&
+			info.bitsPerSample === 16 &&
+			info.channels === 1 &&
+			info.sampleRate === SAMPLE_RATE
+		);
+	}
+
+	/**
+	 * Decode WAV samples to mono floats in [-1, 1], averaging the channels.
+	 */
+	function decodeMono(bytes: Uint8Array, info: WavInfo): Float32Array {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+		const bytesPerSample = info.bitsPerSample / 8;
+		const frames = info.dataLength / (bytesPerSample * info.channels);
+		const read = sampleReader(view, info);
+		const mono = new Float32Array(frames);
+
+		let position = info.dataOffset;
+		for (let frame = 0; frame < frames; frame++) {
+			let sum = 0;
+			for (let channel = 0; channel < info.channels; channel++) {
+				sum += read(position);
+				position += bytesPerSample;
+			}
+			mono[frame] = sum / info.channels;
+		}
+		return mono;
+	}
+
+	function sampleReader(
+		view: DataView,
+		info: WavInfo,
+	): (offset: number) => number {
+		if (info.encoding === "float") {
+			return info.bitsPerSample === 64
+				? (o) => view.getFloat64(o, true)
+				: (o) => view.getFloat32(o, true);
+		}
+		switch (info.bitsPerSample) {
+			case 8:
+				// 8-bit WAV is unsigned
+				return (o) => (view.getUint8(o) - 128) / 128;
+			case 16:
+				return (o) => view.getInt16(o, true) / 32768;
+			case 24:
+				return (o) =>
+					(view.getUint8(o) |
+						(view.getUint8(o + 1) << 8) |
+						(view.getInt8(o + 2) << 16)) /
+					8388608;
+			default:
+				return (o) => view.getInt32(o, true) / 2147483648;
+		}
+	}
+
+	/**
+	 * Resample to SAMPLE_RATE. Downsampling averages the source samples of each
+	 * output sample (a cheap low-pass); upsampling interpolates linearly.
+	 */
+	function resample(samples: Float32Array, fromRate: number): Float32Array {
+		if (fromRate === SAMPLE_RATE) {
+			return samples;
+		}
+		const ratio = fromRate / SAMPLE_RATE;
+		const length = Math.floor(samples.length / ratio);
+		const out = new Float32Array(length);
+
+		for (let i = 0; i < length; i++) {
+			if (ratio > 1) {
+				const start = Math.floor(i * ratio);
+				const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+				let sum = 0;
+				for (let j = start; j < end; j++) {
+					sum += samples[j] ?? 0;
+				}
+				out[i] = end > start ? sum / (end - start) : 0;
+			} else {
+				const position = i * ratio;
+				const index = Math.floor(position);
+				const fraction = position - index;
+				const current = samples[index] ?? 0;
+				const next = samples[index + 1] ?? current;
+				out[i] = current + (next - current) * fraction;
+			}
+		}
+		return out;
+	}
+
+	/**
+	 * Decode raw 16-bit little-endian mono PCM (e.g. streamed frames) to
+	 * floats at SAMPLE_RATE.
+	 */
+	export function decodePcm16(
+		bytes: Uint8Array,
+		sampleRate: number,
+	): Float32Array {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+		const samples = new Float32Array(Math.floor(bytes.length / 2));
+		for (let i = 0; i < samples.length; i++) {
+			samples[i] = view.getInt16(i * 2, true) / 32768;
+		}
+		return resample(samples, sampleRate);
+	}
+
+	/**
+	 * Allocate a 16 kHz mono 16-bit PCM WAV file with its header written,
+	 * leaving `samples` samples of data to fill from byte 44.
+	 */
+	function allocateWav(samples: number): Uint8Array<ArrayBuffer> {
+		const bytes = new Uint8Array(44 + samples * 2);
+		const view = new DataView(bytes.buffer);
+		const writeAscii = (offset: number, text: string) => {
+			for (let i = 0; i < text.length; i++) {
+				view.setUint8(offset + i, text.charCodeAt(i));
+			}
+		};
+
+		writeAscii(0, "RIFF");
+		view.setUint32(4, 36 + samples * 2, true);
+		writeAscii(8, "WAVE");
+		writeAscii(12, "fmt ");
+		view.setUint32(16, 16, true);
+		view.setUint16(20, WAVE_PCM, true);
+		view.setUint16(22, 1, true);
+		view.setUint32(24, SAMPLE_RATE, true);
+		view.setUint32(28, SAMPLE_RATE * 2, true);
+		view.setUint16(32, 2, true);
+		view.setUint16(34, 16, true);
+		writeAscii(36, "data");
+		view.setUint32(40, samples * 2, true);
+		return bytes;
+	}
+
+	/**
+	 * Encode mono samples as a 16-bit PCM WAV file at SAMPLE_RATE.
+	 */
+	export function encodeWav(samples: Float32Array): Uint8Array<ArrayBuffer> {
+		const bytes = allocateWav(samples.length);
+		const view = new DataView(bytes.buffer);
+		for (let i = 0; i < samples.length; i++) {
+			const sample = Math.max(-1, Math.min(1, samples[i] ?? 0));
+			view.setInt16(
+				44 + i * 2,
+				sample < 0 ? sample * 32768 : sample * 32767,
+				true,
+			);
+		}
+		return bytes;
+	}
+
+	/**
+	 * Copy samples [start, end) of a 16 kHz mono 16-bit PCM WAV into a WAV
+	 * file of their own.
+	 */
+	export function sliceWav(
+		bytes: Uint8Array,
+		info: WavInfo,
+		start: number,
+		end: number,
+	): Uint8Array<ArrayBuffer> {
+		const slice = allocateWav(end - start);
+		slice.set(
+			bytes.subarray(info.dataOffset + start * 2, info.dataOffset + end * 2),
+			44,
+		);
+		return slice;
+	}
+
+	/**
+	 * Convert any supported WAV file to 16 kHz mono 16-bit PCM.
+	 */
+	export function normalizeWav(bytes: Uint8Array, info = parseWav(bytes)) {
+		return encodeWav(resample(decodeMono(bytes, info), info.sampleRate));
+	}
+
+	/**
+	 * Run the configured converter, which reads audio on stdin and writes WAV
+	 * to stdout.
+	 * @throws AudioFormatError when it fails or times out
+	 */
+	async function runConverter(
+		bytes: Uint8Array,
+		format: string,
+	): Promise<Uint8Array<ArrayBuffer>> {
+		const { converter, converterTimeoutMs } = Config.config.audio;
+		const [cmd, ...args] = converter;
+		if (!cmd) {
+			throw new AudioFormatError(
+				"UNSUPPORTED_FORMAT",
+				`${format} audio needs an external converter (audio.converter)`,
+			);
+		}
+
+		log.debug({ cmd, format, size: bytes.length }, "Converting audio");
+		let proc: Bun.Subprocess<Blob, "pipe", "pipe">;
+		try {
+			proc = Bun.spawn([cmd, ...args], {
+				stderr: "pipe",
+				stdin: new Blob([bytes]),
+				stdout: "pipe",
+				timeout: converterTimeoutMs,
+			});
+		} catch (error) {
+			// Typically ENOENT: the converter is not installed or not on PATH
+			log.warn({ cmd, error, format }, "Audio converter could not be started");
+			throw new AudioFormatError(
+				"CONVERSION_FAILED",
+				`Audio converter ${cmd} could not be started: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		const [output, stderr, exitCode] = await Promise.all([
+			new Response(proc.stdout)
+				.arrayBuffer()
+				.then((buffer) => new Uint8Array(buffer)),
+			new Response(proc.stderr).text(),
+			proc.exited,
+		]);
+
+		if (exitCode !== 0 || output.length === 0) {
+			log.warn(
+				{
+					cmd,
+					exitCode,
+					format,
+					signalCode: proc.signalCode,
+					stderr: stderr.slice(-500),
+				},
+				"Audio converter failed",
+			);
+			throw new AudioFormatError(
+				"CONVERSION_FAILED",
+				proc.signalCode
+					? `Audio conversion did not finish within ${converterTimeoutMs}ms`
+					: `Could not convert ${format} audio`,
+			);
+		}
+		return output;
+	}
+
+	function requireFormat(bytes: Uint8Array): AudioFormat {
+		const format = detectFormat(bytes);
+		if (!format) {
+			throw new AudioFormatError(
+				"UNSUPPORTED_FORMAT",
+				`Unsupported audio format, expected one of: ${FORMATS.join(", ")}`,
+			);
+		}
+		return format;
+	}
+
+	/**
+	 * Check that a file is in a supported audio container.
+	 * @throws AudioFormatError when it is not
+	 */
+	export async function assertSupported(audio: Blob): Promise<AudioFormat> {
+		return requireFormat(await audio.bytes());
+	}
+
+	/**
+	 * Turn incoming audio into the file sent to the worker: a 16 kHz mono PCM
+	 * WAV when possible, else the original bytes labelled with their real type.
+	 * @throws AudioFormatError for unsupported, malformed or unconvertible audio
+	 */
+	export async function prepare(audio: Blob): Promise<File> {
+		const bytes = await audio.bytes();
+		const format = requireFormat(bytes);
+
+		let wav = bytes;
+		let info: WavInfo | null = null;
+		if (format === "wav") {
+			try {
+				info = parseWav(bytes);
+			} catch (error) {
+				// Other WAV encodings (ADPCM, mu-law...) may still be convertible
+				const convertible =
+					error instanceof AudioFormatError &&
+					error.code === "UNSUPPORTED_FORMAT" &&
+					Config.config.audio.converter.length > 0;
+				if (!convertible) {
+					throw error;
+				}
+			}
+		}
+
+		if (!info) {
+			if (format !== "wav" && Config.config.audio.converter.length === 0) {
+				// Without a converter the worker has to decode it itself
+				const { ext, mime } = CONTAINERS[format];
+				return new File([bytes], `audio.${ext}`, { type: mime });
+			}
+			wav = await runConverter(bytes, format);
+			if (detectFormat(wav) !== "wav") {
+				throw new AudioFormatError(
+					"CONVERSION_FAILED",
+					"Audio converter did not produce a WAV file",
+				);
+			}
+			info = parseWav(wav);
+		}
+
+		const output = isTargetFormat(info) ? wav : normalizeWav(wav, info);
+		return new File([output], "audio.wav", { type: "audio/wav" });
+	}
+}
+
+/**
+ * Thrown when incoming audio cannot be turned into something a worker reads:
+ * an unknown container or WAV encoding (HTTP 415), a malformed file (400),
+ * or a failed external conversion (422).
+ */
+export class AudioFormatError extends Error {
+	constructor(
+		readonly code: "UNSUPPORTED_FORMAT" | "INVALID_AUDIO" | "CONVERSION_FAILED",
+		message: string,
+	) {
+		super(message);
+		this.name = "AudioFormatError";
+	}
+}
+
+export const AUDIO_ERROR_STATUS: Record<AudioFormatError["code"], number> = {
+	CONVERSION_FAILED: 422,
+	INVALID_AUDIO: 400,
+	UNSUPPORTED_FORMAT: 415,
+};
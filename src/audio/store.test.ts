@@ -0,0 +1,35 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Manager } from "../manager";
+import { Audio } from ".";
+import { AudioStore } from "./store";
+
+describe("AudioStore.save", () => {
+	beforeAll(() => AudioStore.init());
+	afterAll(() => AudioStore.dispose());
+
+	test("stores the type of the audio found in it", async () => {
+		const flac = new Uint8Array(64);
+		flac.set([0x66, 0x4c, 0x61, 0x43]);
+		const base64 = Manager.decodeBase64Audio(
+			Buffer.from(flac).toString("base64"),
+		);
+		expect(await AudioStore.save("tr_flac", base64, {})).toBe(true);
+		expect(AudioStore.get("tr_flac")?.type).toBe("audio/flac");
+	});
+
+	test("keeps the given type of audio it does not recognise", async () => {
+		const blob = new Blob([new Uint8Array(64)], { type: "audio/x-custom" });
+		expect(await AudioStore.save("tr_other", blob, {})).toBe(true);
+		expect(AudioStore.get("tr_other")?.type).toBe("audio/x-custom");
+	});
+
+	test("stores WAV as audio/wav", async () => {
+		const wav = new File([Audio.encodeWav(new Float32Array(160))], "a.wav");
+		expect(await AudioStore.save("tr_wav", wav, { owner: "a" })).toBe(true);
+		expect(AudioStore.get("tr_wav")).toMatchObject({
+			filename: "a.wav",
+			owner: "a",
+			type: "audio/wav",
+		});
+	});
+});
@@ -0,0 +1,234 @@
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { Config } from "../config";
+import { Db } from "../db";
+import { Global } from "../global";
+import type { TranscribeOptions } from "../manager";
+import { Log } from "../observability/logger";
+import { Audio } from ".";
+
+const log = Log.child({ module: "AudioStore" });
+
+/** Options a retained clip was transcribed with, to replay it the same way */
+export type RetainedOptions = Omit<
+	TranscribeOptions,
+	"cache" | "callbackUrl" | "owner" | "retainAudio" | "timeoutMs"
+>;
+
+/** Submitted audio kept under Global.Path.audio */
+export interface RetainedAudio {
+	/** Transcription id the audio was submitted with */
+	id: string;
+	createdAt: number;
+	size: number;
+	type: string;
+	filename: string;
+	options: RetainedOptions;
+	/** Name of the API key that submitted it, null for anonymous requests */
+	owner: string | null;
+}
+
+interface Row {
+	id: string;
+	created_at: number;
+	size: number;
+	type: string;
+	filename: string;
+	options: string;
+	owner: string | null;
+}
+
+/**
+ * Submitted audio retained for download and replay, when audio.retain (or
+ * the request) asks for it. Files live under Global.Path.audio, indexed in
+ * the manager database. Clips older than audio.retentionHours go first,
+ * then the oldest ones until the total fits audio.retentionMaxSizeMb.
+ */
+export namespace AudioStore {
+	let retentionInterval: Timer | null = null;
+
+	const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+	const MIGRATIONS = [
+		{
+			name: "audio-001-retained-audio",
+			sql: `
+				CREATE TABLE retained_audio (
+					id TEXT PRIMARY KEY,
+					created_at INTEGER NOT NULL,
+					size INTEGER NOT NULL,
+					type TEXT NOT NULL,
+					filename TEXT NOT NULL,
+					options TEXT NOT NULL
+				);
+				CREATE INDEX retained_audio_created_at ON retained_audio (created_at);
+			`,
+		},
+		{
+			name: "audio-002-owner",
+			sql: "ALTER TABLE retained_audio ADD COLUMN owner TEXT",
+		},
+	];
+
+	function audioPath(id: string): string {
+		return join(Global.Path.audio, `${id}.audio`);
+	}
+
+	export async function init(): Promise<void> {
+		Db.migrate(MIGRATIONS);
+		await sweep();
+		retentionInterval = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+	}
+
+	export function dispose(): void {
+		if (retentionInterval) {
+			clearInterval(retentionInterval);
+			retentionInterval = null;
+		}
+	}
+
+	/**
+	 * Whether audio transcribed with these options is retained.
+	 */
+	export function wanted(options: TranscribeOptions): boolean {
+		return options.retainAudio ?? Config.config.audio.retain;
+	}
+
+	/**
+	 * Keep submitted audio under a transcription id. Failing to keep it is
+	 * logged, never fails the request.
+	 * @returns Whether the audio was stored
+	 */
+	export async function save(
+		id: string,
+		audio: Blob,
+		options: TranscribeOptions,
+	): Promise<boolean> {
+		const {
+			cache: _cache,
+			callbackUrl: _callbackUrl,
+			owner,
+			retainAudio: _retainAudio,
+			timeoutMs: _timeoutMs,
+			...kept
+		} = options;
+		try {
+			// Base64 payloads arrive labelled audio/wav whatever they hold
+			const format = Audio.detectFormat(await audio.bytes());
+			const type = format
+				? Audio.container(format).mime
+				: audio.type || "application/octet-stream";
+			await Bun.write(audioPath(id), audio);
+			Db.connection()
+				.query(
+					`INSERT INTO retained_audio (id, created_at, size, type, filename, options,
+						owner)
+					VALUES ($id, $createdAt, $size, $type, $filename, $options, $owner)`,
+				)
+				.run({
+					createdAt: Date.now(),
+					filename: (audio instanceof File && audio.name) || "audio",
+					id,
+					options: JSON.stringify(kept),
+					owner: owner ?? null,
+					size: audio.size,
+					type,
+				});
+			await evictOverSize();
+			return true;
+		} catch (error) {
+			log.error({ error, id }, "Failed to retain audio");
+			await rm(audioPath(id), { force: true });
+			return false;
+		}
+	}
+
+	export function get(id: string): RetainedAudio | null {
+		const row = Db.connection()
+			.query<Row, { id: string }>("SELECT * FROM retained_audio WHERE id = $id")
+			.get({ id });
+		return row
+			? {
+					createdAt: row.created_at,
+					filename: row.filename,
+					id: row.id,
+					options: JSON.parse(row.options),
+					owner: row.owner,
+					size: row.size,
+					type: row.type,
+				}
+			: null;
+	}
+
+	/** The stored audio of a clip */
+	export function file(id: string) {
+		return Bun.file(audioPath(id));
+	}
+
+	/**
+	 * Delete the audio of transcriptions, e.g. with their history records.
+	 */
+	export async function remove(ids: string[]): Promise<void> {
+		const db = Db.connection();
+		let deleted = 0;
+		for (const id of ids) {
+			const { changes } = db
+				.query("DELETE FROM retained_audio WHERE id = $id")
+				.run({ id });
+			if (changes > 0) {
+				await rm(audioPath(id), { force: true });
+				deleted++;
+			}
+		}
+		if (deleted > 0) {
+			log.info({ deleted }, "Retained audio deleted");
+		}
+	}
+
+	/**
+	 * Delete the oldest clips until the total fits audio.retentionMaxSizeMb.
+	 */
+	async function evictOverSize(): Promise<void> {
+		const maxSize = Config.config.audio.retentionMaxSizeMb * 1024 * 1024;
+		const db = Db.connection();
+		let total =
+			db
+				.query<{ total: number | null }, []>(
+					"SELECT sum(size) AS total FROM retained_audio",
+				)
+				.get()?.total ?? 0;
+		if (total <= maxSize) {
+			return;
+		}
+		const evicted: string[] = [];
+		const oldest = db
+			.query<{ id: string; size: number }, []>(
+				"SELECT id, size FROM retained_audio ORDER BY created_at",
+			)
+			.all();
+		for (const { id, size } of oldest) {
+			if (total <= maxSize) {
+				break;
+			}
+			evicted.push(id);
+			total -= size;
+		}
+		await remove(evicted);
+	}
+
+	async function sweep(): Promise<void> {
+		try {
+			const cutoff =
+				Date.now() - Config.config.audio.retentionHours * 60 * 60 * 1000;
+			const expired = Db.connection()
+				.query<{ id: string }, { cutoff: number }>(
+					"SELECT id FROM retained_audio WHERE created_at < $cutoff",
+				)
+				.all({ cutoff });
+			await remove(expired.map(({ id }) => id));
+			await evictOverSize();
+		} catch (error) {
+			log.error({ error }, "Failed to delete expired audio");
+		}
+	}
+}
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { Config } from "../config";
+import { Global } from "../global";
+import { Auth, AuthError } from ".";
+
+function refusal(authorization: string | undefined, scope: "read" | "admin") {
+	try {
+		Auth.authorize(authorization, scope);
+	} catch (error) {
+		expect(error).toBeInstanceOf(AuthError);
+		return (error as AuthError).code;
+	}
+	throw new Error("Expected the request to be refused");
+}
+
+describe("Auth", () => {
+	const { admin, auth } = Config.config;
+	const envToken = Bun.env.ADMIN_TOKEN;
+
+	afterEach(async () => {
+		Config.config.admin = admin;
+		Config.config.auth = auth;
+		Bun.env.ADMIN_TOKEN = envToken;
+		if (envToken === undefined) {
+			delete Bun.env.ADMIN_TOKEN;
+		}
+		await Auth.reload();
+	});
+
+	test("leaves everything but the admin API open without keys", async () => {
+		delete Bun.env.ADMIN_TOKEN;
+		Config.config.admin = { token: "" };
+		Config.config.auth = { keys: [], keysFile: "" };
+		await Auth.reload();
+
+		expect(Auth.authorize(undefined, "read")).toBeUndefined();
+		expect(refusal(undefined, "admin")).toBe("ADMIN_DISABLED");
+	});
+
+	test("checks each key's scopes", async () => {
+		Config.config.admin = { token: "admin-secret" };
+		Config.config.auth = {
+			keys: [
+				{ name: "app", scopes: ["read"], sha256: Auth.hashKey("app-key") },
+			],
+			keysFile: "",
+		};
+		await Auth.reload();
+
+		expect(Auth.authorize("Bearer app-key", "read")).toEqual({
+			name: "app",
+			scopes: ["read"],
+		});
+		expect(refusal(undefined, "read")).toBe("UNAUTHORIZED");
+		expect(refusal("Bearer other-key", "read")).toBe("UNAUTHORIZED");
+		expect(refusal("Bearer app-key", "admin")).toBe("FORBIDDEN");
+		// The admin token is a key with only the admin scope
+		expect(Auth.authorize("Bearer admin-secret", "admin")?.name).toBe("admin");
+		expect(refusal("Bearer admin-secret", "read")).toBe("FORBIDDEN");
+	});
+
+	test("reads keys from keysFile and keeps them when it breaks", async () => {
+		const file = join(Global.Path.config, "keys.json5");
+		await Bun.write(
+			file,
+			`[{ name: 'batch', scopes: ['transcribe'], sha256: '${Auth.hashKey("batch-key").toUpperCase()}' }]`,
+		);
+		Config.config.auth = { keys: [], keysFile: "keys.json5" };
+		await Auth.reload();
+		expect(Auth.identify("batch-key")?.name).toBe("batch");
+
+		await Bun.write(file, "[{ name: 'batch' }]");
+		await expect(Config.readKeysFile()).rejects.toThrow(`${file}: /0/scopes: `);
+		await Auth.reload();
+		expect(Auth.identify("batch-key")?.name).toBe("batch");
+	});
+
+	test("limits keys without the admin scope to their own records", () => {
+		const app = { name: "app", scopes: ["transcribe" as const] };
+		const ops = { name: "ops", scopes: ["admin" as const] };
+
+		expect(Auth.ownerScope(app)).toBe("app");
+		expect(Auth.mayAccess(app, "app")).toBe(true);
+		expect(Auth.mayAccess(app, "other")).toBe(false);
+		expect(Auth.mayAccess(app, null)).toBe(false);
+		expect(Auth.ownerScope(ops)).toBeNull();
+		expect(Auth.mayAccess(ops, "app")).toBe(true);
+		expect(Auth.mayAccess(undefined, "app")).toBe(true);
+	});
+});
@@ -0,0 +1,160 @@
+import { type ApiScope, Config, type InferenceServerConfig } from "../config";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "Auth" });
+
+/** The caller behind an API key */
+export interface ApiKey {
+	name: string;
+	scopes: ApiScope[];
+}
+
+/**
+ * API keys from auth.keys, auth.keysFile and the legacy admin.token, looked
+ * up by the SHA-256 digest of the bearer token so keys are never kept in
+ * plain text.
+ */
+export namespace Auth {
+	// Keys by hex SHA-256 digest
+	let keys = new Map<string, ApiKey>();
+	// Whether API keys (other than admin.token) are configured
+	let required = false;
+
+	export function hashKey(key: string): string {
+		return new Bun.CryptoHasher("sha256").update(key).digest("hex");
+	}
+
+	/**
+	 * Load the configured keys and reload them with the config. A keys file
+	 * that cannot be read stops startup rather than leaving the API open; on
+	 * reload, the previous keys are kept.
+	 * @throws Error when auth.keysFile cannot be read
+	 */
+	export async function init(): Promise<void> {
+		await load(Config.config);
+		Config.onReload((next) => load(next));
+	}
+
+	/**
+	 * Read the keys again (e.g. on SIGHUP after editing auth.keysFile),
+	 * keeping the current keys when the file cannot be read.
+	 */
+	export async function reload(): Promise<void> {
+		try {
+			await load(Config.config);
+		} catch (error) {
+			log.error({ error }, "Failed to reload API keys, keeping current keys");
+		}
+	}
+
+	async function load(from: InferenceServerConfig): Promise<void> {
+		const configured = [...from.auth.keys];
+		if (from.auth.keysFile) {
+			configured.push(...(await Config.readKeysFile(from)));
+		}
+
+		const loaded = new Map<string, ApiKey>();
+		for (const { name, scopes, sha256 } of configured) {
+			loaded.set(sha256.toLowerCase(), { name, scopes });
+		}
+		required = loaded.size > 0;
+		const adminToken = Config.adminToken(from);
+		if (adminToken) {
+			loaded.set(hashKey(adminToken), {
+				name: "admin",
+				scopes: ["admin"],
+			});
+		}
+		keys = loaded;
+		log.info({ keys: configured.length, required }, "API keys loaded");
+	}
+
+	/**
+	 * The key a bearer token belongs to, if any.
+	 * @param authorization - `Authorization` header value, or a bare token
+	 */
+	export function identify(
+		authorization: string | undefined,
+	): ApiKey | undefined {
+		const token = authorization?.replace(/^Bearer\s+/i, "").trim();
+		return token ? keys.get(hashKey(token)) : undefined;
+	}
+
+	/**
+	 * The owner a caller's access to records (jobs, history, retained audio)
+	 * is limited to: their key name, or null when they may access every
+	 * record (admin scope, or anonymous while no keys are configured).
+	 */
+	export function ownerScope(key: ApiKey | undefined): string | null {
+		return key && !key.scopes.includes("admin") ? key.name : null;
+	}
+
+	/**
+	 * Whether a caller may access a record submitted by an owner (see
+	 * ownerScope).
+	 */
+	export function mayAccess(
+		key: ApiKey | undefined,
+		owner: string | null | undefined,
+	): boolean {
+		const scope = ownerScope(key);
+		return scope === null || scope === owner;
+	}
+
+	/**
+	 * Check that a request may use a scope. Without configured API keys,
+	 * everything but the admin scope is open to anonymous callers.
+	 * @returns The caller's key, undefined for an anonymous caller
+	 * @throws AuthError when the key is missing, unknown or lacks the scope
+	 */
+	export function authorize(
+		authorization: string | undefined,
+		scope: ApiScope,
+	): ApiKey | undefined {
+		const key = identify(authorization);
+		if (scope === "admin" && ![...keys.values()].some(canAdmin)) {
+			throw new AuthError(
+				"ADMIN_DISABLED",
+				"Admin API is disabled, set admin.token or give a key the admin scope",
+			);
+		}
+		if (!key) {
+			if (!required && scope !== "admin") {
+				return undefined;
+			}
+			throw new AuthError("UNAUTHORIZED", "Missing or invalid API key");
+		}
+		if (!key.scopes.includes(scope)) {
+			throw new AuthError(
+				"FORBIDDEN",
+				`API key "${key.name}" does not have the ${scope} scope`,
+			);
+		}
+		return key;
+	}
+
+	function canAdmin(key: ApiKey): boolean {
+		return key.scopes.includes("admin");
+	}
+}
+
+/**
+ * Thrown when a request's API key is missing, unknown or lacks the scope of
+ * the route.
+ */
+export class AuthError extends Error {
+	constructor(
+		readonly code: "UNAUTHORIZED" | "FORBIDDEN" | "ADMIN_DISABLED",
+		message: string,
+	) {
+		super(message);
+		this.name = "AuthError";
+	}
+}
+
+// Status codes for authentication failures
+export const AUTH_ERROR_STATUS: Record<AuthError["code"], number> = {
+	ADMIN_DISABLED: 403,
+	FORBIDDEN: 403,
+	UNAUTHORIZED: 401,
+};
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { Config, defaultConfig, type InferenceServerConfig } from "./config";
+import { Global } from "./global";
+
+function candidate(
+	change: (config: InferenceServerConfig) => void = () => {},
+): InferenceServerConfig {
+	const config = structuredClone(defaultConfig);
+	config.whisperServer.cmd = "whisper-server";
+	config.whisperServer.model = "";
+	change(config);
+	return config;
+}
+
+describe("Config.validate", () => {
+	test("accepts the defaults with a whisper-server command", async () => {
+		expect(await Config.validate(candidate())).toEqual([]);
+	});
+
+	test("reports schema errors by path", async () => {
+		const problems = await Config.validate(
+			candidate((config) => {
+				(config.workers as { strategy: string }).strategy = "random";
+			}),
+		);
+		expect(problems.length).toBeGreaterThan(0);
+		expect(problems[0]).toStartWith("/workers/strategy: ");
+	});
+
+	test("reports settings that cannot work together", async () => {
+		const problems = await Config.validate(
+			candidate((config) => {
+				config.whisperServer.cmd = "";
+				config.defaultPool = "missing";
+				config.chunking.chunkSeconds = 10;
+				config.streaming.maxWindowSeconds = 5;
+				config.workers.poolSize = -1;
+				config.workers.maxWorkers = 2;
+				config.workers.minWorkers = 3;
+			}),
+		);
+		expect(problems).toEqual([
+			'defaultPool "missing" is not a pool',
+			"chunking.chunkSeconds must be longer than overlapSeconds + silenceSearchSeconds",
+			"streaming.windowSeconds must be positive and at most maxWindowSeconds",
+			'pool "default": whisperServer.cmd is not set',
+			'pool "default": poolSize must not be negative',
+			'pool "default": minWorkers must be between 0 and maxWorkers',
+		]);
+	});
+
+	test("reports pools whose port ranges overlap", async () => {
+		const config = candidate((config) => {
+			config.pools = {
+				large: { workers: { startingPort: 40000 } },
+				small: { workers: { startingPort: 40002 } },
+				tiny: { workers: { poolSize: 2, startingPort: 40005 } },
+			};
+			config.defaultPool = "small";
+		});
+		expect(await Config.validate(config)).toEqual([
+			'port ranges of pools "large" and "small" overlap',
+		]);
+		// Autoscaled pools reserve maxWorkers ports
+		config.pools.small = {
+			workers: { maxWorkers: 12, minWorkers: 1, startingPort: 39990 },
+		};
+		expect(await Config.validate(config)).toEqual([
+			'port ranges of pools "small" and "large" overlap',
+		]);
+	});
+
+	test("reports a keys file that cannot be read", async () => {
+		const config = candidate((config) => {
+			config.auth.keysFile = "missing-keys.json5";
+		});
+		const [problem] = await Config.validate(config);
+		expect(problem).toStartWith("auth.keysFile: ");
+	});
+
+	test("checks that model files exist", async () => {
+		await Bun.write(join(Global.Path.data, "model.bin"), "weights");
+		const config = candidate((config) => {
+			config.whisperServer.cwd = Global.Path.data;
+			config.whisperServer.model = "model.bin";
+		});
+		expect(await Config.validate(config)).toEqual([]);
+
+		config.whisperServer.model = "missing.bin";
+		expect(await Config.validate(config)).toEqual([
+			`pool "default": model file not found: ${join(Global.Path.data, "missing.bin")}`,
+		]);
+	});
+});
+
+describe("Config.reload", () => {
+	const current = Config.config;
+	const reloads: [InferenceServerConfig, InferenceServerConfig][] = [];
+	Config.onReload((next, previous) => {
+		reloads.push([next, previous]);
+	});
+
+	afterEach(() => {
+		Config.config = current;
+		reloads.length = 0;
+	});
+
+	const write = (contents: string) =>
+		Bun.write(Config.getConfigPath(), contents);
+
+	test("applies a valid edit and tells the listeners", async () => {
+		await write(
+			"{ whisperServer: { cmd: 'whisper-server' }, workers: { rotateThreshold: 10 } }",
+		);
+		expect(await Config.reload()).toBe(true);
+		expect(Config.config.workers.rotateThreshold).toBe(10);
+		// Unset settings keep their defaults
+		expect(Config.config.workers.poolSize).toBe(defaultConfig.workers.poolSize);
+		expect(reloads).toEqual([[Config.config, current]]);
+
+		// Nothing to do when the file did not change
+		expect(await Config.reload()).toBe(false);
+		expect(reloads).toHaveLength(1);
+	});
+
+	test.each([
+		["unparsable", "{ workers: "],
+		["invalid", "{ whisperServer: { cmd: '' }, workers: { poolSize: -1 } }"],
+	])("keeps the current config on an %s edit", async (_, contents) => {
+		await write(contents);
+		expect(await Config.reload()).toBe(false);
+		expect(Config.config).toBe(current);
+		expect(reloads).toEqual([]);
+	});
+});
@@ -1,23 +1,250 @@
-import { join } from "node:path";
+import { type FSWatcher, watch } from "node:fs";
+import { join, resolve } from "node:path";
+import { Value } from "@sinclair/typebox/value";
 import { type Static, t } from "elysia";
 import JSON5 from "json5";
 import merge from "lodash.merge";
 import { Global } from "./global";
 import { Log } from "./observability/logger";
 
+export const BalancingStrategy = t.UnionEnum(
+	["round-robin", "least-in-flight", "least-latency", "power-of-two-choices"],
+	{ default: "round-robin" },
+);
+
+export type BalancingStrategy = Static<typeof BalancingStrategy>;
+
 export const WorkerConfig = t.Object({
+	// Longest wait for in-flight requests before a retiring worker is stopped
+	drainTimeoutMs: t.Integer({ default: 120000 }),
+	// Max concurrent requests per worker, 0 for unlimited
+	maxInFlight: t.Integer({ default: 0 }),
+	// Extra attempts on other workers after a retryable failure
+	// (connection error, worker exit, 5xx)
+	maxRetries: t.Integer({ default: 2 }),
+	// Autoscaling upper bound, 0 keeps the pool fixed at poolSize
+	maxWorkers: t.Integer({ default: 0 }),
+	// Autoscaling lower bound, 0 lets an idle pool scale to zero
+	minWorkers: t.Integer({ default: 1 }),
+	// Initial size (clamped to minWorkers..maxWorkers when autoscaling)
 	poolSize: t.Integer({ default: 2 }),
+	requestTimeoutMs: t.Integer({ default: 120000 }),
+	// Delay before a retry, multiplied by the attempt number
+	retryBackoffMs: t.Integer({ default: 250 }),
 	rotateThreshold: t.Integer({ default: 25 }),
+	// Minimum time between a scale-down and the previous scale event, and how
+	// long load must stay low before scaling down
+	scaleDownCooldownMs: t.Integer({ default: 300000 }),
+	// Scale down when in-flight requests per worker slot stay at or below this
+	scaleDownUtilization: t.Number({ default: 0.3 }),
+	// Minimum time between a scale-up and the previous scale event
+	scaleUpCooldownMs: t.Integer({ default: 30000 }),
+	// Scale up when at least this many requests wait in the queue
+	scaleUpQueueDepth: t.Integer({ default: 1 }),
+	// Scale up when in-flight requests per worker slot reach this
+	scaleUpUtilization: t.Number({ default: 0.8 }),
 	startingPort: t.Integer({ default: 39000 }),
+	strategy: BalancingStrategy,
 });
 
+export type WorkerConfig = Static<typeof WorkerConfig>;
+
 export const WhisperServer = t.Object({
 	cmd: t.String({ default: Bun.env.WHISPER_SERVER_CMD ?? "" }),
 	cwd: t.String({ default: Bun.env.WHISPER_SERVER_CWD ?? "" }),
+	// Environment variables added to every worker process
+	env: t.Record(t.String(), t.String(), { default: {} }),
+	// Additional whisper-server flags, one argument per entry
+	extraArgs: t.Array(t.String(), { default: [] }),
+	// Model file passed as --model (relative paths resolve against cwd)
+	model: t.String({ default: Bun.env.WHISPER_SERVER_MODEL ?? "" }),
+	threads: t.Integer({ default: 2 }),
+});
+
+export type WhisperServer = Static<typeof WhisperServer>;
+
+export const AdminConfig = t.Object({
+	// Bearer token for /api/v1/admin routes, same as an API key with only the
+	// admin scope; ADMIN_TOKEN takes precedence (see Config.adminToken)
+	token: t.String({ default: "" }),
+});
+
+// transcribe: transcription routes, read: status/metrics/providers, admin: admin API
+export const ApiScope = t.UnionEnum(["transcribe", "read", "admin"]);
+
+export type ApiScope = Static<typeof ApiScope>;
+
+// An API key, of which only the SHA-256 digest is kept
+export const ApiKeyConfig = t.Object({
+	// Identifies the caller in logs and result metadata
+	name: t.String({ minLength: 1 }),
+	scopes: t.Array(ApiScope),
+	// Hex digest of the key, e.g. from `printf %s "$KEY" | sha256sum`
+	sha256: t.String({ pattern: "^[0-9a-fA-F]{64}$" }),
+});
+
+export type ApiKeyConfig = Static<typeof ApiKeyConfig>;
+
+export const AuthConfig = t.Object({
+	// Once any key is defined (here or in keysFile), API routes require one
+	keys: t.Array(ApiKeyConfig, { default: [] }),
+	// JSON5 file with more keys (an array like `keys`), read again on reload
+	// and SIGHUP
+	keysFile: t.String({ default: "" }),
+});
+
+export const AudioConfig = t.Object({
+	// Command and arguments that read compressed audio on stdin and write WAV
+	// to stdout (e.g. ffmpeg); compressed audio goes to workers as-is when empty
+	converter: t.Array(t.String(), { default: [] }),
+	converterTimeoutMs: t.Integer({ default: 60000 }),
+	// Keep submitted audio for download and replay, unless a request sets
+	// `retain_audio`
+	retain: t.Boolean({ default: false }),
+	// Retained audio older than this is deleted
+	retentionHours: t.Number({ default: 168, minimum: 0 }),
+	// The oldest retained audio is deleted past this total size
+	retentionMaxSizeMb: t.Number({ default: 1024, minimum: 0 }),
 });
 
+export const CacheConfig = t.Object({
+	// Serve repeated audio (same content, pool and options) from the cache
+	enabled: t.Boolean({ default: true }),
+	// Least recently used results are evicted past this size
+	maxSizeMb: t.Number({ default: 256, minimum: 0 }),
+	// How long a result is served from the cache after it was transcribed
+	ttlHours: t.Number({ default: 168, minimum: 0 }),
+});
+
+export const ChunkingConfig = t.Object({
+	// Target chunk length; each cut moves back to the quietest point within
+	// silenceSearchSeconds
+	chunkSeconds: t.Integer({ default: 120 }),
+	// Split long recordings unless a request sets `chunked: false`
+	enabled: t.Boolean({ default: false }),
+	// Recordings up to this long are never split
+	minDurationSeconds: t.Integer({ default: 300 }),
+	// Audio shared by neighbouring chunks around each cut
+	overlapSeconds: t.Number({ default: 2 }),
+	silenceSearchSeconds: t.Number({ default: 10 }),
+});
+
+export const HistoryConfig = t.Object({
+	// Store finished transcriptions in the database for GET /api/v1/transcriptions
+	enabled: t.Boolean({ default: true }),
+	// Days records are kept, 0 to keep them until deleted
+	retentionDays: t.Number({ default: 0, minimum: 0 }),
+});
+
+export const JobsConfig = t.Object({
+	// Number of async jobs executed concurrently
+	concurrency: t.Integer({ default: 2 }),
+	// How long finished jobs and their results are kept on disk
+	retentionHours: t.Integer({ default: 72 }),
+	// Worker request timeout for async jobs (long recordings)
+	timeoutMs: t.Integer({ default: 3600000 }),
+});
+
+// Limits applied to each client (API key, or IP address without one)
+export const ClientLimitsConfig = t.Object({
+	// Transcription requests allowed at once on top of the sustained rate
+	burst: t.Integer({ default: 10, minimum: 1 }),
+	// Audio seconds transcribed per UTC day, 0 for no quota
+	dailyAudioSeconds: t.Number({ default: 0 }),
+	// Audio seconds transcribed per UTC calendar month, 0 for no quota
+	monthlyAudioSeconds: t.Number({ default: 0 }),
+	// Sustained transcription requests per minute, 0 for no rate limit
+	requestsPerMinute: t.Number({ default: 0 }),
+});
+
+export type ClientLimitsConfig = Static<typeof ClientLimitsConfig>;
+
+export const LimitsConfig = t.Composite([
+	ClientLimitsConfig,
+	t.Object({
+		// Limits of particular API keys by key name, unset fields use the defaults
+		keys: t.Record(t.String(), t.Partial(ClientLimitsConfig), { default: {} }),
+		// Identify clients without a key by X-Forwarded-For (behind a proxy)
+		trustProxy: t.Boolean({ default: false }),
+	}),
+]);
+
+export const QueueConfig = t.Object({
+	// Requests allowed to wait for a worker before new ones get a 503
+	maxDepth: t.Integer({ default: 100 }),
+	// How long a request waits for a worker before giving up
+	maxWaitMs: t.Integer({ default: 30000 }),
+});
+
+export const StreamingConfig = t.Object({
+	// Seconds without a message before a streaming connection is closed (max 960)
+	idleTimeoutSeconds: t.Integer({ default: 60, maximum: 960, minimum: 1 }),
+	// Concurrent streaming sessions, 0 for no limit
+	maxSessions: t.Integer({ default: 16 }),
+	// Uncommitted audio is committed whole once it reaches this length
+	maxWindowSeconds: t.Number({ default: 30 }),
+	// New audio needed before the window is transcribed again for partials
+	partialIntervalSeconds: t.Number({ default: 1 }),
+	// Uncommitted audio length at which finished segments become final
+	windowSeconds: t.Number({ default: 10 }),
+});
+
+export const TracingConfig = t.Object({
+	// OTLP/HTTP collector base URL (e.g. http://localhost:4318), spans are
+	// only logged when empty
+	endpoint: t.String({ default: Bun.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? "" }),
+	// Extra headers sent to the collector (e.g. an API key)
+	headers: t.Record(t.String(), t.String(), { default: {} }),
+	serviceName: t.String({
+		default: Bun.env.OTEL_SERVICE_NAME ?? "inference-server-manager",
+	}),
+});
+
+export const WebhooksConfig = t.Object({
+	// Callback hosts allowed even though they resolve to loopback, private or
+	// link-local addresses (e.g. a receiver on the internal network)
+	allowedHosts: t.Array(t.String(), { default: [] }),
+	// Deliveries are marked failed after this many attempts
+	maxAttempts: t.Integer({ default: 5, minimum: 1 }),
+	// Wait before the first retry, doubled after each failed attempt
+	retryBackoffMs: t.Integer({ default: 1000, minimum: 0 }),
+	// HMAC-SHA256 key of the X-Webhook-Signature header; WEBHOOK_SECRET takes
+	// precedence (see Config.webhookSecret), `callback_url` is refused when
+	// neither is set
+	secret: t.String({ default: "" }),
+	// How long an attempt waits for the receiver's response
+	timeoutMs: t.Integer({ default: 10000, minimum: 1 }),
+});
+
+// A named worker pool. Unset whisperServer/workers fields fall back to the
+// top-level whisperServer/workers settings.
+export const PoolConfig = t.Object({
+	// Extra model names routed to this pool (e.g. "whisper-1", "large-v3")
+	aliases: t.Optional(t.Array(t.String())),
+	description: t.Optional(t.String()),
+	whisperServer: t.Optional(t.Partial(WhisperServer)),
+	workers: t.Optional(t.Partial(WorkerConfig)),
+});
+
+export type PoolConfig = Static<typeof PoolConfig>;
+
 export const InferenceServerConfig = t.Object({
+	admin: AdminConfig,
+	audio: AudioConfig,
+	auth: AuthConfig,
+	cache: CacheConfig,
+	chunking: ChunkingConfig,
+	// Pool used when a request names no model/pool, defaults to the first pool
+	defaultPool: t.String(),
 	editor: t.String(),
+	history: HistoryConfig,
+	jobs: JobsConfig,
+	limits: LimitsConfig,
+	pools: t.Record(t.String(), PoolConfig),
+	queue: QueueConfig,
+	streaming: StreamingConfig,
+	tracing: TracingConfig,
+	webhooks: WebhooksConfig,
 	whisperServer: WhisperServer,
 	workers: WorkerConfig,
 });
@@ -25,20 +252,118 @@ export const InferenceServerConfig = t.Object({
 export type InferenceServerConfig = Static<typeof InferenceServerConfig>;
 
 export const defaultConfig: InferenceServerConfig = {
+	admin: {
+		// Read from ADMIN_TOKEN when used, never written to settings.json5
+		token: "",
+	},
+	audio: {
+		converter: [],
+		converterTimeoutMs: 60000,
+		retain: false,
+		retentionHours: 168,
+		retentionMaxSizeMb: 1024,
+	},
+	auth: {
+		keys: [],
+		keysFile: "",
+	},
+	cache: {
+		enabled: true,
+		maxSizeMb: 256,
+		ttlHours: 168,
+	},
+	chunking: {
+		chunkSeconds: 120,
+		enabled: false,
+		minDurationSeconds: 300,
+		overlapSeconds: 2,
+		silenceSearchSeconds: 10,
+	},
+	defaultPool: "",
 	editor: "nvim",
+	history: {
+		enabled: true,
+		retentionDays: 0,
+	},
+	jobs: {
+		concurrency: 2,
+		retentionHours: 72,
+		timeoutMs: 3600000,
+	},
+	limits: {
+		burst: 10,
+		dailyAudioSeconds: 0,
+		keys: {},
+		monthlyAudioSeconds: 0,
+		requestsPerMinute: 0,
+		trustProxy: false,
+	},
+	pools: {},
+	queue: {
+		maxDepth: 100,
+		maxWaitMs: 30000,
+	},
+	streaming: {
+		idleTimeoutSeconds: 60,
+		maxSessions: 16,
+		maxWindowSeconds: 30,
+		partialIntervalSeconds: 1,
+		windowSeconds: 10,
+	},
+	tracing: {
+		endpoint: Bun.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? "",
+		headers: {},
+		serviceName: Bun.env.OTEL_SERVICE_NAME ?? "inference-server-manager",
+	},
+	webhooks: {
+		allowedHosts: [],
+		maxAttempts: 5,
+		retryBackoffMs: 1000,
+		// Read from WEBHOOK_SECRET when used, never written to settings.json5
+		secret: "",
+		timeoutMs: 10000,
+	},
 	whisperServer: {
 		cmd: Bun.env.WHISPER_SERVER_CMD ?? "",
 		cwd: Bun.env.WHISPER_SERVER_CWD ?? "",
+		env: {},
+		extraArgs: [],
+		model: Bun.env.WHISPER_SERVER_MODEL ?? "",
+		threads: 2,
 	},
 	workers: {
+		drainTimeoutMs: 120000,
+		maxInFlight: 0,
+		maxRetries: 2,
+		maxWorkers: 0,
+		minWorkers: 1,
 		poolSize: 3,
+		requestTimeoutMs: 120000,
+		retryBackoffMs: 250,
 		rotateThreshold: 25,
+		scaleDownCooldownMs: 300000,
+		scaleDownUtilization: 0.3,
+		scaleUpCooldownMs: 30000,
+		scaleUpQueueDepth: 1,
+		scaleUpUtilization: 0.8,
 		startingPort: 39000,
+		strategy: "round-robin",
 	},
 };
 
+const CONFIG_FILENAME = "settings.json5";
+
+/**
+ * Read and parse the config file, filling unset fields from the defaults.
+ * @throws Error when the file is not valid JSON5
+ */
+async function readConfigFile(path: string): Promise<InferenceServerConfig> {
+	const contents = JSON5.parse(await Bun.file(path).text());
+	return merge({}, defaultConfig, contents);
+}
+
 async function loadConfig(): Promise<InferenceServerConfig> {
-	const path = join(Global.Path.config, "settings.json5");
+	const path = join(Global.Path.config, CONFIG_FILENAME);
 	const file = Bun.file(path);
 	const exists = await file.exists();
 
@@ -49,19 +374,46 @@ async function loadConfig(): Promise<InferenceServerConfig> {
 	}
 
 	try {
-		const contents = JSON5.parse(await file.text());
-		return merge({}, defaultConfig, contents);
+		return await readConfigFile(path);
 	} catch (error) {
 		Log.warn({ error, path }, "Failed to parse config, using defaults");
 		return defaultConfig;
 	}
 }
 
-// Load config once at module import
+/**
+ * A worker pool with its settings fully resolved against the top-level defaults.
+ */
+export interface PoolDefinition {
+	name: string;
+	aliases: string[];
+	description: string;
+	whisperServer: WhisperServer;
+	workers: WorkerConfig;
+}
+
+// Name of the implicit pool built from top-level settings when no pools are configured
+const IMPLICIT_POOL_NAME = "default";
+
+// Called after a reloaded config has been validated and applied
+type ReloadListener = (
+	next: InferenceServerConfig,
+	previous: InferenceServerConfig,
+) => Promise<void> | void;
+
+// Load config at module import; replaced on reload
 const _config = await loadConfig();
 
 export namespace Config {
-	export const config = _config;
+	export let config = _config;
+
+	const log = Log.child({ module: "Config" });
+	const listeners: ReloadListener[] = [];
+	let watcher: FSWatcher | null = null;
+	let debounceTimer: Timer | null = null;
+	let reloading: Promise<void> = Promise.resolve();
+
+	const WATCH_DEBOUNCE_MS = 500;
 
 	/**
 	 * @deprecated Config is loaded automatically at module import.
@@ -71,13 +423,293 @@ export namespace Config {
 		// No-op: config is loaded at module import time
 	}
 
+	/**
+	 * Check a config against the schema and for settings that cannot work
+	 * together (overlapping pool ports, missing commands or model files).
+	 * @returns A list of problems, empty when the config is usable
+	 */
+	export async function validate(
+		candidate: InferenceServerConfig,
+	): Promise<string[]> {
+		if (!Value.Check(InferenceServerConfig, candidate)) {
+			return [...Value.Errors(InferenceServerConfig, candidate)]
+				.slice(0, 10)
+				.map((e) => `${e.path || "/"}: ${e.message}`);
+		}
+
+		const problems: string[] = [];
+		const resolved = pools(candidate);
+
+		if (
+			candidate.defaultPool &&
+			!resolved.some((p) => p.name === candidate.defaultPool)
+		) {
+			problems.push(`defaultPool "${candidate.defaultPool}" is not a pool`);
+		}
+
+		const { chunkSeconds, overlapSeconds, silenceSearchSeconds } =
+			candidate.chunking;
+		if (chunkSeconds <= overlapSeconds + silenceSearchSeconds) {
+			problems.push(
+				"chunking.chunkSeconds must be longer than overlapSeconds + silenceSearchSeconds",
+			);
+		}
+
+		const { maxWindowSeconds, windowSeconds } = candidate.streaming;
+		if (windowSeconds <= 0 || maxWindowSeconds < windowSeconds) {
+			problems.push(
+				"streaming.windowSeconds must be positive and at most maxWindowSeconds",
+			);
+		}
+
+		for (const pool of resolved) {
+			if (pool.whisperServer.cmd === "") {
+				problems.push(`pool "${pool.name}": whisperServer.cmd is not set`);
+			}
+			if (pool.workers.poolSize < 0) {
+				problems.push(`pool "${pool.name}": poolSize must not be negative`);
+			}
+			if (
+				pool.workers.maxWorkers > 0 &&
+				(pool.workers.minWorkers < 0 ||
+					pool.workers.minWorkers > pool.workers.maxWorkers)
+			) {
+				problems.push(
+					`pool "${pool.name}": minWorkers must be between 0 and maxWorkers`,
+				);
+			}
+			if (pool.whisperServer.model) {
+				const modelPath = resolve(
+					pool.whisperServer.cwd || process.cwd(),
+					pool.whisperServer.model,
+				);
+				if (!(await Bun.file(modelPath).exists())) {
+					problems.push(
+						`pool "${pool.name}": model file not found: ${modelPath}`,
+					);
+				}
+			}
+		}
+
+		// Pools own the ports [startingPort, startingPort + portCapacity)
+		const ranges = resolved
+			.map((p) => ({
+				end: p.workers.startingPort + portCapacity(p),
+				name: p.name,
+				start: p.workers.startingPort,
+			}))
+			.sort((a, b) => a.start - b.start);
+		for (let i = 1; i < ranges.length; i++) {
+			const prev = ranges[i - 1];
+			const next = ranges[i];
+			if (prev && next && next.start < prev.end) {
+				problems.push(
+					`port ranges of pools "${prev.name}" and "${next.name}" overlap`,
+				);
+			}
+		}
+
+		if (candidate.auth.keysFile) {
+			try {
+				await readKeysFile(candidate);
+			} catch (error) {
+				problems.push(
+					`auth.keysFile: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}
+
+		return problems;
+	}
+
+	/**
+	 * Read the API keys of auth.keysFile (relative to the config directory).
+	 * @throws Error when the file is missing, not JSON5 or not a list of keys
+	 */
+	export async function readKeysFile(
+		from: InferenceServerConfig = config,
+	): Promise<ApiKeyConfig[]> {
+		const path = resolve(Global.Path.config, from.auth.keysFile);
+		const keys = JSON5.parse(await Bun.file(path).text());
+		const schema = t.Array(ApiKeyConfig);
+		if (!Value.Check(schema, keys)) {
+			const [first] = Value.Errors(schema, keys);
+			throw new Error(`${path}: ${first?.path || "/"}: ${first?.message}`);
+		}
+		return keys;
+	}
+
+	/**
+	 * Register a listener that is called whenever a reloaded config is applied.
+	 */
+	export function onReload(listener: ReloadListener): void {
+		listeners.push(listener);
+	}
+
+	/**
+	 * Re-read settings.json5. Invalid edits are rejected and logged, keeping
+	 * the current config active. Reloads are serialized.
+	 * @returns Whether a new config was applied
+	 */
+	export function reload(): Promise<boolean> {
+		const run = reloading.then(applyReload);
+		reloading = run.then(
+			() => undefined,
+			() => undefined,
+		);
+		return run;
+	}
+
+	async function applyReload(): Promise<boolean> {
+		const path = getConfigPath();
+		let candidate: InferenceServerConfig;
+
+		try {
+			candidate = await readConfigFile(path);
+		} catch (error) {
+			log.error(
+				{ error, path },
+				"Failed to parse config, keeping current config",
+			);
+			return false;
+		}
+
+		if (JSON.stringify(candidate) === JSON.stringify(config)) {
+			log.debug({ path }, "Config unchanged, nothing to reload");
+			return false;
+		}
+
+		const problems = await validate(candidate);
+		if (problems.length > 0) {
+			log.error(
+				{ path, problems },
+				"Rejected invalid config, keeping current config",
+			);
+			return false;
+		}
+
+		const previous = config;
+		config = candidate;
+		log.info({ path }, "Config reloaded");
+
+		for (const listener of listeners) {
+			try {
+				await listener(candidate, previous);
+			} catch (error) {
+				log.error({ error }, "Config reload listener failed");
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Watch settings.json5 and reload on change. The directory is watched
+	 * because editors often replace the file instead of writing in place.
+	 */
+	export function watchFile(): void {
+		if (watcher) {
+			return;
+		}
+		watcher = watch(Global.Path.config, (_event, filename) => {
+			if (filename !== CONFIG_FILENAME) {
+				return;
+			}
+			if (debounceTimer) {
+				clearTimeout(debounceTimer);
+			}
+			debounceTimer = setTimeout(() => {
+				debounceTimer = null;
+				reload();
+			}, WATCH_DEBOUNCE_MS);
+		});
+		log.info({ path: getConfigPath() }, "Watching config for changes");
+	}
+
+	export function unwatchFile(): void {
+		if (debounceTimer) {
+			clearTimeout(debounceTimer);
+			debounceTimer = null;
+		}
+		watcher?.close();
+		watcher = null;
+	}
+
+	/**
+	 * Resolve the configured worker pools. Without a `pools` section the
+	 * top-level whisperServer/workers settings form a single "default" pool.
+	 */
+	export function pools(
+		from: InferenceServerConfig = config,
+	): PoolDefinition[] {
+		const entries = Object.entries(from.pools ?? {});
+		if (entries.length === 0) {
+			return [
+				{
+					aliases: [],
+					description: "",
+					name: IMPLICIT_POOL_NAME,
+					whisperServer: from.whisperServer,
+					workers: from.workers,
+				},
+			];
+		}
+
+		// Shallow merge: arrays like extraArgs replace rather than combine
+		return entries.map(([name, pool]) => ({
+			aliases: pool.aliases ?? [],
+			description: pool.description ?? "",
+			name,
+			whisperServer: { ...from.whisperServer, ...pool.whisperServer },
+			workers: { ...from.workers, ...pool.workers },
+		}));
+	}
+
+	export function isAutoscaled(pool: PoolDefinition): boolean {
+		return pool.workers.maxWorkers > 0;
+	}
+
+	/**
+	 * Number of ports reserved for a pool: maxWorkers when autoscaling,
+	 * otherwise poolSize.
+	 */
+	export function portCapacity(pool: PoolDefinition): number {
+		return isAutoscaled(pool)
+			? Math.max(pool.workers.maxWorkers, pool.workers.minWorkers)
+			: pool.workers.poolSize;
+	}
+
+	/**
+	 * The admin token: ADMIN_TOKEN when set, so the secret can stay out of
+	 * settings.json5 and be rotated through the environment, else admin.token.
+	 */
+	export function adminToken(from: InferenceServerConfig = config): string {
+		return Bun.env.ADMIN_TOKEN || from.admin.token;
+	}
+
+	/**
+	 * The webhook signing secret: WEBHOOK_SECRET when set, else
+	 * webhooks.secret (see adminToken).
+	 */
+	export function webhookSecret(from: InferenceServerConfig = config): string {
+		return Bun.env.WEBHOOK_SECRET || from.webhooks.secret;
+	}
+
+	export function defaultPoolName(
+		from: InferenceServerConfig = config,
+	): string {
+		const names = pools(from).map((p) => p.name);
+		return from.defaultPool && names.includes(from.defaultPool)
+			? from.defaultPool
+			: (names[0] ?? IMPLICIT_POOL_NAME);
+	}
+
 	export function getConfigPath(): string {
-		return join(Global.Path.config, "settings.json5");
+		return join(Global.Path.config, CONFIG_FILENAME);
 	}
 
 	export function open(): void {
 		const configPath = Config.getConfigPath();
-		const editor = _config.editor ?? process.env.EDITOR ?? "xdg-open";
+		const editor = config.editor ?? process.env.EDITOR ?? "xdg-open";
 		Bun.spawn([editor, configPath], {
 			stdio: ["ignore", "ignore", "ignore"],
 		});
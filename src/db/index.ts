@@ -0,0 +1,71 @@
+import { Database } from "bun:sqlite";
+import { join } from "node:path";
+import { Global } from "../global";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "Db" });
+
+/** A schema change, applied once and remembered by name */
+export interface Migration {
+	name: string;
+	sql: string;
+}
+
+/**
+ * The manager's SQLite database under Global.Path.data, shared by the
+ * modules that keep records (each owns its tables and migrations).
+ */
+export namespace Db {
+	let db: Database | null = null;
+
+	export const path = join(Global.Path.data, "inference.db");
+
+	/**
+	 * The database, opened on first use.
+	 */
+	export function connection(): Database {
+		if (!db) {
+			db = new Database(path, { create: true, strict: true });
+			// Readers do not block the writer
+			db.run("PRAGMA journal_mode = WAL");
+			db.run("PRAGMA busy_timeout = 5000");
+			db.run(
+				"CREATE TABLE IF NOT EXISTS migrations (name TEXT PRIMARY KEY, applied_at INTEGER NOT NULL)",
+			);
+			log.info({ path }, "Database opened");
+		}
+		return db;
+	}
+
+	/**
+	 * Apply the migrations that have not been applied yet, in order.
+	 */
+	export function migrate(migrations: Migration[]): void {
+		const database = connection();
+		const applied = new Set(
+			database
+				.query<{ name: string }, []>("SELECT name FROM migrations")
+				.all()
+				.map(({ name }) => name),
+		);
+		for (const { name, sql } of migrations) {
+			if (applied.has(name)) {
+				continue;
+			}
+			database.transaction(() => {
+				database.run(sql);
+				database
+					.query(
+						"INSERT INTO migrations (name, applied_at) VALUES ($name, $at)",
+					)
+					.run({ at: Date.now(), name });
+			})();
+			log.info({ migration: name }, "Migration applied");
+		}
+	}
+
+	export function close(): void {
+		db?.close();
+		db = null;
+	}
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import type { TranscriptionResult, TranscriptionSegment } from "../manager";
+import { Formats } from ".";
+
+function segment(
+	text: string,
+	start: number,
+	end: number,
+): TranscriptionSegment {
+	return { confidence: null, end, speaker: null, start, text };
+}
+
+const segments = [
+	segment(" Hello there. ", 0, 1.5),
+	segment("General <Kenobi> & co", 3661.25, 3663.0004),
+];
+
+describe("Formats.formatTimestamp", () => {
+	test("pads hours, minutes, seconds and milliseconds", () => {
+		expect(Formats.formatTimestamp(0, ",")).toBe("00:00:00,000");
+		expect(Formats.formatTimestamp(3661.0426, ".")).toBe("01:01:01.043");
+		expect(Formats.formatTimestamp(59.9996, ",")).toBe("00:01:00,000");
+		expect(Formats.formatTimestamp(-1, ",")).toBe("00:00:00,000");
+	});
+});
+
+describe("Formats.toSrt", () => {
+	test("numbers cues and uses comma timestamps", () => {
+		expect(Formats.toSrt(segments)).toBe(
+			"1\n00:00:00,000 --> 00:00:01,500\nHello there.\n\n" +
+				"2\n01:01:01,250 --> 01:01:03,000\nGeneral <Kenobi> & co\n",
+		);
+	});
+
+	test("skips empty segments", () => {
+		expect(Formats.toSrt([segment("  ", 0, 1), segment("Hi", 1, 2)])).toBe(
+			"1\n00:00:01,000 --> 00:00:02,000\nHi\n",
+		);
+	});
+
+	test("wraps lines and splits long segments into cues", () => {
+		const long = segment("one two three four five six", 10, 13.6);
+		expect(Formats.toSrt([long], { maxLineWidth: 9 })).toBe(
+			"1\n00:00:10,000 --> 00:00:13,600\none two\nthree\nfour five\nsix\n",
+		);
+		// Time is shared out by character count: 13 of 27 characters
+		expect(Formats.toSrt([long], { maxLineCount: 2, maxLineWidth: 9 })).toBe(
+			"1\n00:00:10,000 --> 00:00:11,733\none two\nthree\n\n" +
+				"2\n00:00:11,733 --> 00:00:13,600\nfour five\nsix\n",
+		);
+	});
+});
+
+describe("Formats.toVtt", () => {
+	test("starts with the header, uses dot timestamps and escapes text", () => {
+		expect(Formats.toVtt(segments)).toBe(
+			"WEBVTT\n\n" +
+				"00:00:00.000 --> 00:00:01.500\nHello there.\n\n" +
+				"01:01:01.250 --> 01:01:03.000\nGeneral &lt;Kenobi&gt; &amp; co\n",
+		);
+	});
+
+	test("is only the header without segments", () => {
+		expect(Formats.toVtt([])).toBe("WEBVTT\n");
+	});
+});
+
+describe("Formats.render", () => {
+	test("renders results without segments as one cue over the audio", () => {
+		const result: TranscriptionResult = {
+			confidence: 0,
+			duration: 2.5,
+			language: "en",
+			metadata: {},
+			provider: "whisper-server",
+			segments: [],
+			text: "Just text",
+		};
+		expect(Formats.render(result, "srt")).toBe(
+			"1\n00:00:00,000 --> 00:00:02,500\nJust text\n",
+		);
+		expect(Formats.render(result, "tsv")).toBe(
+			"start\tend\ttext\n0\t2500\tJust text\n",
+		);
+		expect(Formats.render(result, "text", { maxLineWidth: 4 })).toBe(
+			"Just\ntext\n",
+		);
+	});
+});
@@ -0,0 +1,187 @@
+import type { TranscriptionResult, TranscriptionSegment } from "../manager";
+
+/** Text renderings of a transcription */
+export type TextFormat = "text" | "srt" | "vtt" | "tsv";
+
+export interface WrapOptions {
+	/** Wrap cue lines at this many characters, at word boundaries */
+	maxLineWidth?: number;
+	/** Split cues with more lines than this into consecutive cues */
+	maxLineCount?: number;
+}
+
+/**
+ * Renderers that turn transcription segments into subtitle/text formats.
+ */
+export namespace Formats {
+	export const CONTENT_TYPES: Record<TextFormat, string> = {
+		srt: "application/x-subrip; charset=utf-8",
+		text: "text/plain; charset=utf-8",
+		tsv: "text/tab-separated-values; charset=utf-8",
+		vtt: "text/vtt; charset=utf-8",
+	};
+
+	/**
+	 * Format seconds as a subtitle timestamp (HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for VTT).
+	 */
+	export function formatTimestamp(
+		seconds: number,
+		separator: "," | ".",
+	): string {
+		const totalMs = Math.max(0, Math.round(seconds * 1000));
+		const hours = Math.floor(totalMs / 3_600_000);
+		const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+		const secs = Math.floor((totalMs % 60_000) / 1000);
+		const ms = totalMs % 1000;
+		const pad = (n: number, width = 2) => n.toString().padStart(width, "0");
+		return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+	}
+
+	/** A subtitle cue: one segment, or part of one after wrapping */
+	interface Cue {
+		start: number;
+		end: number;
+		lines: string[];
+	}
+
+	/**
+	 * Break text into lines of at most `width` characters at word boundaries.
+	 * Words longer than the width get a line of their own.
+	 */
+	export function wrapText(text: string, width: number): string[] {
+		const lines: string[] = [];
+		let line = "";
+		for (const word of text.split(/\s+/).filter(Boolean)) {
+			if (line && line.length + 1 + word.length > width) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = line ? `${line} ${word}` : word;
+			}
+		}
+		if (line) {
+			lines.push(line);
+		}
+		return lines;
+	}
+
+	/**
+	 * Turn segments into cues, wrapping their text and splitting segments
+	 * with more than maxLineCount lines into consecutive cues. The time of a
+	 * split segment is shared out by character count.
+	 */
+	function toCues(
+		segments: TranscriptionSegment[],
+		{ maxLineCount, maxLineWidth }: WrapOptions,
+	): Cue[] {
+		const cues: Cue[] = [];
+		for (const segment of segments) {
+			const text = segment.text.replace(/\s+/g, " ").trim();
+			if (!text) {
+				continue;
+			}
+			const lines = maxLineWidth ? wrapText(text, maxLineWidth) : [text];
+			const perCue =
+				maxLineCount && maxLineCount > 0 ? maxLineCount : lines.length;
+			const groups: string[][] = [];
+			for (let i = 0; i < lines.length; i += perCue) {
+				groups.push(lines.slice(i, i + perCue));
+			}
+
+			const duration = segment.end - segment.start;
+			let start = segment.start;
+			groups.forEach((group, i) => {
+				const end =
+					i === groups.length - 1
+						? segment.end
+						: start + (duration * group.join(" ").length) / text.length;
+				cues.push({ end, lines: group, start });
+				start = end;
+			});
+		}
+		return cues;
+	}
+
+	export function toSrt(
+		segments: TranscriptionSegment[],
+		wrap: WrapOptions = {},
+	): string {
+		return toCues(segments, wrap)
+			.map(
+				(cue, i) =>
+					`${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.lines.join("\n")}\n`,
+			)
+			.join("\n");
+	}
+
+	// Characters with a meaning in WebVTT cue text
+	function escapeVtt(text: string): string {
+		return text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;");
+	}
+
+	export function toVtt(
+		segments: TranscriptionSegment[],
+		wrap: WrapOptions = {},
+	): string {
+		const cues = toCues(segments, wrap).map(
+			(cue) =>
+				`${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.lines.map(escapeVtt).join("\n")}\n`,
+		);
+		return ["WEBVTT\n", ...cues].join("\n");
+	}
+
+	/**
+	 * Tab-separated start, end (integer milliseconds) and text, one segment
+	 * per row, as written by whisper.cpp.
+	 */
+	export function toTsv(segments: TranscriptionSegment[]): string {
+		const rows = toCues(segments, {}).map(
+			(cue) =>
+				`${Math.round(cue.start * 1000)}\t${Math.round(cue.end * 1000)}\t${cue.lines.join(" ").replace(/\t/g, " ")}`,
+		);
+		return `${["start\tend\ttext", ...rows].join("\n")}\n`;
+	}
+
+	export function toText(text: string, wrap: WrapOptions = {}): string {
+		const lines = wrap.maxLineWidth
+			? wrapText(text, wrap.maxLineWidth)
+			: [text.trim()];
+		return `${lines.join("\n")}\n`;
+	}
+
+	/**
+	 * Render a result in a text format. Results without segments (e.g.
+	 * transcribed without timestamps) become a single cue over the whole audio.
+	 */
+	export function render(
+		result: Pick<TranscriptionResult, "duration" | "segments" | "text">,
+		format: TextFormat,
+		wrap: WrapOptions = {},
+	): string {
+		const segments: TranscriptionSegment[] =
+			result.segments.length > 0 || !result.text
+				? result.segments
+				: [
+						{
+							confidence: null,
+							end: result.duration,
+							speaker: null,
+							start: 0,
+							text: result.text,
+						},
+					];
+		switch (format) {
+			case "srt":
+				return toSrt(segments, wrap);
+			case "vtt":
+				return toVtt(segments, wrap);
+			case "tsv":
+				return toTsv(segments);
+			default:
+				return toText(result.text, wrap);
+		}
+	}
+}
@@ -21,6 +21,7 @@ export namespace Global {
 		cache,
 		config,
 		data,
+		jobs: path.join(data, "jobs"),
 		logs: path.join(data, "logs"),
 		state,
 	} as const;
@@ -32,6 +33,7 @@ await Promise.all([
 	fs.mkdir(Global.Path.state, { recursive: true }),
 	fs.mkdir(Global.Path.logs, { recursive: true }),
 	fs.mkdir(Global.Path.audio, { recursive: true }),
+	fs.mkdir(Global.Path.jobs, { recursive: true }),
 	fs.mkdir(Global.Path.bin, { recursive: true }),
 ]);
 
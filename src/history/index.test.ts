@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import type { TranscriptionResult } from "../manager";
+import { History } from ".";
+
+function result(text: string): TranscriptionResult {
+	return {
+		confidence: 1,
+		duration: 2,
+		language: "en",
+		metadata: { worker_id: "worker_1" },
+		provider: "whisper-server",
+		segments: [
+			{ confidence: null, end: 2, speaker: null, start: 0, text: text },
+		],
+		text,
+	};
+}
+
+describe("History", () => {
+	const { history } = Config.config;
+	// Records of other tests share the database, so each test tags its own
+	let run: Record<string, string>;
+
+	/** Store a successful transcription of a text */
+	function store(text: string, owner?: string): string {
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		History.record({
+			createdAt: Date.now() - 100,
+			id,
+			metadata: run,
+			owner,
+			pool: "default",
+			result: result(text),
+		});
+		return id;
+	}
+	const search = (filter: Parameters<typeof History.list>[0] = {}) =>
+		History.list(
+			{ ...filter, metadata: { ...run, ...filter.metadata } },
+			{ limit: 10, offset: 0 },
+		).records.map((r) => r.text);
+
+	beforeEach(() => {
+		History.init();
+		run = { run: Bun.randomUUIDv7() };
+	});
+
+	afterEach(() => {
+		Config.config.history = history;
+		History.dispose();
+	});
+
+	test("keeps successful and failed transcriptions", () => {
+		const id = store("Hello world", "app");
+		expect(History.get(id)).toMatchObject({
+			duration: 2,
+			error: null,
+			id,
+			language: "en",
+			metadata: { ...run, worker_id: "worker_1" },
+			owner: "app",
+			pool: "default",
+			segments: [{ end: 2, start: 0, text: "Hello world" }],
+			status: "succeeded",
+			text: "Hello world",
+			workerId: "worker_1",
+		});
+
+		const failed = `tr_${Bun.randomUUIDv7()}`;
+		History.record({
+			createdAt: Date.now(),
+			error: new Error("worker died"),
+			id: failed,
+			metadata: run,
+			pool: "default",
+		});
+		expect(History.get(failed)).toMatchObject({
+			error: "worker died",
+			owner: null,
+			status: "failed",
+			text: "",
+		});
+		expect(History.get("tr_missing")).toBeNull();
+	});
+
+	test("stores nothing while disabled", () => {
+		Config.config.history = { ...history, enabled: false };
+		store("Hello");
+		expect(search()).toEqual([]);
+	});
+
+	test("finds records containing every searched word", () => {
+		store("The quick brown fox");
+		store("A lazy dog");
+		store("Quick thinking");
+
+		expect(search({ search: "quick" })).toEqual([
+			"Quick thinking",
+			"The quick brown fox",
+		]);
+		expect(search({ search: "QUICK fox" })).toEqual(["The quick brown fox"]);
+		// Whole words, and query syntax is taken as words
+		expect(search({ search: "fo" })).toEqual([]);
+		expect(search({ search: 'dog" OR "fox' })).toEqual([]);
+		expect(search({ search: "lazy*" })).toEqual(["A lazy dog"]);
+		expect(History.selectsAll({ search: "  ?! " })).toBe(true);
+	});
+
+	test("filters by status, completion time, metadata and owner", () => {
+		const before = Date.now();
+		store("mine", "app");
+		store("theirs", "other");
+		History.record({
+			createdAt: Date.now(),
+			id: `tr_${Bun.randomUUIDv7()}`,
+			metadata: { ...run, source: "mobile" },
+			pool: "default",
+			result: result("tagged"),
+		});
+
+		expect(search({ owner: "app" })).toEqual(["mine"]);
+		expect(search({ metadata: { source: "mobile" } })).toEqual(["tagged"]);
+		expect(search({ status: "failed" })).toEqual([]);
+		expect(search({ from: before })).toHaveLength(3);
+		expect(search({ to: before })).toEqual([]);
+	});
+
+	test("deletes matching records from the search index too", () => {
+		const fox = store("The quick brown fox");
+		const dog = store("A lazy dog");
+
+		expect(History.remove({ metadata: run, search: "fox" })).toEqual([fox]);
+		expect(search({ search: "fox" })).toEqual([]);
+		expect(search()).toEqual(["A lazy dog"]);
+
+		expect(History.remove({ id: dog })).toEqual([dog]);
+		expect(search()).toEqual([]);
+	});
+});
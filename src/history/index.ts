@@ -0,0 +1,327 @@
+import { Config } from "../config";
+import { Db } from "../db";
+import type { TranscriptionResult, TranscriptionSegment } from "../manager";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "History" });
+
+export type TranscriptionStatus = "succeeded" | "failed";
+
+/** A finished transcription as kept in the history */
+export interface TranscriptionRecord {
+	id: string;
+	status: TranscriptionStatus;
+	createdAt: number;
+	completedAt: number;
+	processingMs: number;
+	pool: string | null;
+	workerId: string | null;
+	language: string | null;
+	duration: number | null;
+	text: string;
+	segments: TranscriptionSegment[];
+	/** Request metadata, plus the result metadata of successful requests */
+	metadata: Record<string, string>;
+	error: string | null;
+	traceId: string | null;
+	/** Name of the API key that submitted it, null for anonymous requests */
+	owner: string | null;
+}
+
+/** Selects history records, every field narrowing the selection */
+export interface HistoryFilter {
+	/** Completed at or after (epoch ms) */
+	from?: number;
+	/** Completed before (epoch ms) */
+	to?: number;
+	status?: TranscriptionStatus;
+	/** Metadata entries that must all match */
+	metadata?: Record<string, string>;
+	/** Words that must all appear in the text */
+	search?: string;
+	/** Name of the API key that submitted them */
+	owner?: string;
+}
+
+interface Row {
+	id: string;
+	status: TranscriptionStatus;
+	created_at: number;
+	completed_at: number;
+	processing_ms: number;
+	pool: string | null;
+	worker_id: string | null;
+	language: string | null;
+	duration: number | null;
+	text: string;
+	segments: string;
+	metadata: string;
+	error: string | null;
+	trace_id: string | null;
+	owner: string | null;
+}
+
+/**
+ * Completed and failed transcriptions, stored in the manager database with a
+ * full-text index over their text. Records older than
+ * history.retentionDays are deleted hourly.
+ */
+export namespace History {
+	let retentionInterval: Timer | null = null;
+
+	const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+	const MIGRATIONS = [
+		{
+			name: "history-001-transcriptions",
+			sql: `
+				CREATE TABLE transcriptions (
+					id TEXT PRIMARY KEY,
+					status TEXT NOT NULL,
+					created_at INTEGER NOT NULL,
+					completed_at INTEGER NOT NULL,
+					processing_ms INTEGER NOT NULL,
+					pool TEXT,
+					worker_id TEXT,
+					language TEXT,
+					duration REAL,
+					text TEXT NOT NULL,
+					segments TEXT NOT NULL,
+					metadata TEXT NOT NULL,
+					error TEXT,
+					trace_id TEXT
+				);
+				CREATE INDEX transcriptions_completed_at ON transcriptions (completed_at);
+				CREATE VIRTUAL TABLE transcriptions_fts USING fts5 (
+					text, content = 'transcriptions', content_rowid = 'rowid'
+				);
+				CREATE TRIGGER transcriptions_fts_insert AFTER INSERT ON transcriptions BEGIN
+					INSERT INTO transcriptions_fts (rowid, text) VALUES (new.rowid, new.text);
+				END;
+				CREATE TRIGGER transcriptions_fts_delete AFTER DELETE ON transcriptions BEGIN
+					INSERT INTO transcriptions_fts (transcriptions_fts, rowid, text)
+					VALUES ('delete', old.rowid, old.text);
+				END;
+			`,
+		},
+		{
+			name: "history-002-owner",
+			sql: `
+				ALTER TABLE transcriptions ADD COLUMN owner TEXT;
+				CREATE INDEX transcriptions_owner ON transcriptions (owner, completed_at);
+			`,
+		},
+	];
+
+	export function init(): void {
+		Db.migrate(MIGRATIONS);
+		sweepExpired();
+		retentionInterval = setInterval(sweepExpired, RETENTION_SWEEP_INTERVAL_MS);
+	}
+
+	export function dispose(): void {
+		if (retentionInterval) {
+			clearInterval(retentionInterval);
+			retentionInterval = null;
+		}
+	}
+
+	/**
+	 * Store a finished transcription. Failing to store it is logged, never
+	 * fails the request.
+	 * @returns Whether it was stored (false when history is disabled)
+	 */
+	export function record(entry: {
+		id: string;
+		createdAt: number;
+		pool: string;
+		metadata?: Record<string, string>;
+		result?: TranscriptionResult;
+		error?: unknown;
+		traceId?: string;
+		owner?: string;
+	}): boolean {
+		if (!Config.config.history.enabled) {
+			return false;
+		}
+		const { id, result } = entry;
+		const completedAt = Date.now();
+		try {
+			Db.connection()
+				.query(
+					`INSERT INTO transcriptions (id, status, created_at, completed_at,
+						processing_ms, pool, worker_id, language, duration, text, segments,
+						metadata, error, trace_id, owner)
+					VALUES ($id, $status, $createdAt, $completedAt, $processingMs, $pool,
+						$workerId, $language, $duration, $text, $segments, $metadata,
+						$error, $traceId, $owner)`,
+				)
+				.run({
+					completedAt,
+					createdAt: entry.createdAt,
+					duration: result?.duration ?? null,
+					error: result
+						? null
+						: entry.error instanceof Error
+							? entry.error.message
+							: "Unknown error",
+					id,
+					language: result?.language ?? null,
+					metadata: JSON.stringify({
+						...entry.metadata,
+						...result?.metadata,
+					}),
+					owner: entry.owner ?? null,
+					pool: entry.pool,
+					processingMs: completedAt - entry.createdAt,
+					segments: JSON.stringify(result?.segments ?? []),
+					status: result ? "succeeded" : "failed",
+					text: result?.text ?? "",
+					traceId: entry.traceId ?? null,
+					workerId:
+						result?.metadata.worker_id ?? result?.metadata.worker_ids ?? null,
+				});
+			return true;
+		} catch (error) {
+			log.error({ error }, "Failed to record transcription");
+			return false;
+		}
+	}
+
+	/**
+	 * WHERE clause and parameters selecting the records of a filter.
+	 */
+	function where(filter: HistoryFilter & { id?: string }) {
+		const clauses: string[] = [];
+		const params: Record<string, string | number> = {};
+		if (filter.id !== undefined) {
+			clauses.push("id = $id");
+			params.id = filter.id;
+		}
+		if (filter.from !== undefined) {
+			clauses.push("completed_at >= $from");
+			params.from = filter.from;
+		}
+		if (filter.to !== undefined) {
+			clauses.push("completed_at < $to");
+			params.to = filter.to;
+		}
+		if (filter.status) {
+			clauses.push("status = $status");
+			params.status = filter.status;
+		}
+		if (filter.owner !== undefined) {
+			clauses.push("owner = $owner");
+			params.owner = filter.owner;
+		}
+		Object.entries(filter.metadata ?? {}).forEach(([key, value], index) => {
+			clauses.push(
+				`EXISTS (SELECT 1 FROM json_each(metadata) WHERE key = $key${index} AND value = $value${index})`,
+			);
+			params[`key${index}`] = key;
+			params[`value${index}`] = value;
+		});
+		const terms = filter.search?.match(/[\p{L}\p{N}_']+/gu);
+		if (terms?.length) {
+			clauses.push(
+				"rowid IN (SELECT rowid FROM transcriptions_fts WHERE transcriptions_fts MATCH $search)",
+			);
+			// Quoted so input is matched as words, not FTS query syntax
+			params.search = terms
+				.map((term) => `"${term.replaceAll('"', '""')}"`)
+				.join(" ");
+		}
+		return {
+			params,
+			sql: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+		};
+	}
+
+	/**
+	 * Records matching a filter, most recent first.
+	 */
+	export function list(
+		filter: HistoryFilter,
+		page: { limit: number; offset: number },
+	): { records: TranscriptionRecord[]; total: number } {
+		const { params, sql } = where(filter);
+		const db = Db.connection();
+		const total =
+			db
+				.query<{ total: number }, typeof params>(
+					`SELECT count(*) AS total FROM transcriptions ${sql}`,
+				)
+				.get(params)?.total ?? 0;
+		const rows = db
+			.query<Row, typeof params>(
+				`SELECT * FROM transcriptions ${sql}
+				ORDER BY completed_at DESC, id DESC LIMIT $limit OFFSET $offset`,
+			)
+			.all({ ...params, limit: page.limit, offset: page.offset });
+		return { records: rows.map(toRecord), total };
+	}
+
+	export function get(id: string): TranscriptionRecord | null {
+		const row = Db.connection()
+			.query<Row, { id: string }>("SELECT * FROM transcriptions WHERE id = $id")
+			.get({ id });
+		return row ? toRecord(row) : null;
+	}
+
+	/**
+	 * Whether a filter selects every record (e.g. an empty search).
+	 */
+	export function selectsAll(filter: HistoryFilter): boolean {
+		return where(filter).sql === "";
+	}
+
+	/**
+	 * Delete the records matching a filter.
+	 * @returns The ids of the deleted records
+	 */
+	export function remove(filter: HistoryFilter & { id?: string }): string[] {
+		const { params, sql } = where(filter);
+		const deleted = Db.connection()
+			.query<{ id: string }, typeof params>(
+				`DELETE FROM transcriptions ${sql} RETURNING id`,
+			)
+			.all(params)
+			.map(({ id }) => id);
+		if (deleted.length > 0) {
+			log.info({ deleted: deleted.length }, "Transcription records deleted");
+		}
+		return deleted;
+	}
+
+	function sweepExpired(): void {
+		const { retentionDays } = Config.config.history;
+		if (retentionDays <= 0) {
+			return;
+		}
+		try {
+			remove({ to: Date.now() - retentionDays * 24 * 60 * 60 * 1000 });
+		} catch (error) {
+			log.error({ error }, "Failed to delete expired transcription records");
+		}
+	}
+
+	function toRecord(row: Row): TranscriptionRecord {
+		return {
+			completedAt: row.completed_at,
+			createdAt: row.created_at,
+			duration: row.duration,
+			error: row.error,
+			id: row.id,
+			language: row.language,
+			metadata: JSON.parse(row.metadata),
+			owner: row.owner,
+			pool: row.pool,
+			processingMs: row.processing_ms,
+			segments: JSON.parse(row.segments),
+			status: row.status,
+			text: row.text,
+			traceId: row.trace_id,
+			workerId: row.worker_id,
+		};
+	}
+}
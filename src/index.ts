@@ -25,12 +25,48 @@ const cleanup = async () => {
 
 	Log.info("Shutting down Inference Server Manager...");
 
-	// Dispose manager and workers
+	// Stop reacting to config edits
 	WithTry(async () => {
+		const { Config } = await import("./config");
+		Config.unwatchFile();
+	}, "Failed to stop config watcher");
+
+	// Stop picking up async jobs (interrupted jobs are requeued on restart)
+	WithTry(async () => {
+		const { Jobs } = await import("./jobs");
+		Jobs.dispose();
+	}, "Failed to dispose jobs");
+
+	// Close live transcription sessions, they cannot be resumed
+	WithTry(async () => {
+		const { Streaming } = await import("./streaming");
+		Streaming.dispose();
+	}, "Failed to close streaming sessions");
+
+	// Drain and stop workers while the HTTP server can still deliver responses
+	await WithTry(async () => {
 		const { Manager } = await import("./manager");
 		await Manager.dispose();
 	}, "Failed to dispose manager");
 
+	// Save quota usage so it survives the restart
+	await WithTry(async () => {
+		const { Limits } = await import("./limits");
+		await Limits.dispose();
+	}, "Failed to save quota usage");
+
+	// Close the database once nothing records to it anymore
+	WithTry(async () => {
+		const { History } = await import("./history");
+		const { AudioStore } = await import("./audio/store");
+		const { Webhooks } = await import("./webhooks");
+		const { Db } = await import("./db");
+		History.dispose();
+		AudioStore.dispose();
+		Webhooks.dispose();
+		Db.close();
+	}, "Failed to close database");
+
 	// End observability session
 	WithTry(
 		async () => Observability.dispose(),
@@ -57,14 +93,30 @@ const registerShutdown = () => {
 	registered = true;
 
 	const handleSignal = async (signal: NodeJS.Signals) => {
+		const exitCode = signal === "SIGINT" ? 130 : 143;
+		if (isCleaningUp) {
+			// A second signal skips waiting for in-flight requests
+			Log.warn({ signal }, "Received second shutdown signal, exiting now");
+			process.exit(exitCode);
+		}
 		Log.info({ signal }, "Received shutdown signal");
 		await cleanup();
-		const exitCode = signal === "SIGINT" ? 130 : 143;
 		process.exit(exitCode);
 	};
 
-	process.once("SIGINT", handleSignal);
-	process.once("SIGTERM", handleSignal);
+	process.on("SIGINT", handleSignal);
+	process.on("SIGTERM", handleSignal);
+
+	// SIGHUP reloads settings.json5 instead of shutting down
+	process.on("SIGHUP", async () => {
+		Log.info({ signal: "SIGHUP" }, "Received reload signal");
+		const { Config } = await import("./config");
+		// Re-read auth.keysFile even when settings.json5 is unchanged
+		if (!(await Config.reload())) {
+			const { Auth } = await import("./auth");
+			await Auth.reload();
+		}
+	});
 };
 
 namespace Main {
@@ -80,6 +132,31 @@ namespace Main {
 		const { Manager } = await import("./manager");
 		await Manager.init();
 
+		// Load API keys before accepting requests
+		const { Auth } = await import("./auth");
+		await Auth.init();
+
+		// Restore quota usage before jobs charge to it
+		const { Limits } = await import("./limits");
+		await Limits.init();
+
+		// Open the transcription history, audio store and webhook deliveries
+		// before anything is transcribed
+		const { History } = await import("./history");
+		History.init();
+		const { AudioStore } = await import("./audio/store");
+		await AudioStore.init();
+		const { Webhooks } = await import("./webhooks");
+		Webhooks.init();
+
+		// Resume persisted async transcription jobs
+		const { Jobs } = await import("./jobs");
+		await Jobs.init();
+
+		// Apply settings.json5 edits without a restart
+		const { Config } = await import("./config");
+		Config.watchFile();
+
 		try {
 			app = createApp();
 
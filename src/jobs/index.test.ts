@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { join } from "node:path";
+import { Global } from "../global";
+import {
+	Manager,
+	type TranscriptionResult,
+	WorkerUnavailableError,
+} from "../manager";
+import { type Job, JobStatus, Jobs } from ".";
+
+// 16 kHz mono 16-bit PCM: 16 samples of silence
+const WAV =
+	"UklGRkQAAABXQVZFZm10IBAAAAABAAEAgD4AAAB9AAACABAAZGF0YSAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==";
+const audio = () => new File([Buffer.from(WAV, "base64")], "a.wav");
+
+const result: TranscriptionResult = {
+	confidence: 1,
+	duration: 0.1,
+	language: "en",
+	metadata: {},
+	provider: "test",
+	segments: [],
+	text: "hello",
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+	for (let i = 0; i < 200 && !check(); i++) {
+		await Bun.sleep(5);
+	}
+	expect(check()).toBe(true);
+}
+
+const jobFile = (id: string) => Bun.file(join(Global.Path.jobs, `${id}.json`));
+const audioFile = (id: string) =>
+	Bun.file(join(Global.Path.jobs, `${id}.audio`));
+
+describe("Jobs", () => {
+	afterEach(() => {
+		Jobs.dispose();
+		mock.restore();
+	});
+
+	test("runs a submitted job and keeps its result", async () => {
+		await Jobs.init();
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const job = await Jobs.submit(audio(), {
+			language: "de",
+			metadata: { source: "test" },
+		});
+		await waitFor(() => Jobs.get(job.id)?.status === JobStatus.Succeeded);
+
+		const done = Jobs.get(job.id) as Job;
+		expect(done.result?.text).toBe("hello");
+		expect(done.error).toBeNull();
+		expect(Jobs.timings(done).processingMs).toBeGreaterThanOrEqual(0);
+		expect(Jobs.timings(done).queuedMs).toBeGreaterThanOrEqual(0);
+
+		const [file, options] = transcribe.mock.calls[0] ?? [];
+		expect((file as File).name).toBe("a.wav");
+		expect((file as File).size).toBe(76);
+		expect(options).toMatchObject({
+			language: "de",
+			metadata: { job_id: job.id, source: "test" },
+		});
+
+		// The result is on disk and the audio no longer needed
+		await waitFor(() => Jobs.get(job.id)?.completedAt !== null);
+		await Bun.sleep(20);
+		expect((await jobFile(job.id).json()).status).toBe(JobStatus.Succeeded);
+		expect(await audioFile(job.id).exists()).toBe(false);
+	});
+
+	test("records the error of a failed job", async () => {
+		await Jobs.init();
+		spyOn(Manager, "transcribe").mockRejectedValue(new Error("bad audio"));
+
+		const { id } = await Jobs.submit(WAV);
+		await waitFor(() => Jobs.get(id)?.status === JobStatus.Failed);
+		expect(Jobs.get(id)?.error).toBe("bad audio");
+		expect(Jobs.get(id)?.result).toBeNull();
+	});
+
+	test("picks up jobs left running by a previous process", async () => {
+		const id = "job_interrupted";
+		await Bun.write(audioFile(id), new Uint8Array(64));
+		await Bun.write(
+			jobFile(id),
+			JSON.stringify({
+				audioSize: 64,
+				completedAt: null,
+				createdAt: Date.now() - 1000,
+				error: null,
+				filename: "late.wav",
+				id,
+				options: {},
+				result: null,
+				startedAt: Date.now() - 500,
+				status: JobStatus.Running,
+			}),
+		);
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		await Jobs.init();
+		await waitFor(() => Jobs.get(id)?.status === JobStatus.Succeeded);
+		expect((transcribe.mock.calls[0]?.[0] as File).name).toBe("late.wav");
+	});
+
+	test("jobs interrupted by a shutdown stay queued and run after a restart", async () => {
+		await Jobs.init();
+		const transcribe = spyOn(Manager, "transcribe").mockRejectedValue(
+			new WorkerUnavailableError(
+				"SHUTTING_DOWN",
+				"Manager is shutting down",
+				5,
+			),
+		);
+
+		const { id } = await Jobs.submit(audio());
+		await waitFor(() => transcribe.mock.calls.length === 1);
+		// Let the job settle after the rejection
+		await Bun.sleep(20);
+
+		const job = Jobs.get(id);
+		expect(job?.status).toBe(JobStatus.Queued);
+		expect(job?.error).toBeNull();
+		expect(job?.completedAt).toBeNull();
+		expect(job?.startedAt).toBeNull();
+		expect((await jobFile(id).json()).status).toBe(JobStatus.Queued);
+
+		Jobs.dispose();
+		transcribe.mockResolvedValue(result);
+		await Jobs.init();
+		await waitFor(() => Jobs.get(id)?.status === JobStatus.Succeeded);
+		expect(Jobs.get(id)?.result?.text).toBe("hello");
+	});
+
+	test("jobs without a worker for now are requeued, not failed", async () => {
+		await Jobs.init();
+		const transcribe = spyOn(Manager, "transcribe").mockRejectedValueOnce(
+			new WorkerUnavailableError("QUEUE_FULL", "Queue is full", 0),
+		);
+		transcribe.mockResolvedValue({ ...result, text: "later" });
+
+		const { id } = await Jobs.submit(audio());
+		await waitFor(() => Jobs.get(id)?.status === JobStatus.Succeeded);
+		expect(Jobs.get(id)?.result?.text).toBe("later");
+		expect(transcribe).toHaveBeenCalledTimes(2);
+	});
+});
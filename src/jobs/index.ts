@@ -0,0 +1,296 @@
+import { readdir, rename, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { Audio } from "../audio";
+import { Config } from "../config";
+import { Global } from "../global";
+import { Limits } from "../limits";
+import {
+	Manager,
+	type TranscribeOptions,
+	type TranscriptionResult,
+	WorkerUnavailableError,
+} from "../manager";
+import { Log } from "../observability/logger";
+import { Tracing } from "../observability/tracing";
+
+const log = Log.child({ module: "Jobs" });
+
+export enum JobStatus {
+	Queued = "queued",
+	Running = "running",
+	Succeeded = "succeeded",
+	Failed = "failed",
+}
+
+/** Transcription options persisted with a job (everything but per-call tuning) */
+export type JobOptions = Omit<TranscribeOptions, "timeoutMs">;
+
+export interface Job {
+	id: string;
+	status: JobStatus;
+	options: JobOptions;
+	filename: string;
+	audioSize: number;
+	/** Rate limit client charged for the audio, null for older jobs */
+	client: string | null;
+	createdAt: number;
+	startedAt: number | null;
+	completedAt: number | null;
+	result: TranscriptionResult | null;
+	error: string | null;
+}
+
+/**
+ * Asynchronous transcription jobs.
+ * Jobs are persisted as JSON under Global.Path.jobs alongside their audio, so
+ * queued and interrupted jobs are picked up again after a manager restart.
+ */
+export namespace Jobs {
+	const jobs = new Map<string, Job>();
+	const queue: string[] = [];
+	let running = 0;
+	let disposed = false;
+	let retentionInterval: Timer | null = null;
+
+	const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+	function jobPath(id: string): string {
+		return join(Global.Path.jobs, `${id}.json`);
+	}
+
+	function audioPath(id: string): string {
+		return join(Global.Path.jobs, `${id}.audio`);
+	}
+
+	async function persist(job: Job): Promise<void> {
+		// Write-then-rename so a crash never leaves a truncated job file
+		const tmp = `${jobPath(job.id)}.tmp`;
+		await Bun.write(tmp, JSON.stringify(job));
+		await rename(tmp, jobPath(job.id));
+	}
+
+	export async function init(): Promise<void> {
+		disposed = false;
+		const entries = await readdir(Global.Path.jobs);
+		const pending: Job[] = [];
+
+		for (const entry of entries) {
+			if (!entry.endsWith(".json")) {
+				continue;
+			}
+			try {
+				const job = (await Bun.file(
+					join(Global.Path.jobs, entry),
+				).json()) as Job;
+				jobs.set(job.id, job);
+
+				// Jobs interrupted by a shutdown are queued again
+				if (
+					job.status === JobStatus.Queued ||
+					job.status === JobStatus.Running
+				) {
+					job.status = JobStatus.Queued;
+					job.startedAt = null;
+					pending.push(job);
+				}
+			} catch (error) {
+				log.warn({ entry, error }, "Failed to load job, skipping");
+			}
+		}
+
+		pending.sort((a, b) => a.createdAt - b.createdAt);
+		for (const job of pending) {
+			queue.push(job.id);
+		}
+
+		await sweepExpired();
+		retentionInterval = setInterval(sweepExpired, RETENTION_SWEEP_INTERVAL_MS);
+
+		log.info(
+			{ loaded: jobs.size, requeued: pending.length },
+			"Job store initialized",
+		);
+		pump();
+	}
+
+	/**
+	 * Persist the audio and queue a transcription job. Returns immediately.
+	 * @param client - Rate limit client whose quotas the audio is charged to
+	 * @throws AudioFormatError when the audio is not in a supported format
+	 */
+	export async function submit(
+		audio: string | Blob,
+		options: JobOptions = {},
+		client: string | null = null,
+	): Promise<Job> {
+		const id = `job_${Bun.randomUUIDv7()}`;
+		const blob =
+			typeof audio === "string" ? Manager.decodeBase64Audio(audio) : audio;
+		// Reject unsupported audio now rather than when the job runs
+		await Audio.assertSupported(blob);
+
+		await Bun.write(audioPath(id), blob);
+
+		const job: Job = {
+			audioSize: blob.size,
+			client,
+			completedAt: null,
+			createdAt: Date.now(),
+			error: null,
+			filename: (blob instanceof File && blob.name) || "audio.wav",
+			id,
+			options: {
+				...options,
+				metadata: { ...options.metadata, job_id: id },
+			},
+			result: null,
+			startedAt: null,
+			status: JobStatus.Queued,
+		};
+
+		jobs.set(id, job);
+		await persist(job);
+		queue.push(id);
+
+		log.info(
+			{ audioSize: job.audioSize, jobId: id, queueDepth: queue.length },
+			"Job queued",
+		);
+		pump();
+		return job;
+	}
+
+	export function get(id: string): Job | null {
+		return jobs.get(id) ?? null;
+	}
+
+	export function timings(job: Job) {
+		return {
+			processingMs:
+				job.startedAt !== null && job.completedAt !== null
+					? job.completedAt - job.startedAt
+					: null,
+			queuedMs: job.startedAt !== null ? job.startedAt - job.createdAt : null,
+		};
+	}
+
+	function pump(): void {
+		const concurrency = Math.max(1, Config.config.jobs.concurrency);
+		while (!disposed && running < concurrency && queue.length > 0) {
+			const id = queue.shift();
+			const job = id ? jobs.get(id) : undefined;
+			if (!job) {
+				continue;
+			}
+			running++;
+			Tracing.trace("job.execute", () => execute(job), {
+				jobId: job.id,
+			}).finally(() => {
+				running--;
+				pump();
+			});
+		}
+	}
+
+	async function execute(job: Job): Promise<void> {
+		job.status = JobStatus.Running;
+		job.startedAt = Date.now();
+		await persist(job).catch((error) =>
+			log.error({ error, jobId: job.id }, "Failed to persist job"),
+		);
+
+		log.info({ jobId: job.id }, "Job started");
+
+		try {
+			const bytes = await Bun.file(audioPath(job.id)).arrayBuffer();
+			const file = new File([bytes], job.filename);
+
+			job.result = await Manager.transcribe(file, {
+				...job.options,
+				timeoutMs: Config.config.jobs.timeoutMs,
+			});
+			job.status = JobStatus.Succeeded;
+			if (job.client) {
+				Limits.charge(job.client, job.result.duration);
+			}
+		} catch (error) {
+			if (error instanceof WorkerUnavailableError) {
+				if (error.code === "SHUTTING_DOWN") {
+					// Left queued on disk for Jobs.init() after the restart
+					job.status = JobStatus.Queued;
+					job.startedAt = null;
+					await persist(job).catch((error) =>
+						log.error({ error, jobId: job.id }, "Failed to persist job"),
+					);
+					log.info({ jobId: job.id }, "Shutting down, job left queued");
+					return;
+				}
+				// No capacity right now: put the job back instead of failing it
+				requeue(job, error.retryAfterSeconds * 1000);
+				return;
+			}
+			job.error = error instanceof Error ? error.message : "Unknown error";
+			job.status = JobStatus.Failed;
+		}
+
+		job.completedAt = Date.now();
+
+		log.info(
+			{ jobId: job.id, status: job.status, ...timings(job) },
+			"Job finished",
+		);
+
+		try {
+			await persist(job);
+			await rm(audioPath(job.id), { force: true });
+		} catch (error) {
+			log.error({ error, jobId: job.id }, "Failed to persist job");
+		}
+	}
+
+	function requeue(job: Job, delayMs: number): void {
+		job.status = JobStatus.Queued;
+		job.startedAt = null;
+		log.info({ delayMs, jobId: job.id }, "No worker available, requeueing job");
+		persist(job).catch((error) =>
+			log.error({ error, jobId: job.id }, "Failed to persist job"),
+		);
+		setTimeout(() => {
+			queue.unshift(job.id);
+			pump();
+		}, delayMs);
+	}
+
+	async function sweepExpired(): Promise<void> {
+		const cutoff =
+			Date.now() - Config.config.jobs.retentionHours * 60 * 60 * 1000;
+		let removed = 0;
+
+		for (const job of jobs.values()) {
+			if (job.completedAt === null || job.completedAt >= cutoff) {
+				continue;
+			}
+			jobs.delete(job.id);
+			removed++;
+			await Promise.all([
+				rm(jobPath(job.id), { force: true }),
+				rm(audioPath(job.id), { force: true }),
+			]).catch((error) =>
+				log.warn({ error, jobId: job.id }, "Failed to remove expired job"),
+			);
+		}
+
+		if (removed > 0) {
+			log.info({ removed }, "Removed expired jobs");
+		}
+	}
+
+	export function dispose(): void {
+		// Running jobs are left as "running" on disk and requeued on next start
+		disposed = true;
+		if (retentionInterval) {
+			clearInterval(retentionInterval);
+			retentionInterval = null;
+		}
+	}
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import { LimitExceededError, Limits } from ".";
+
+// 2026-03-31T23:59:00Z
+const NOW = Date.UTC(2026, 2, 31, 23, 59);
+
+function rejection(admit: () => unknown): LimitExceededError {
+	try {
+		admit();
+	} catch (error) {
+		expect(error).toBeInstanceOf(LimitExceededError);
+		return error as LimitExceededError;
+	}
+	throw new Error("Expected the request to be refused");
+}
+
+describe("Limits", () => {
+	const defaults = Config.config.limits;
+
+	beforeEach(() => {
+		Config.config.limits = {
+			...defaults,
+			burst: 3,
+			keys: {
+				daily: { dailyAudioSeconds: 60 },
+				monthly: { monthlyAudioSeconds: 90, requestsPerMinute: 0 },
+			},
+			requestsPerMinute: 60,
+		};
+	});
+
+	afterEach(() => {
+		Config.config.limits = defaults;
+	});
+
+	test("identifies clients by key, else by IP address", () => {
+		expect(Limits.clientId("daily", "10.0.0.1")).toBe("key:daily");
+		expect(Limits.clientId(undefined, "10.0.0.1")).toBe("ip:10.0.0.1");
+		expect(Limits.clientId(undefined, undefined)).toBe("ip:unknown");
+	});
+
+	test("admits a burst of requests, then refills at the sustained rate", () => {
+		const client = "ip:burst";
+		expect(Limits.admit(client, NOW)).toEqual({
+			limit: 3,
+			remaining: 2,
+			resetSeconds: 1,
+		});
+		Limits.admit(client, NOW);
+		expect(Limits.admit(client, NOW)).toEqual({
+			limit: 3,
+			remaining: 0,
+			resetSeconds: 3,
+		});
+
+		const error = rejection(() => Limits.admit(client, NOW + 500));
+		expect(error.code).toBe("RATE_LIMITED");
+		expect(error.retryAfterSeconds).toBe(1);
+		expect(error.rateLimit).toEqual({
+			limit: 3,
+			remaining: 0,
+			resetSeconds: 3,
+		});
+
+		// One request per second
+		expect(Limits.admit(client, NOW + 1000)?.remaining).toBe(0);
+		expect(Limits.admit(client, NOW + 10_000)?.remaining).toBe(2);
+	});
+
+	test("does not rate limit without requestsPerMinute", () => {
+		Config.config.limits.requestsPerMinute = 0;
+		for (let i = 0; i < 10; i++) {
+			expect(Limits.admit("ip:unlimited", NOW)).toBeNull();
+		}
+	});
+
+	test("refuses requests once the daily quota is used up", () => {
+		const client = "key:daily";
+		Limits.charge(client, 30, NOW);
+		Limits.admit(client, NOW);
+		// The request that crosses the quota is still charged in full
+		Limits.charge(client, 45, NOW);
+
+		const error = rejection(() => Limits.admit(client, NOW));
+		expect(error.code).toBe("QUOTA_EXCEEDED");
+		expect(error.message).toContain("Daily quota of 60");
+		// Until midnight UTC
+		expect(error.retryAfterSeconds).toBe(60);
+		expect(error.rateLimit).toBeNull();
+		expect(Limits.admit(client, NOW + 60_000)).not.toBeNull();
+	});
+
+	test("refuses requests once the monthly quota is used up", () => {
+		const client = "key:monthly";
+		Limits.charge(client, 50, Date.UTC(2026, 2, 1));
+		Limits.charge(client, 50, Date.UTC(2026, 2, 30));
+
+		const error = rejection(() => Limits.admit(client, NOW));
+		expect(error.code).toBe("QUOTA_EXCEEDED");
+		expect(error.message).toContain("Monthly quota of 90");
+		expect(error.retryAfterSeconds).toBe(60);
+		// A new month starts over
+		expect(() => Limits.admit(client, NOW + 60_000)).not.toThrow();
+	});
+
+	test("ignores charges of no audio", () => {
+		const client = "key:monthly";
+		const later = Date.UTC(2026, 5, 1);
+		Limits.charge(client, 100, later);
+		Limits.charge(client, 0, later);
+		// Would leave a usage of NaN, which is never over the quota
+		Limits.charge(client, Number.NaN, later);
+		expect(() => Limits.admit(client, later)).toThrow(LimitExceededError);
+	});
+});
@@ -0,0 +1,260 @@
+import { rename } from "node:fs/promises";
+import { join } from "node:path";
+import { type ClientLimitsConfig, Config } from "../config";
+import { Global } from "../global";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "Limits" });
+
+/** Rate limit state of a client, sent as X-RateLimit-* headers */
+export interface RateLimitState {
+	/** Bucket size (burst) */
+	limit: number;
+	/** Requests that can be made right now */
+	remaining: number;
+	/** Seconds until the bucket is full again */
+	resetSeconds: number;
+}
+
+/** Audio a client transcribed in the current UTC day and month */
+interface Usage {
+	day: string;
+	daySeconds: number;
+	month: string;
+	monthSeconds: number;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+/**
+ * Per-client rate limits (token buckets refilled at requestsPerMinute) and
+ * daily/monthly quotas of transcribed audio seconds. Clients are API keys,
+ * or IP addresses for requests without one. Usage is saved under
+ * Global.Path.data so quotas survive a restart; buckets are in memory.
+ */
+export namespace Limits {
+	const buckets = new Map<string, Bucket>();
+	let usage = new Map<string, Usage>();
+	let dirty = false;
+	let flushInterval: Timer | null = null;
+
+	const FLUSH_INTERVAL_MS = 10000;
+
+	function usagePath(): string {
+		return join(Global.Path.data, "usage.json");
+	}
+
+	export async function init(): Promise<void> {
+		const file = Bun.file(usagePath());
+		if (await file.exists()) {
+			try {
+				usage = new Map(Object.entries(await file.json()));
+			} catch (error) {
+				log.warn({ error }, "Failed to load quota usage, starting over");
+			}
+		}
+		flushInterval = setInterval(() => {
+			sweep();
+			flush();
+		}, FLUSH_INTERVAL_MS);
+	}
+
+	export async function dispose(): Promise<void> {
+		if (flushInterval) {
+			clearInterval(flushInterval);
+			flushInterval = null;
+		}
+		await flush();
+	}
+
+	async function flush(): Promise<void> {
+		if (!dirty) {
+			return;
+		}
+		dirty = false;
+		// Write-then-rename so a crash never leaves a truncated file
+		const tmp = `${usagePath()}.tmp`;
+		try {
+			await Bun.write(tmp, JSON.stringify(Object.fromEntries(usage)));
+			await rename(tmp, usagePath());
+		} catch (error) {
+			dirty = true;
+			log.error({ error }, "Failed to save quota usage");
+		}
+	}
+
+	/**
+	 * Forget full buckets and usage of past months.
+	 */
+	function sweep(now = Date.now()): void {
+		for (const [client, bucket] of buckets) {
+			if (refill(bucket, limitsFor(client), now) >= limitsFor(client).burst) {
+				buckets.delete(client);
+			}
+		}
+		const { month } = period(now);
+		for (const [client, used] of usage) {
+			if (used.month !== month) {
+				usage.delete(client);
+				dirty = true;
+			}
+		}
+	}
+
+	/**
+	 * Identify a client by its API key name, else by its IP address.
+	 */
+	export function clientId(
+		apiKey: string | undefined,
+		ip: string | undefined,
+	): string {
+		return apiKey ? `key:${apiKey}` : `ip:${ip ?? "unknown"}`;
+	}
+
+	function limitsFor(client: string): ClientLimitsConfig {
+		const { keys, trustProxy: _, ...defaults } = Config.config.limits;
+		const key = client.startsWith("key:") ? client.slice(4) : undefined;
+		return { ...defaults, ...(key ? keys[key] : undefined) };
+	}
+
+	function refill(bucket: Bucket, limits: ClientLimitsConfig, now: number) {
+		const perMs = limits.requestsPerMinute / 60000;
+		return Math.min(
+			limits.burst,
+			bucket.tokens + (now - bucket.updatedAt) * perMs,
+		);
+	}
+
+	/**
+	 * Admit a transcription request: check the client's quotas, then take a
+	 * token from its bucket.
+	 * @returns The client's rate limit state, null when it has no rate limit
+	 * @throws LimitExceededError when the client is over its rate or a quota
+	 */
+	export function admit(
+		client: string,
+		now = Date.now(),
+	): RateLimitState | null {
+		const limits = limitsFor(client);
+		checkQuotas(client, limits, now);
+		if (limits.requestsPerMinute <= 0) {
+			return null;
+		}
+
+		const perSecond = limits.requestsPerMinute / 60;
+		const bucket = buckets.get(client) ?? {
+			tokens: limits.burst,
+			updatedAt: now,
+		};
+		bucket.tokens = refill(bucket, limits, now);
+		bucket.updatedAt = now;
+		buckets.set(client, bucket);
+
+		const state = () => ({
+			limit: limits.burst,
+			remaining: Math.floor(bucket.tokens),
+			resetSeconds: Math.ceil((limits.burst - bucket.tokens) / perSecond),
+		});
+		if (bucket.tokens < 1) {
+			throw new LimitExceededError(
+				"RATE_LIMITED",
+				`Rate limit of ${limits.requestsPerMinute} requests per minute exceeded`,
+				Math.ceil((1 - bucket.tokens) / perSecond),
+				state(),
+			);
+		}
+		bucket.tokens -= 1;
+		return state();
+	}
+
+	function period(now: number): { day: string; month: string } {
+		const iso = new Date(now).toISOString();
+		return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+	}
+
+	/** The client's usage in the current day and month */
+	function current(client: string, now: number): Usage {
+		const { day, month } = period(now);
+		const used = usage.get(client);
+		return {
+			day,
+			daySeconds: used?.day === day ? used.daySeconds : 0,
+			month,
+			monthSeconds: used?.month === month ? used.monthSeconds : 0,
+		};
+	}
+
+	/**
+	 * A request is admitted while some quota is left; the audio it transcribes
+	 * is charged afterwards, so the last request may go over.
+	 */
+	function checkQuotas(
+		client: string,
+		limits: ClientLimitsConfig,
+		now: number,
+	): void {
+		const used = current(client, now);
+		const date = new Date(now);
+		const year = date.getUTCFullYear();
+		const month = date.getUTCMonth();
+
+		if (
+			limits.dailyAudioSeconds > 0 &&
+			used.daySeconds >= limits.dailyAudioSeconds
+		) {
+			const nextDay = Date.UTC(year, month, date.getUTCDate() + 1);
+			throw new LimitExceededError(
+				"QUOTA_EXCEEDED",
+				`Daily quota of ${limits.dailyAudioSeconds} audio seconds used up`,
+				Math.ceil((nextDay - now) / 1000),
+				null,
+			);
+		}
+		if (
+			limits.monthlyAudioSeconds > 0 &&
+			used.monthSeconds >= limits.monthlyAudioSeconds
+		) {
+			const nextMonth = Date.UTC(year, month + 1, 1);
+			throw new LimitExceededError(
+				"QUOTA_EXCEEDED",
+				`Monthly quota of ${limits.monthlyAudioSeconds} audio seconds used up`,
+				Math.ceil((nextMonth - now) / 1000),
+				null,
+			);
+		}
+	}
+
+	/**
+	 * Add transcribed audio to a client's daily and monthly usage.
+	 */
+	export function charge(client: string, seconds: number, now = Date.now()) {
+		if (!(seconds > 0)) {
+			return;
+		}
+		const used = current(client, now);
+		used.daySeconds += seconds;
+		used.monthSeconds += seconds;
+		usage.set(client, used);
+		dirty = true;
+	}
+}
+
+/**
+ * Thrown when a client is over its rate limit or has used up a quota.
+ * Maps to HTTP 429.
+ */
+export class LimitExceededError extends Error {
+	constructor(
+		readonly code: "RATE_LIMITED" | "QUOTA_EXCEEDED",
+		message: string,
+		readonly retryAfterSeconds: number,
+		/** Rate limit state for the response headers, null for quotas */
+		readonly rateLimit: RateLimitState | null,
+	) {
+		super(message);
+		this.name = "LimitExceededError";
+	}
+}
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Config, type PoolDefinition } from "../config";
+import { Autoscaler, type PoolLoad } from "./autoscaler";
+
+const NOW = 1_000_000_000;
+
+function pool(
+	workers: Partial<PoolDefinition["workers"]> = {},
+): PoolDefinition {
+	const [base] = Config.pools();
+	if (!base) {
+		throw new Error("No default pool");
+	}
+	return {
+		...base,
+		name: "scaled",
+		workers: {
+			...base.workers,
+			maxInFlight: 2,
+			maxWorkers: 4,
+			minWorkers: 1,
+			poolSize: 2,
+			scaleDownCooldownMs: 300_000,
+			scaleDownUtilization: 0.3,
+			scaleUpCooldownMs: 30_000,
+			scaleUpQueueDepth: 1,
+			scaleUpUtilization: 0.8,
+			...workers,
+		},
+	};
+}
+
+function load(
+	inFlight: number,
+	queueDepth = 0,
+	workers = 2,
+	startingWorkers = 0,
+): PoolLoad {
+	return { healthyWorkers: workers, inFlight, queueDepth, startingWorkers };
+}
+
+describe("Autoscaler.evaluate", () => {
+	afterEach(() => {
+		Autoscaler.forget("scaled");
+	});
+
+	test("adds enough workers for the queue", () => {
+		expect(Autoscaler.evaluate(pool(), load(4, 3), NOW)).toEqual({
+			action: "up",
+			at: NOW,
+			from: 2,
+			reason: "3 requests queued",
+			to: 4,
+		});
+	});
+
+	test("adds a worker when busy, up to maxWorkers", () => {
+		expect(Autoscaler.evaluate(pool(), load(4), NOW)).toMatchObject({
+			action: "up",
+			reason: "utilization 1.00 >= 0.8",
+			to: 3,
+		});
+		expect(
+			Autoscaler.evaluate(pool({ poolSize: 4 }), load(8, 5, 4), NOW),
+		).toBeNull();
+	});
+
+	test("waits for started workers and the cooldown before scaling up again", () => {
+		// The second worker is still starting
+		expect(Autoscaler.evaluate(pool(), load(2, 1, 1, 1), NOW)).toBeNull();
+
+		const decision = Autoscaler.evaluate(pool(), load(4, 1), NOW);
+		expect(decision).not.toBeNull();
+		if (decision) {
+			Autoscaler.record("scaled", decision);
+		}
+		const grown = pool({ poolSize: 3 });
+		expect(Autoscaler.evaluate(grown, load(6, 1, 3), NOW + 29_999)).toBeNull();
+		expect(
+			Autoscaler.evaluate(grown, load(6, 1, 3), NOW + 30_000),
+		).toMatchObject({ action: "up", from: 3, to: 4 });
+		expect(Autoscaler.history("scaled")).toEqual(decision ? [decision] : []);
+	});
+
+	test("scales up past a port stuck in spawn backoff", () => {
+		// One of three ports failed to spawn and waits out its backoff
+		expect(
+			Autoscaler.evaluate(pool({ poolSize: 3 }), load(4, 2, 2), NOW),
+		).toMatchObject({ action: "up", from: 3, to: 4 });
+	});
+
+	test("removes a worker after a stretch of low load", () => {
+		expect(Autoscaler.evaluate(pool(), load(1), NOW)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(0), NOW + 299_999)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(1), NOW + 300_000)).toEqual({
+			action: "down",
+			at: NOW + 300_000,
+			from: 2,
+			reason: "utilization 0.25 <= 0.3 for 300s",
+			to: 1,
+		});
+	});
+
+	test("starts the low load stretch over when load picks up", () => {
+		expect(Autoscaler.evaluate(pool(), load(0), NOW)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(2), NOW + 100_000)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(0), NOW + 200_000)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(0), NOW + 300_000)).toBeNull();
+		expect(Autoscaler.evaluate(pool(), load(0), NOW + 500_000)).toMatchObject({
+			action: "down",
+		});
+	});
+
+	test("keeps minWorkers", () => {
+		const small = pool({ poolSize: 1 });
+		expect(Autoscaler.evaluate(small, load(0, 0, 1), NOW)).toBeNull();
+		expect(Autoscaler.evaluate(small, load(0, 0, 1), NOW + 600_000)).toBeNull();
+	});
+});
+
+describe("Autoscaler.utilization", () => {
+	test("counts in-flight requests per worker slot", () => {
+		expect(Autoscaler.utilization(pool(), load(1))).toBe(0.25);
+		expect(Autoscaler.utilization(pool({ maxInFlight: 0 }), load(1))).toBe(0.5);
+	});
+
+	test("is full without healthy workers while requests wait", () => {
+		const starting = { ...load(0, 1), healthyWorkers: 0 };
+		expect(Autoscaler.utilization(pool(), starting)).toBe(1);
+		expect(Autoscaler.utilization(pool(), { ...starting, queueDepth: 0 })).toBe(
+			0,
+		);
+	});
+});
@@ -0,0 +1,153 @@
+import type { PoolDefinition } from "../config";
+
+/** Load of a pool at the time of a scaling check */
+export interface PoolLoad {
+	healthyWorkers: number;
+	/** Workers spawned and not yet healthy */
+	startingWorkers: number;
+	inFlight: number;
+	queueDepth: number;
+}
+
+export interface ScaleDecision {
+	action: "up" | "down";
+	from: number;
+	to: number;
+	reason: string;
+	at: number;
+}
+
+/**
+ * Queue-driven autoscaling policy. Decides the target size of autoscaled
+ * pools from their in-flight load and queue depth; the manager applies it.
+ */
+export namespace Autoscaler {
+	interface PoolScaleState {
+		lastScaleAt: number;
+		// Start of the current stretch of low load, null while load is high
+		lowLoadSince: number | null;
+		history: ScaleDecision[];
+	}
+
+	const states = new Map<string, PoolScaleState>();
+
+	const HISTORY_SIZE = 10;
+
+	function stateFor(pool: string): PoolScaleState {
+		let state = states.get(pool);
+		if (!state) {
+			state = { history: [], lastScaleAt: 0, lowLoadSince: null };
+			states.set(pool, state);
+		}
+		return state;
+	}
+
+	/**
+	 * In-flight requests per available worker slot. Workers without an
+	 * in-flight cap count as one slot.
+	 */
+	export function utilization(pool: PoolDefinition, load: PoolLoad): number {
+		const slotsPerWorker = Math.max(1, pool.workers.maxInFlight);
+		const slots = load.healthyWorkers * slotsPerWorker;
+		if (slots === 0) {
+			return load.inFlight > 0 || load.queueDepth > 0 ? 1 : 0;
+		}
+		return load.inFlight / slots;
+	}
+
+	/**
+	 * Decide whether a pool should grow or shrink.
+	 * @returns The decision, or null to keep the current size
+	 */
+	export function evaluate(
+		pool: PoolDefinition,
+		load: PoolLoad,
+		now = Date.now(),
+	): ScaleDecision | null {
+		const {
+			maxInFlight,
+			maxWorkers,
+			minWorkers,
+			poolSize,
+			scaleDownCooldownMs,
+			scaleDownUtilization,
+			scaleUpCooldownMs,
+			scaleUpQueueDepth,
+			scaleUpUtilization,
+		} = pool.workers;
+		const state = stateFor(pool.name);
+		const busy = utilization(pool, load);
+
+		const pressure =
+			load.queueDepth >= Math.max(1, scaleUpQueueDepth) ||
+			busy >= scaleUpUtilization;
+		const idle = load.queueDepth === 0 && busy <= scaleDownUtilization;
+		state.lowLoadSince = idle ? (state.lowLoadSince ?? now) : null;
+
+		// Wait for workers from the last scale-up before adding more. Ports
+		// in spawn backoff have no worker starting, so they do not hold it up.
+		const starting = load.startingWorkers > 0;
+
+		if (
+			pressure &&
+			poolSize < maxWorkers &&
+			!starting &&
+			now - state.lastScaleAt >= scaleUpCooldownMs
+		) {
+			// Enough workers to absorb the queue, at least one
+			const step = Math.max(
+				1,
+				Math.ceil(load.queueDepth / Math.max(1, maxInFlight)),
+			);
+			return {
+				action: "up",
+				at: now,
+				from: poolSize,
+				reason:
+					load.queueDepth > 0
+						? `${load.queueDepth} requests queued`
+						: `utilization ${busy.toFixed(2)} >= ${scaleUpUtilization}`,
+				to: Math.min(maxWorkers, poolSize + step),
+			};
+		}
+
+		if (
+			idle &&
+			poolSize > minWorkers &&
+			state.lowLoadSince !== null &&
+			now - state.lowLoadSince >= scaleDownCooldownMs &&
+			now - state.lastScaleAt >= scaleDownCooldownMs
+		) {
+			return {
+				action: "down",
+				at: now,
+				from: poolSize,
+				reason: `utilization ${busy.toFixed(2)} <= ${scaleDownUtilization} for ${Math.round((now - state.lowLoadSince) / 1000)}s`,
+				to: poolSize - 1,
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Remember an applied decision for cooldowns and status reporting.
+	 */
+	export function record(pool: string, decision: ScaleDecision): void {
+		const state = stateFor(pool);
+		state.lastScaleAt = decision.at;
+		state.history.push(decision);
+		if (state.history.length > HISTORY_SIZE) {
+			state.history.shift();
+		}
+	}
+
+	/** Most recent scale decisions of a pool, oldest first */
+	export function history(pool: string): ScaleDecision[] {
+		return states.get(pool)?.history ?? [];
+	}
+
+	export function forget(pool: string): void {
+		states.delete(pool);
+	}
+}
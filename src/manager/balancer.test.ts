@@ -0,0 +1,72 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import type { Worker } from "../workers";
+import { LoadBalancer } from "./balancer";
+
+function worker(
+	id: string,
+	inFlight: number,
+	recentLatencyMs: number | null = null,
+): Worker {
+	return { id, inFlight, recentLatencyMs } as Worker;
+}
+
+const ids = (workers: (Worker | null)[]) => workers.map((w) => w?.id);
+
+describe("LoadBalancer.pick", () => {
+	test("returns null without candidates", () => {
+		expect(LoadBalancer.pick("round-robin", [])).toBeNull();
+		expect(LoadBalancer.pick("least-latency", [])).toBeNull();
+	});
+
+	test("round-robin cycles through the workers of each pool", () => {
+		const workers = [worker("a", 3), worker("b", 0), worker("c", 1)];
+		const pick = (key: string) =>
+			LoadBalancer.pick("round-robin", workers, key);
+		expect(ids([pick("rr"), pick("rr"), pick("other"), pick("rr")])).toEqual([
+			"a",
+			"b",
+			"a",
+			"c",
+		]);
+		expect(pick("rr")?.id).toBe("a");
+	});
+
+	test("least-in-flight picks the least busy worker, then the fastest", () => {
+		const pick = (workers: Worker[]) =>
+			LoadBalancer.pick("least-in-flight", workers, "lif")?.id;
+		expect(pick([worker("a", 2), worker("b", 0), worker("c", 1)])).toBe("b");
+		expect(pick([worker("a", 1, 900), worker("b", 1, 100)])).toBe("b");
+	});
+
+	test("least-in-flight spreads ties between idle workers", () => {
+		const workers = [worker("a", 0), worker("b", 0), worker("c", 0)];
+		const picks = Array.from(
+			{ length: 3 },
+			() => LoadBalancer.pick("least-in-flight", workers, "ties")?.id,
+		);
+		expect(new Set(picks).size).toBe(3);
+	});
+
+	test("least-latency prefers fresh then fast workers", () => {
+		const pick = (workers: Worker[]) =>
+			LoadBalancer.pick("least-latency", workers)?.id;
+		expect(pick([worker("a", 0, 500), worker("b", 3, 200)])).toBe("b");
+		expect(pick([worker("a", 0, 500), worker("b", 3, null)])).toBe("b");
+		expect(pick([worker("a", 2, 200), worker("b", 1, 200)])).toBe("b");
+	});
+
+	test("power-of-two-choices takes the less busy of two random workers", () => {
+		const workers = [worker("a", 5), worker("b", 0), worker("c", 2)];
+		const random = spyOn(Math, "random");
+		// Draws a, then c: index 1 among the others, shifted past a
+		random.mockReturnValueOnce(0).mockReturnValueOnce(0.9);
+		expect(LoadBalancer.pick("power-of-two-choices", workers)?.id).toBe("c");
+		// Draws b, then c
+		random.mockReturnValueOnce(0.5).mockReturnValueOnce(0.5);
+		expect(LoadBalancer.pick("power-of-two-choices", workers)?.id).toBe("b");
+		expect(
+			LoadBalancer.pick("power-of-two-choices", [worker("only", 9)])?.id,
+		).toBe("only");
+		random.mockRestore();
+	});
+});
@@ -0,0 +1,87 @@
+import type { BalancingStrategy } from "../config";
+import type { Worker } from "../workers";
+
+/**
+ * Worker selection strategies. Callers pass only the workers that can take a
+ * request right now (healthy, accepting, under their in-flight cap).
+ */
+export namespace LoadBalancer {
+	// Round-robin position per pool
+	const rrIndexes = new Map<string, number>();
+
+	function nextIndex(key: string, length: number): number {
+		const idx = (rrIndexes.get(key) ?? 0) % length;
+		rrIndexes.set(key, (idx + 1) % length);
+		return idx;
+	}
+
+	// Workers that have not served a request yet count as fastest, so fresh
+	// replacements get warmed up instead of starved
+	function latencyOf(worker: Worker): number {
+		return worker.recentLatencyMs ?? 0;
+	}
+
+	function byLoad(a: Worker, b: Worker): number {
+		return a.inFlight - b.inFlight || latencyOf(a) - latencyOf(b);
+	}
+
+	function roundRobin(key: string, candidates: Worker[]): Worker | null {
+		return candidates[nextIndex(key, candidates.length)] ?? null;
+	}
+
+	function leastInFlight(key: string, candidates: Worker[]): Worker | null {
+		// Rotate the starting point so ties don't always land on the same worker
+		const start = nextIndex(key, candidates.length);
+		const rotated = [...candidates.slice(start), ...candidates.slice(0, start)];
+		return rotated.sort(byLoad)[0] ?? null;
+	}
+
+	function leastLatency(candidates: Worker[]): Worker | null {
+		return (
+			[...candidates].sort(
+				(a, b) => latencyOf(a) - latencyOf(b) || a.inFlight - b.inFlight,
+			)[0] ?? null
+		);
+	}
+
+	function powerOfTwoChoices(candidates: Worker[]): Worker | null {
+		if (candidates.length < 2) {
+			return candidates[0] ?? null;
+		}
+		const first = Math.floor(Math.random() * candidates.length);
+		let second = Math.floor(Math.random() * (candidates.length - 1));
+		if (second >= first) {
+			second++;
+		}
+		const a = candidates[first];
+		const b = candidates[second];
+		if (!a || !b) {
+			return a ?? b ?? null;
+		}
+		return byLoad(a, b) <= 0 ? a : b;
+	}
+
+	/**
+	 * Pick a worker from the candidates.
+	 * @param key - Identifies the candidate set (pool name) for round-robin state
+	 */
+	export function pick(
+		strategy: BalancingStrategy,
+		candidates: Worker[],
+		key = "",
+	): Worker | null {
+		if (candidates.length === 0) {
+			return null;
+		}
+		switch (strategy) {
+			case "least-in-flight":
+				return leastInFlight(key, candidates);
+			case "least-latency":
+				return leastLatency(candidates);
+			case "power-of-two-choices":
+				return powerOfTwoChoices(candidates);
+			default:
+				return roundRobin(key, candidates);
+		}
+	}
+}
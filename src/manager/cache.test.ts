@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { Config } from "../config";
+import { Global } from "../global";
+import type { TranscriptionResult } from ".";
+import { ResultCache } from "./cache";
+
+function result(text: string): TranscriptionResult {
+	return {
+		confidence: 1,
+		duration: 1,
+		language: "en",
+		metadata: {},
+		provider: "whisper-server",
+		segments: [],
+		text,
+	};
+}
+
+/** A key no other test uses */
+const key = (name: string) =>
+	ResultCache.key(new TextEncoder().encode(name), { test: "cache" });
+
+describe("ResultCache", () => {
+	const { cache } = Config.config;
+
+	afterEach(() => {
+		Config.config.cache = cache;
+	});
+
+	test("keys by audio and options", () => {
+		const audio = new Uint8Array([1, 2, 3]);
+		expect(ResultCache.key(audio, { language: "de" })).toBe(
+			ResultCache.key(new Uint8Array([1, 2, 3]), { language: "de" }),
+		);
+		expect(ResultCache.key(audio, { language: "de" })).not.toBe(
+			ResultCache.key(audio, { language: "en" }),
+		);
+		expect(ResultCache.key(audio, {})).not.toBe(
+			ResultCache.key(new Uint8Array([1, 2, 4]), {}),
+		);
+	});
+
+	test("serves results until they expire", async () => {
+		const stored = key("expiring");
+		await ResultCache.set(stored, result("Hello"));
+		expect(await ResultCache.get(stored)).toEqual(result("Hello"));
+
+		Config.config.cache = { ...cache, ttlHours: 0 };
+		await Bun.sleep(2);
+		expect(await ResultCache.get(stored)).toBeNull();
+		Config.config.cache = cache;
+		expect(await ResultCache.get(stored)).toBeNull();
+	});
+
+	test("evicts the least recently used results past maxSizeMb", async () => {
+		const [a, b, c] = [key("lru-a"), key("lru-b"), key("lru-c")];
+		await ResultCache.set(a, result("a"));
+		await ResultCache.set(b, result("b"));
+		await ResultCache.get(a);
+
+		// Room for about two results
+		const size = JSON.stringify(result("a")).length;
+		Config.config.cache = { ...cache, maxSizeMb: (size * 2.5) / 1024 / 1024 };
+		await ResultCache.set(c, result("c"));
+
+		expect(await ResultCache.get(b)).toBeNull();
+		expect((await ResultCache.get(a))?.text).toBe("a");
+		expect((await ResultCache.get(c))?.text).toBe("c");
+		expect(
+			await Bun.file(join(Global.Path.cache, "results", `${b}.json`)).exists(),
+		).toBe(false);
+	});
+
+	test("drops entries it cannot read", async () => {
+		const broken = key("broken");
+		await ResultCache.set(broken, result("Hello"));
+		const path = join(Global.Path.cache, "results", `${broken}.json`);
+		await Bun.write(path, "{ not json");
+
+		expect(await ResultCache.get(broken)).toBeNull();
+		expect(await Bun.file(path).exists()).toBe(false);
+	});
+});
@@ -0,0 +1,143 @@
+import { mkdir, readdir, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { Config } from "../config";
+import { Global } from "../global";
+import { Log } from "../observability/logger";
+import type { TranscriptionResult } from ".";
+
+const log = Log.child({ module: "ResultCache" });
+
+interface CacheEntry {
+	size: number;
+	createdAt: number;
+}
+
+/**
+ * Transcription results keyed by a hash of the prepared audio and the
+ * options that affect the output, stored as JSON files under
+ * Global.Path.cache (purged when the cache version changes). Entries expire
+ * after cache.ttlHours; past cache.maxSizeMb the least recently used go.
+ */
+export namespace ResultCache {
+	// Entries by key, least recently used first
+	const entries = new Map<string, CacheEntry>();
+	let totalSize = 0;
+
+	const dir = join(Global.Path.cache, "results");
+
+	function entryPath(key: string): string {
+		return join(dir, `${key}.json`);
+	}
+
+	/**
+	 * Index the results kept from previous runs, oldest first (when they
+	 * were last used is not kept across restarts).
+	 */
+	export async function init(): Promise<void> {
+		await mkdir(dir, { recursive: true });
+		const found: [string, CacheEntry][] = [];
+		for (const name of await readdir(dir)) {
+			if (!name.endsWith(".json")) {
+				continue;
+			}
+			const info = await stat(join(dir, name)).catch(() => null);
+			if (info) {
+				found.push([
+					name.slice(0, -".json".length),
+					{ createdAt: info.mtimeMs, size: info.size },
+				]);
+			}
+		}
+		found.sort(([, a], [, b]) => a.createdAt - b.createdAt);
+		for (const [key, entry] of found) {
+			entries.set(key, entry);
+			totalSize += entry.size;
+		}
+		await evict();
+		log.info({ entries: entries.size, totalSize }, "Result cache loaded");
+	}
+
+	/**
+	 * Hash audio together with the options that change its transcription.
+	 */
+	export function key(audio: Uint8Array, options: Record<string, unknown>) {
+		return new Bun.CryptoHasher("sha256")
+			.update(audio)
+			.update(JSON.stringify(options))
+			.digest("hex");
+	}
+
+	/**
+	 * A cached result, null when there is none or it expired.
+	 */
+	export async function get(key: string): Promise<TranscriptionResult | null> {
+		const entry = entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		if (expired(entry)) {
+			await remove(key);
+			return null;
+		}
+		try {
+			const result = await Bun.file(entryPath(key)).json();
+			// Move to the most recently used end
+			entries.delete(key);
+			entries.set(key, entry);
+			return result;
+		} catch (error) {
+			log.warn({ error, key }, "Dropping unreadable cache entry");
+			await remove(key);
+			return null;
+		}
+	}
+
+	export async function set(
+		key: string,
+		result: TranscriptionResult,
+	): Promise<void> {
+		try {
+			const size = await Bun.write(entryPath(key), JSON.stringify(result));
+			totalSize -= entries.get(key)?.size ?? 0;
+			entries.delete(key);
+			entries.set(key, { createdAt: Date.now(), size });
+			totalSize += size;
+			await evict();
+		} catch (error) {
+			log.error({ error, key }, "Failed to cache transcription result");
+		}
+	}
+
+	function expired(entry: CacheEntry, now = Date.now()): boolean {
+		return now - entry.createdAt > Config.config.cache.ttlHours * 3600000;
+	}
+
+	/**
+	 * Drop expired entries, then least recently used ones until the cache
+	 * fits cache.maxSizeMb.
+	 */
+	async function evict(): Promise<void> {
+		const maxSize = Config.config.cache.maxSizeMb * 1024 * 1024;
+		for (const [key, entry] of entries) {
+			if (expired(entry)) {
+				await remove(key);
+			}
+		}
+		for (const key of entries.keys()) {
+			if (totalSize <= maxSize) {
+				break;
+			}
+			await remove(key);
+		}
+	}
+
+	async function remove(key: string): Promise<void> {
+		const entry = entries.get(key);
+		if (!entry) {
+			return;
+		}
+		entries.delete(key);
+		totalSize -= entry.size;
+		await rm(entryPath(key), { force: true });
+	}
+}
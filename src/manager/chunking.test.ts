@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { Audio } from "../audio";
+import type { TranscriptionResult, TranscriptionSegment } from ".";
+import { Chunking } from "./chunking";
+
+const config = {
+	chunkSeconds: 2,
+	enabled: true,
+	minDurationSeconds: 3,
+	overlapSeconds: 0.2,
+	silenceSearchSeconds: 0.5,
+};
+
+/** Constant noise at 16 kHz, silent over the given sample ranges */
+function recording(seconds: number, silent: [number, number][] = []) {
+	const samples = new Float32Array(seconds * Audio.SAMPLE_RATE).fill(0.1);
+	for (const [from, to] of silent) {
+		samples.fill(0, from, to);
+	}
+	return Audio.encodeWav(samples);
+}
+
+function result(
+	text: string,
+	segments: TranscriptionSegment[] = [],
+): TranscriptionResult {
+	return {
+		confidence: 1,
+		duration: 0,
+		language: "en",
+		metadata: {},
+		provider: "whisper-server",
+		segments,
+		text,
+	};
+}
+
+function segment(text: string, start: number, end: number) {
+	return { confidence: null, end, speaker: null, start, text };
+}
+
+describe("Chunking.split", () => {
+	test("cuts at the quietest point before each chunk boundary", async () => {
+		// Silence in the search window before the first cut, at 1.70-1.72 s
+		const chunks = Chunking.split(recording(5, [[27200, 27520]]), config);
+		expect(chunks).not.toBeNull();
+		expect(
+			chunks?.map(({ end, index, keepFrom, keepUntil, start }) => ({
+				end,
+				index,
+				keepFrom,
+				keepUntil,
+				start,
+			})),
+		).toEqual([
+			{ end: 1.81, index: 0, keepFrom: 0, keepUntil: 1.71, start: 0 },
+			// No quiet point: the first frame of the search window wins
+			{ end: 3.32, index: 1, keepFrom: 1.71, keepUntil: 3.22, start: 1.61 },
+			{ end: 5, index: 2, keepFrom: 3.22, keepUntil: 5, start: 3.12 },
+		]);
+
+		const audio = await chunks?.[1]?.audio.bytes();
+		expect(audio && Audio.detectFormat(audio)).toBe("wav");
+		// 1.71 s of 16-bit samples
+		expect(audio && Audio.parseWav(audio).dataLength).toBe(54720);
+	});
+
+	test("leaves short, compressed and other WAV audio whole", () => {
+		expect(Chunking.split(recording(3), config)).toBeNull();
+
+		const mp3 = new Uint8Array(64);
+		mp3.set([0x49, 0x44, 0x33]);
+		expect(Chunking.split(mp3, config)).toBeNull();
+
+		const stereo = recording(5);
+		new DataView(stereo.buffer).setUint16(22, 2, true);
+		expect(Chunking.split(stereo, config)).toBeNull();
+	});
+});
+
+describe("Chunking.merge", () => {
+	const chunks = [
+		{ end: 2.1, keepFrom: 0, keepUntil: 2, start: 0 },
+		{ end: 4, keepFrom: 2, keepUntil: 4, start: 1.9 },
+	].map((chunk, index) => ({ ...chunk, audio: new File([], ""), index }));
+
+	test("shifts segments and keeps them in the chunk they are centred in", () => {
+		const merged = Chunking.merge(chunks, [
+			result("", [segment("one", 0, 1), segment("two", 1.5, 2.1)]),
+			// Centred at 1.95 s, the first chunk's
+			result("", [segment("two", 0, 0.1), segment("three", 0.5, 1.5)]),
+			result("", [segment("ignored", 0, 1)]),
+		]);
+		expect(
+			merged.segments.map(({ end, start, text }) => [text, start, end]),
+		).toEqual([
+			["one", 0, 1],
+			["two", 1.5, 2.1],
+			["three", 2.4, 3.4],
+		]);
+		expect(merged.text).toBe("one two three");
+		expect(merged.duration).toBe(4);
+		expect(merged.confidence).toBe(1);
+	});
+
+	test("removes words transcribed twice in the overlap", () => {
+		const merged = Chunking.merge(chunks, [
+			result("", [segment("we went to the", 0, 2)]),
+			result("", [
+				{
+					...segment("To the shop.", 0.2, 1),
+					words: [
+						{ end: 0.4, probability: null, start: 0.2, text: "To" },
+						{ end: 0.6, probability: null, start: 0.4, text: "the" },
+						{ end: 1, probability: null, start: 0.6, text: "shop." },
+					],
+				},
+			]),
+		]);
+		expect(merged.text).toBe("we went to the shop.");
+		expect(merged.segments[1]?.words).toEqual([
+			{ end: 2.9, probability: null, start: 2.5, text: "shop." },
+		]);
+	});
+
+	test("joins text-only results", () => {
+		const merged = Chunking.merge(chunks, [
+			result("It was a very"),
+			result("a very good day"),
+		]);
+		expect(merged.text).toBe("It was a very good day");
+		expect(merged.segments).toEqual([]);
+		expect(merged.confidence).toBe(0);
+	});
+
+	test("leaves a single repeated word alone", () => {
+		expect(Chunking.dropRepeatedWords("it is", "is it")).toBe("is it");
+		expect(Chunking.dropRepeatedWords("so so", "so")).toBe("so");
+	});
+});
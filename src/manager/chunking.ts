@@ -0,0 +1,228 @@
+import { Audio } from "../audio";
+import type { InferenceServerConfig } from "../config";
+import type { TranscriptionResult, TranscriptionSegment } from ".";
+
+/** A piece of a long recording, transcribed on its own */
+export interface AudioChunk {
+	index: number;
+	audio: File;
+	/** Position of the chunk in the recording, in seconds (overlap included) */
+	start: number;
+	end: number;
+	/**
+	 * The part of the recording this chunk is responsible for. Segments
+	 * centred outside it belong to a neighbouring chunk.
+	 */
+	keepFrom: number;
+	keepUntil: number;
+}
+
+/**
+ * Splits long recordings into overlapping chunks cut at quiet points, and
+ * merges the chunk transcriptions back into one result.
+ */
+export namespace Chunking {
+	// Window used to find the quietest point near a cut (20 ms)
+	const FRAME_SAMPLES = Audio.SAMPLE_RATE / 50;
+	// Longest run of repeated words looked for where two chunks meet
+	const MAX_OVERLAP_WORDS = 30;
+
+	/**
+	 * Middle of the 20 ms frame with the least energy in [from, to).
+	 */
+	function quietestPoint(
+		view: DataView,
+		dataOffset: number,
+		from: number,
+		to: number,
+	): number {
+		let best = to;
+		let bestEnergy = Number.POSITIVE_INFINITY;
+		for (
+			let frame = from;
+			frame + FRAME_SAMPLES <= to;
+			frame += FRAME_SAMPLES
+		) {
+			let energy = 0;
+			for (let i = frame; i < frame + FRAME_SAMPLES; i++) {
+				energy += Math.abs(view.getInt16(dataOffset + i * 2, true));
+			}
+			if (energy < bestEnergy) {
+				bestEnergy = energy;
+				best = frame + FRAME_SAMPLES / 2;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Split a 16 kHz mono PCM WAV into chunks of about chunkSeconds. Each cut
+	 * is moved back to the quietest point within silenceSearchSeconds, and
+	 * chunks extend overlapSeconds / 2 past it on both sides.
+	 * @returns The chunks, or null when the audio is short enough (or not
+	 * PCM WAV) and should be sent whole
+	 */
+	export function split(
+		bytes: Uint8Array,
+		config: InferenceServerConfig["chunking"],
+	): AudioChunk[] | null {
+		if (Audio.detectFormat(bytes) !== "wav") {
+			return null;
+		}
+		const info = Audio.parseWav(bytes);
+		const rate = Audio.SAMPLE_RATE;
+		const total = info.dataLength / 2;
+		if (
+			!Audio.isTargetFormat(info) ||
+			total <= config.minDurationSeconds * rate
+		) {
+			return null;
+		}
+
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+		const length = config.chunkSeconds * rate;
+		const search = Math.round(config.silenceSearchSeconds * rate);
+		const bounds = [0];
+		for (let from = 0; total - from > length; ) {
+			const target = from + length;
+			from = quietestPoint(view, info.dataOffset, target - search, target);
+			bounds.push(from);
+		}
+		bounds.push(total);
+		if (bounds.length <= 2) {
+			return null;
+		}
+
+		const half = Math.round((config.overlapSeconds * rate) / 2);
+		return bounds.slice(0, -1).map((from, index) => {
+			const until = bounds[index + 1] ?? total;
+			const start = Math.max(0, from - half);
+			const end = Math.min(total, until + half);
+			return {
+				audio: new File(
+					[Audio.sliceWav(bytes, info, start, end)],
+					`chunk_${index}.wav`,
+					{ type: "audio/wav" },
+				),
+				end: end / rate,
+				index,
+				keepFrom: from / rate,
+				keepUntil: until / rate,
+				start: start / rate,
+			};
+		});
+	}
+
+	function normalizeWord(word: string): string {
+		return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+	}
+
+	/**
+	 * Remove the words at the start of `next` that repeat the end of
+	 * `previous` (text transcribed twice in the overlap). Runs of a single
+	 * word are left alone, they are as likely to be a real repetition.
+	 */
+	export function dropRepeatedWords(previous: string, next: string): string {
+		const before = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+		const after = next.split(/\s+/).filter(Boolean);
+		const normalized = after.map(normalizeWord);
+		const limit = Math.min(MAX_OVERLAP_WORDS, before.length, after.length);
+
+		for (let size = limit; size >= 2; size--) {
+			const tail = before.slice(before.length - size);
+			if (tail.every((word, i) => word === normalized[i])) {
+				return after.slice(size).join(" ");
+			}
+		}
+		return next;
+	}
+
+	function countWords(text: string): number {
+		return text.split(/\s+/).filter(Boolean).length;
+	}
+
+	function mostCommon(values: string[]): string | undefined {
+		const counts = new Map<string, number>();
+		for (const value of values) {
+			counts.set(value, (counts.get(value) ?? 0) + 1);
+		}
+		let best: string | undefined;
+		for (const [value, count] of counts) {
+			if (best === undefined || count > (counts.get(best) ?? 0)) {
+				best = value;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Merge chunk transcriptions (in chunk order) into one result. Segment and
+	 * word timestamps are shifted to the recording's timeline and each segment
+	 * is kept only by the chunk it is centred in; text without segments is
+	 * joined with the repeated overlap words removed.
+	 */
+	export function merge(
+		chunks: AudioChunk[],
+		results: TranscriptionResult[],
+	): Omit<TranscriptionResult, "metadata"> {
+		const timed = results.some((r) => r.segments.length > 0);
+		const segments: TranscriptionSegment[] = [];
+		let text = "";
+
+		chunks.forEach((chunk, i) => {
+			const result = results[i];
+			if (!result) {
+				return;
+			}
+			if (!timed) {
+				text = text
+					? `${text} ${dropRepeatedWords(text, result.text)}`.trim()
+					: result.text;
+				return;
+			}
+
+			let first = true;
+			for (const segment of result.segments) {
+				const start = segment.start + chunk.start;
+				const end = segment.end + chunk.start;
+				const middle = (start + end) / 2;
+				if (middle < chunk.keepFrom || middle >= chunk.keepUntil) {
+					continue;
+				}
+				const last = segments[segments.length - 1];
+				const segmentText =
+					first && last
+						? dropRepeatedWords(last.text, segment.text)
+						: segment.text;
+				first = false;
+				if (!segmentText) {
+					continue;
+				}
+				const merged = { ...segment, end, start, text: segmentText };
+				if (segment.words) {
+					// Drop the words removed with the repeated text
+					const dropped = countWords(segment.text) - countWords(segmentText);
+					merged.words = segment.words.slice(dropped).map((word) => ({
+						...word,
+						end: word.end + chunk.start,
+						start: word.start + chunk.start,
+					}));
+				}
+				segments.push(merged);
+			}
+		});
+
+		if (timed) {
+			text = segments.map((s) => s.text).join(" ");
+		}
+
+		return {
+			confidence: segments.length > 0 ? 1.0 : 0.0,
+			duration: chunks[chunks.length - 1]?.end ?? 0,
+			language: mostCommon(results.map((r) => r.language)) ?? "en",
+			provider: "whisper-server",
+			segments,
+			text,
+		};
+	}
+}
@@ -0,0 +1,700 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { Audio } from "../audio";
+import { Config } from "../config";
+import { Metrics } from "../observability/metrics";
+import { type Worker, WorkerState } from "../workers";
+import { Manager, WorkerRequestError, WorkerUnavailableError } from ".";
+
+let nextPort = 45000;
+
+/** A worker entry without a process behind it */
+function fakeWorker(overrides: Partial<Worker> = {}): Worker {
+	const port = nextPort++;
+	const worker: Worker = {
+		acceptingRequests: true,
+		baseUrl: `http://127.0.0.1:${port}`,
+		consecutiveFailures: 0,
+		id: `worker_${port}_test`,
+		inFlight: 0,
+		lastHealthyAt: Date.now(),
+		pool: "default",
+		port,
+		process: undefined as unknown as Worker["process"],
+		recentLatencyMs: null,
+		requestCount: 0,
+		startedAt: Date.now(),
+		state: WorkerState.Healthy,
+		...overrides,
+	};
+	Manager.workers.set(worker.id, worker);
+	return worker;
+}
+
+/**
+ * A whisper server stand-in answering /inference with the given handler.
+ */
+function whisperServer(
+	inference: (request: Request) => Response | Promise<Response>,
+): { url: string; stop: () => void } {
+	const server = Bun.serve({
+		fetch: (request) =>
+			new URL(request.url).pathname === "/inference"
+				? inference(request)
+				: new Response("ok"),
+		port: 0,
+	});
+	return {
+		stop: () => server.stop(true),
+		url: `http://127.0.0.1:${server.port}`,
+	};
+}
+
+/** A promise with its resolve function, to hold requests until released */
+function gate(): { wait: Promise<void>; open: () => void } {
+	let open: () => void = () => {};
+	const wait = new Promise<void>((resolve) => {
+		open = resolve;
+	});
+	return { open, wait };
+}
+
+/** Queue status of a pool */
+function queueOf(pool = "default") {
+	const status = Manager.getPoolStatus().pools.find((p) => p.name === pool);
+	if (!status) {
+		throw new Error(`No pool ${pool}`);
+	}
+	return status.queue;
+}
+
+// 16 kHz mono 16-bit PCM: 16 samples of silence
+const WAV =
+	"UklGRkQAAABXQVZFZm10IBAAAAABAAEAgD4AAAB9AAACABAAZGF0YSAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==";
+const audio = () => new File([Buffer.from(WAV, "base64")], "a.wav");
+
+async function rejection(promise: Promise<unknown>) {
+	try {
+		await promise;
+	} catch (error) {
+		expect(error).toBeInstanceOf(WorkerUnavailableError);
+		return error as WorkerUnavailableError;
+	}
+	throw new Error("Expected the request to be refused");
+}
+
+// The fixture audio repeats, so results would come from the result cache
+const { cache } = Config.config;
+
+beforeEach(() => {
+	Config.config.cache = { ...cache, enabled: false };
+});
+
+afterEach(() => {
+	Config.config.cache = cache;
+});
+
+describe("Manager.acquireWorker", () => {
+	const queue = Config.config.queue;
+
+	beforeEach(() => {
+		Config.config.queue = { maxDepth: 1, maxWaitMs: 50 };
+	});
+
+	afterEach(() => {
+		Config.config.queue = queue;
+		Manager.workers.clear();
+	});
+
+	test("hands out a free worker right away", async () => {
+		const worker = fakeWorker();
+		expect(await Manager.acquireWorker()).toBe(worker);
+	});
+
+	test("skips workers that are rotating or unhealthy", async () => {
+		fakeWorker({ acceptingRequests: false });
+		fakeWorker({ state: WorkerState.Unhealthy });
+		const error = await rejection(Manager.acquireWorker());
+		expect(error.code).toBe("QUEUE_TIMEOUT");
+	});
+
+	test("queues requests until the wait times out", async () => {
+		const before = queueOf().timedOut;
+		const waiting = Manager.acquireWorker();
+		expect(queueOf().depth).toBe(1);
+
+		const error = await rejection(waiting);
+		expect(error.code).toBe("QUEUE_TIMEOUT");
+		expect(error.message).toBe("No worker became available within 50ms");
+		expect(queueOf()).toMatchObject({
+			depth: 0,
+			timedOut: before + 1,
+		});
+	});
+
+	test("refuses requests once the queue is full", async () => {
+		const waiting = Manager.acquireWorker();
+		const error = await rejection(Manager.acquireWorker());
+		expect(error.code).toBe("QUEUE_FULL");
+		// Nothing has waited for a worker yet to estimate from
+		expect(error.retryAfterSeconds).toBe(5);
+		await rejection(waiting);
+	});
+});
+
+describe("worker pools", () => {
+	const { defaultPool, pools, queue } = Config.config;
+
+	beforeEach(() => {
+		Config.config.pools = {
+			large: { aliases: ["large-v3"] },
+			small: { aliases: ["whisper-1", "base"] },
+		};
+		Config.config.defaultPool = "large";
+		Config.config.queue = { maxDepth: 1, maxWaitMs: 50 };
+	});
+
+	afterEach(() => {
+		Config.config.defaultPool = defaultPool;
+		Config.config.pools = pools;
+		Config.config.queue = queue;
+		Manager.workers.clear();
+	});
+
+	test("routes by pool, then by model name or alias, else to the default pool", () => {
+		expect(Manager.resolvePool({ model: "large-v3", pool: "small" })).toBe(
+			"small",
+		);
+		expect(Manager.resolvePool({ pool: "medium" })).toBeNull();
+		expect(Manager.resolvePool({ model: "small" })).toBe("small");
+		expect(Manager.resolvePool({ model: "whisper-1" })).toBe("small");
+		expect(Manager.resolvePool({ model: "large-v3" })).toBe("large");
+		expect(Manager.resolvePool({ model: "tiny" })).toBeNull();
+		expect(Manager.resolvePool({})).toBe("large");
+	});
+
+	test("hands out only workers of the requested pool", async () => {
+		const small = fakeWorker({ pool: "small" });
+		expect(await Manager.acquireWorker("small")).toBe(small);
+
+		const error = await rejection(Manager.acquireWorker());
+		expect(error.code).toBe("QUEUE_TIMEOUT");
+		expect(queueOf("large").timedOut).toBeGreaterThan(0);
+		expect(queueOf("small").timedOut).toBe(0);
+	});
+
+	test("refuses unknown pools", async () => {
+		await expect(Manager.acquireWorker("medium")).rejects.toThrow(
+			"Unknown worker pool: medium",
+		);
+	});
+});
+
+describe("Manager.reconcile", () => {
+	const { pools, queue } = Config.config;
+
+	afterEach(() => {
+		Config.config.pools = pools;
+		Config.config.queue = queue;
+		Manager.workers.clear();
+	});
+
+	test("retires workers of removed pools and fails their waiting requests", async () => {
+		const previous = structuredClone(Config.config);
+		previous.pools = {
+			kept: { workers: { poolSize: 0, startingPort: 46000 } },
+			removed: { workers: { poolSize: 0, startingPort: 46100 } },
+		};
+		const next = structuredClone(previous);
+		delete next.pools.removed;
+		Config.config.pools = previous.pools;
+		Config.config.queue = { maxDepth: 10, maxWaitMs: 5000 };
+
+		const worker = fakeWorker({
+			acceptingRequests: false,
+			pool: "removed",
+			process: Bun.spawn(["sleep", "30"]),
+		});
+		const waiting = Manager.acquireWorker("removed");
+
+		Config.config.pools = next.pools;
+		await Manager.reconcile(next, previous);
+		const error = await rejection(waiting);
+		expect(error.code).toBe("POOL_REMOVED");
+		expect(Manager.workers.has(worker.id)).toBe(false);
+		expect(worker.process.exitCode ?? worker.process.signalCode).not.toBeNull();
+	});
+});
+
+describe("Manager.transcribe", () => {
+	const workers = Config.config.workers;
+	const queue = Config.config.queue;
+	let server: ReturnType<typeof whisperServer> | null = null;
+
+	afterEach(() => {
+		Config.config.workers = workers;
+		Config.config.queue = queue;
+		Manager.workers.clear();
+		server?.stop();
+		server = null;
+	});
+
+	test("tracks in-flight requests and hands a freed worker to the oldest waiter", async () => {
+		Config.config.workers = { ...workers, maxInFlight: 1 };
+		Config.config.queue = { maxDepth: 10, maxWaitMs: 5000 };
+		const held = gate();
+		server = whisperServer(async () => {
+			await held.wait;
+			return Response.json({ text: " hello " });
+		});
+		const worker = fakeWorker({ baseUrl: server.url });
+
+		const first = Manager.transcribe(audio());
+		await Bun.sleep(20);
+		expect(worker.inFlight).toBe(1);
+		expect(Manager.getPoolStatus().inFlight).toBe(1);
+
+		// The worker is at its cap, so later requests wait in order
+		const order: string[] = [];
+		const second = Manager.acquireWorker().then(() => order.push("second"));
+		const third = Manager.acquireWorker().then(() => order.push("third"));
+		expect(queueOf().depth).toBe(2);
+
+		held.open();
+		expect((await first).text).toBe("hello");
+		await Promise.all([second, third]);
+		expect(order).toEqual(["second", "third"]);
+		expect(worker.inFlight).toBe(0);
+		expect(worker.requestCount).toBe(1);
+		expect(worker.recentLatencyMs).not.toBeNull();
+		expect(queueOf().depth).toBe(0);
+	});
+
+	test("counts requests by outcome and rejections by reason", async () => {
+		Config.config.queue = { maxDepth: 0, maxWaitMs: 50 };
+		let status = 200;
+		server = whisperServer(() =>
+			status === 200
+				? Response.json({ text: "hi" })
+				: new Response("boom", { status }),
+		);
+		const worker = fakeWorker({ baseUrl: server.url });
+
+		await Manager.transcribe(audio());
+		status = 500;
+		await expect(Manager.transcribe(audio())).rejects.toThrow();
+		worker.state = WorkerState.Unhealthy;
+		await rejection(Manager.transcribe(audio()));
+
+		const text = Metrics.render();
+		for (const outcome of ["success", "error"]) {
+			expect(text).toContain(
+				`inference_requests_total{pool="default",status="${outcome}",worker="${worker.port}"} 1\n`,
+			);
+		}
+		expect(text).toMatch(
+			/inference_requests_rejected_total\{pool="default",reason="queue_full"\} \d+\n/,
+		);
+	});
+});
+
+describe("retries", () => {
+	const workers = Config.config.workers;
+	const servers: ReturnType<typeof whisperServer>[] = [];
+
+	beforeEach(() => {
+		Config.config.workers = { ...workers, maxRetries: 1, retryBackoffMs: 0 };
+	});
+
+	afterEach(() => {
+		Config.config.workers = workers;
+		Manager.workers.clear();
+		for (const server of servers.splice(0)) {
+			server.stop();
+		}
+	});
+
+	/** Workers answering with the given statuses, one response per request */
+	function workersAnswering(statuses: number[]): {
+		hits: () => number;
+		workers: Worker[];
+	} {
+		let hits = 0;
+		const handler = () => {
+			const status = statuses[hits++] ?? 200;
+			return status === 200
+				? Response.json({ text: "hi" })
+				: new Response("failed", { status });
+		};
+		const pair = [whisperServer(handler), whisperServer(handler)];
+		servers.push(...pair);
+		return {
+			hits: () => hits,
+			workers: pair.map((server) => fakeWorker({ baseUrl: server.url })),
+		};
+	}
+
+	test("sends a failed request to another worker and records the attempts", async () => {
+		const { hits, workers } = workersAnswering([500]);
+
+		const result = await Manager.transcribe(audio());
+		expect(result.text).toBe("hi");
+		expect(result.metadata.attempts).toBe("2");
+		const [failure, ...rest] = JSON.parse(
+			result.metadata.attempt_history ?? "[]",
+		);
+		expect(rest).toEqual([]);
+		expect(failure).toMatchObject({
+			error: "HTTP 500: failed",
+			status: 500,
+		});
+		expect(hits()).toBe(2);
+		// Each worker got one attempt
+		expect(workers.map((w) => w.requestCount)).toEqual([1, 1]);
+		const failed = workers.find((w) => w.id === failure.worker_id);
+		expect(failed?.consecutiveFailures).toBe(1);
+	});
+
+	test("gives up after maxRetries", async () => {
+		const { hits } = workersAnswering([502, 503, 200]);
+
+		await expect(Manager.transcribe(audio())).rejects.toThrow(
+			"HTTP 503: failed",
+		);
+		expect(hits()).toBe(2);
+	});
+
+	test("does not retry audio the worker refused", async () => {
+		const { hits } = workersAnswering([400]);
+
+		const error = await Manager.transcribe(audio()).catch((e) => e);
+		expect(error).toBeInstanceOf(WorkerRequestError);
+		expect(error).toMatchObject({ retryable: false, status: 400 });
+		expect(hits()).toBe(1);
+	});
+});
+
+describe("draining", () => {
+	const { defaultPool, pools } = Config.config;
+
+	afterEach(() => {
+		Config.config.defaultPool = defaultPool;
+		Config.config.pools = pools;
+		Manager.workers.clear();
+	});
+
+	/** A busy worker of the pool "drained", backed by a real process */
+	function busyWorker(drainTimeoutMs: number): Worker {
+		Config.config.pools = {
+			drained: {
+				workers: { drainTimeoutMs, poolSize: 1, startingPort: 46200 },
+			},
+		};
+		Config.config.defaultPool = "drained";
+		return fakeWorker({
+			inFlight: 1,
+			pool: "drained",
+			port: 46200,
+			process: Bun.spawn(["sleep", "30"]),
+		});
+	}
+
+	test("retired workers finish their in-flight requests before they stop", async () => {
+		const worker = busyWorker(10_000);
+
+		const resized = Manager.resizePool("drained", 0);
+		await Bun.sleep(50);
+		expect(worker.state).toBe(WorkerState.Draining);
+		expect(worker.process.exitCode).toBeNull();
+		expect(Manager.getPoolStatus().draining.map((w) => w.id)).toEqual([
+			worker.id,
+		]);
+		// Still reachable for the admin API while draining
+		expect(Manager.findWorker("46200")).toBe(worker);
+
+		worker.inFlight = 0;
+		await resized;
+		expect(worker.state).toBe(WorkerState.Stopped);
+		expect(worker.process.signalCode).toBe("SIGTERM");
+		expect(Manager.getPoolStatus().draining).toEqual([]);
+	});
+
+	test("stops the worker anyway after drainTimeoutMs", async () => {
+		const worker = busyWorker(100);
+
+		const startedAt = Date.now();
+		await Manager.resizePool("drained", 0);
+		expect(Date.now() - startedAt).toBeLessThan(2000);
+		expect(worker.inFlight).toBe(1);
+		expect(worker.state).toBe(WorkerState.Stopped);
+	});
+
+	test("shutting down refuses new requests and waits for in-flight ones", async () => {
+		// Shutting down is for good, so it runs in a process of its own
+		const script = `
+			import { Manager } from ${JSON.stringify(join(import.meta.dir, "index.ts"))};
+			const worker = {
+				acceptingRequests: true, baseUrl: "http://127.0.0.1:46300",
+				consecutiveFailures: 0, id: "worker_46300", inFlight: 1,
+				lastHealthyAt: Date.now(), pool: "default", port: 46300,
+				process: Bun.spawn(["sleep", "30"]), recentLatencyMs: null,
+				requestCount: 1, startedAt: Date.now(), state: "healthy",
+			};
+			Manager.workers.set(worker.id, worker);
+			const disposed = Manager.dispose();
+			const refused = await Manager.acquireWorker().catch((error) => error.code);
+			await Bun.sleep(300);
+			const waited = worker.process.exitCode === null;
+			worker.inFlight = 0;
+			await disposed;
+			console.log("RESULT", JSON.stringify({
+				refused, signal: worker.process.signalCode, state: worker.state, waited,
+			}));
+			process.exit(0);
+		`;
+		const child = Bun.spawn([process.execPath, "-e", script], {
+			stderr: "ignore",
+			stdout: "pipe",
+		});
+		const output = await new Response(child.stdout).text();
+		const line = output.split("\n").find((l) => l.startsWith("RESULT "));
+		expect(JSON.parse(line?.slice("RESULT ".length) ?? "null")).toEqual({
+			refused: "SHUTTING_DOWN",
+			signal: "SIGTERM",
+			state: WorkerState.Stopped,
+			waited: true,
+		});
+	});
+});
+
+describe("chunked transcription", () => {
+	const chunking = Config.config.chunking;
+	const servers: ReturnType<typeof whisperServer>[] = [];
+
+	afterEach(() => {
+		Config.config.chunking = chunking;
+		Manager.workers.clear();
+		for (const server of servers.splice(0)) {
+			server.stop();
+		}
+	});
+
+	test("splits long recordings across the pool's workers and merges the text", async () => {
+		Config.config.chunking = {
+			chunkSeconds: 2,
+			enabled: true,
+			minDurationSeconds: 3,
+			overlapSeconds: 0.2,
+			silenceSearchSeconds: 0.5,
+		};
+		let requests = 0;
+		const answer = () => Response.json({ text: ` part ${++requests}` });
+		servers.push(whisperServer(answer), whisperServer(answer));
+		const workers = servers.map((server) =>
+			fakeWorker({ baseUrl: server.url }),
+		);
+		const samples = new Float32Array(5 * Audio.SAMPLE_RATE).fill(0.1);
+
+		const result = await Manager.transcribe(
+			new File([Audio.encodeWav(samples)], "long.wav"),
+		);
+		const chunks = Number(result.metadata.chunks);
+		expect(chunks).toBeGreaterThan(1);
+		expect(requests).toBe(chunks);
+		expect(result.text.split(" ").filter((w) => w === "part")).toHaveLength(
+			chunks,
+		);
+		expect(JSON.parse(result.metadata.worker_ids ?? "[]").sort()).toEqual(
+			workers.map((w) => w.id).sort(),
+		);
+
+		// Requests opting out go to one worker in one piece
+		requests = 0;
+		const whole = await Manager.transcribe(
+			new File([Audio.encodeWav(samples)], "long.wav"),
+			{ chunked: false },
+		);
+		expect(whole.metadata.chunks).toBeUndefined();
+		expect(requests).toBe(1);
+	});
+});
+
+describe("worker responses", () => {
+	let server: ReturnType<typeof whisperServer> | null = null;
+	let sent: Awaited<ReturnType<Request["formData"]>> | null = null;
+
+	afterEach(() => {
+		Manager.workers.clear();
+		server?.stop();
+		server = null;
+		sent = null;
+	});
+
+	/** A worker answering every request with `body`, keeping the last form */
+	function answering(body: object): void {
+		server = whisperServer(async (request) => {
+			sent = await request.formData();
+			return Response.json(body);
+		});
+		fakeWorker({ baseUrl: server.url });
+	}
+
+	test("reads segments and asks for verbose output by default", async () => {
+		answering({
+			duration: 2,
+			language: "de",
+			segments: [
+				{ end: 1, start: 0, text: " Hallo " },
+				{ end: 2, start: 1, text: "Welt" },
+			],
+			text: " Hallo Welt ",
+		});
+
+		const result = await Manager.transcribe(audio(), { language: "auto" });
+		expect(sent?.get("response_format")).toBe("verbose_json");
+		expect(sent?.get("language")).toBe("auto");
+		expect(result).toMatchObject({
+			confidence: 1,
+			duration: 2,
+			language: "de",
+			text: "Hallo Welt",
+		});
+		expect(result.segments).toEqual([
+			{ confidence: null, end: 1, speaker: null, start: 0, text: "Hallo" },
+			{ confidence: null, end: 2, speaker: null, start: 1, text: "Welt" },
+		]);
+	});
+
+	test("asks for plain output without timestamps", async () => {
+		answering({ text: "Hallo Welt" });
+
+		const result = await Manager.transcribe(audio(), { timestamps: false });
+		expect(sent?.get("response_format")).toBe("json");
+		expect(result.segments).toEqual([]);
+		expect(result.text).toBe("Hallo Welt");
+	});
+
+	test("reads whisper.cpp word timings within their segments", async () => {
+		answering({
+			segments: [
+				{
+					end: 1,
+					start: 0,
+					text: "Hallo Welt",
+					words: [
+						{ end: 0.5, probability: 0.9, start: 0, word: " Hallo" },
+						{ end: 1, start: 0.5, word: " Welt" },
+						{ end: 1, start: 1, word: " " },
+					],
+				},
+			],
+			text: "Hallo Welt",
+		});
+
+		const result = await Manager.transcribe(audio(), { granularity: "word" });
+		expect(sent?.getAll("timestamp_granularities[]")).toEqual([
+			"word",
+			"segment",
+		]);
+		expect(result.segments[0]?.words).toEqual([
+			{ end: 0.5, probability: 0.9, start: 0, text: "Hallo" },
+			{ end: 1, probability: null, start: 0.5, text: "Welt" },
+		]);
+	});
+
+	test("keeps the segments carrying word timings without timestamps", async () => {
+		answering({
+			segments: [{ end: 1, start: 0, text: "Hallo" }],
+			text: "Hallo",
+			words: [null, 3, { end: 0.8, start: 0.1, text: "Hallo" }, { word: 7 }],
+		});
+
+		const result = await Manager.transcribe(audio(), {
+			granularity: "word",
+			timestamps: false,
+		});
+		expect(sent?.get("response_format")).toBe("verbose_json");
+		expect(result.segments).toEqual([
+			{
+				confidence: null,
+				end: 1,
+				speaker: null,
+				start: 0,
+				text: "Hallo",
+				words: [{ end: 0.8, probability: null, start: 0.1, text: "Hallo" }],
+			},
+		]);
+	});
+
+	test("assigns OpenAI-style top-level words to their segments", async () => {
+		answering({
+			segments: [
+				{ end: 1, start: 0, text: "Hallo" },
+				{ end: 2, start: 1, text: "Welt" },
+			],
+			text: "Hallo Welt",
+			words: [
+				{ end: 0.8, start: 0.1, word: "Hallo" },
+				{ end: 1.7, start: 1.2, word: "Welt" },
+			],
+		});
+
+		const result = await Manager.transcribe(audio(), { granularity: "word" });
+		expect(result.segments.map((s) => s.words?.map((w) => w.text))).toEqual([
+			["Hallo"],
+			["Welt"],
+		]);
+	});
+});
+
+describe("result cache", () => {
+	let server: ReturnType<typeof whisperServer> | null = null;
+
+	beforeEach(() => {
+		Config.config.cache = { ...cache, enabled: true };
+	});
+
+	afterEach(() => {
+		Manager.workers.clear();
+		server?.stop();
+		server = null;
+	});
+
+	test("serves repeated audio without asking a worker again", async () => {
+		let requests = 0;
+		server = whisperServer(() => {
+			requests++;
+			return Response.json({ text: `Hallo ${requests}` });
+		});
+		fakeWorker({ baseUrl: server.url });
+		// Options no other test uses, so the first request is a miss
+		const options = { language: "cache-test", timestamps: false };
+
+		const first = await Manager.transcribe(audio(), {
+			...options,
+			metadata: { client: "a" },
+		});
+		expect(first.text).toBe("Hallo 1");
+		expect(first.metadata).toMatchObject({ cache_hit: "false", client: "a" });
+
+		const repeated = await Manager.transcribe(audio(), {
+			...options,
+			metadata: { source: "b" },
+		});
+		expect(repeated.text).toBe("Hallo 1");
+		expect(repeated.metadata).toMatchObject({ cache_hit: "true", source: "b" });
+		// The first caller's metadata is not handed to others
+		expect(repeated.metadata.client).toBeUndefined();
+		expect(requests).toBe(1);
+
+		await Manager.transcribe(audio(), { ...options, translate: true });
+		expect(requests).toBe(2);
+
+		const bypassed = await Manager.transcribe(audio(), {
+			...options,
+			cache: "bypass",
+		});
+		expect(bypassed.text).toBe("Hallo 3");
+		expect((await Manager.transcribe(audio(), options)).text).toBe("Hallo 3");
+	});
+});
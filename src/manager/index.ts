@@ -1,19 +1,44 @@
-import { Config } from "../config";
+import { Audio } from "../audio";
+import { AudioStore } from "../audio/store";
+import {
+	Config,
+	type InferenceServerConfig,
+	type PoolDefinition,
+} from "../config";
+import { History } from "../history";
 import { Log } from "../observability/logger";
-import { type Worker, WorkerState, Workers } from "../workers";
+import { Metrics } from "../observability/metrics";
+import { Tracing } from "../observability/tracing";
+import { Webhooks } from "../webhooks";
+import {
+	type SpawnOptions,
+	type Worker,
+	WorkerState,
+	Workers,
+} from "../workers";
+import { Autoscaler } from "./autoscaler";
+import { LoadBalancer } from "./balancer";
+import { ResultCache } from "./cache";
+import { type AudioChunk, Chunking } from "./chunking";
+import { ManagerMetrics } from "./metrics";
 
 const log = Log.child({ module: "Manager" });
 
 export namespace Manager {
+	// Workers of every pool, tagged with their pool name
 	export const workers = new Map<string, Worker>();
-	let rrIndex = 0;
+	// Retired workers finishing their in-flight requests; they keep their port
+	const draining = new Map<string, Worker>();
+	let shuttingDown = false;
 	let healthCheckInterval: Timer | null = null;
 	let auditCheckInterval: Timer | null = null;
+	let autoscaleInterval: Timer | null = null;
 
 	const HEALTH_INTERVAL_MS = 5000;
 	const HEALTH_TIMEOUT_MS = 2000;
 	const HEALTH_MAX_FAILURES = 3;
 	const AUDIT_INTERVAL_MS = 30000;
+	const AUTOSCALE_INTERVAL_MS = 5000;
 	const STARTUP_TIMEOUT_MS = 30000;
 
 	// Track failed spawn attempts per port for exponential backoff
@@ -24,41 +49,274 @@ export namespace Manager {
 	const MAX_SPAWN_FAILURES = 5;
 	const BASE_BACKOFF_MS = 5000;
 
+	// Requests waiting for a worker of a pool to become available (FIFO)
+	interface Waiter {
+		enqueuedAt: number;
+		resolve: (worker: Worker) => void;
+		reject: (error: Error) => void;
+		timer: Timer;
+	}
+	interface PoolQueue {
+		waiters: Waiter[];
+		stats: {
+			lastWaitMs: number;
+			rejected: number;
+			timedOut: number;
+			totalQueued: number;
+			totalWaitMs: number;
+			waited: number;
+		};
+	}
+	const queues = new Map<string, PoolQueue>();
+	const DEFAULT_RETRY_AFTER_S = 5;
+
+	// Weight of the newest sample in a worker's smoothed latency
+	const LATENCY_SMOOTHING = 0.3;
+
+	// Runtime pool sizes set through the admin API or the autoscaler
+	const sizeOverrides = new Map<string, number>();
+	// Pools with a resize in progress
+	const resizing = new Set<string>();
+	// Pools not accepting new requests
+	const pausedPools = new Set<string>();
+
 	export async function init() {
-		const config = Config.config;
+		const problems = await Config.validate(Config.config);
+		if (problems.length > 0) {
+			throw new Error(`Invalid configuration: ${problems.join("; ")}`);
+		}
+
+		await ResultCache.init();
 
-		if (config.whisperServer.cmd === "") {
-			throw new Error(
-				"WHISPER_SERVER_CMD not configured. Set whisperServer.cmd in config.",
+		const pools = activePools();
+		for (const pool of pools) {
+			log.info(
+				{
+					model: pool.whisperServer.model,
+					pool: pool.name,
+					poolSize: pool.workers.poolSize,
+					rotateThreshold: pool.workers.rotateThreshold,
+					startingPort: pool.workers.startingPort,
+					threads: pool.whisperServer.threads,
+				},
+				"Initializing worker pool",
 			);
+
+			// Spawn initial worker pool
+			await spawnMissingWorkers(pool);
+		}
+
+		// Start health monitoring
+		healthCheckInterval = setInterval(healthSweep, HEALTH_INTERVAL_MS);
+		auditCheckInterval = setInterval(auditSweep, AUDIT_INTERVAL_MS);
+		autoscaleInterval = setInterval(autoscaleSweep, AUTOSCALE_INTERVAL_MS);
+
+		Config.onReload(reconcile);
+		Metrics.onCollect(collectMetrics);
+
+		log.info(
+			{ pools: pools.length, workerCount: workers.size },
+			"Worker pool initialized",
+		);
+	}
+
+	/**
+	 * Bring the running workers in line with a reloaded config: retire workers
+	 * of removed pools or outside their pool's port range, roll workers whose
+	 * spawn parameters changed, and spawn workers for missing ports. Settings
+	 * such as rotateThreshold or strategy are read per request and need no action.
+	 */
+	export async function reconcile(
+		next: InferenceServerConfig,
+		previous: InferenceServerConfig,
+	): Promise<void> {
+		// The file's poolSize wins over sizes set at runtime, except for
+		// autoscaled pools which keep their current size within the new bounds
+		const nextPools = Config.pools(next);
+		for (const name of Array.from(sizeOverrides.keys())) {
+			const pool = nextPools.find((p) => p.name === name);
+			if (!pool || !Config.isAutoscaled(pool)) {
+				sizeOverrides.delete(name);
+			}
+			if (!pool) {
+				Autoscaler.forget(name);
+			}
+		}
+		const resolvedPools = nextPools.map(withRuntimeSize);
+		const previousPools = new Map(
+			Config.pools(previous).map((p) => [p.name, p]),
+		);
+
+		// Retire first so ports given up by one pool can be reused by another
+		const retired: Promise<unknown>[] = [];
+		for (const worker of Array.from(workers.values())) {
+			const pool = resolvedPools.find((p) => p.name === worker.pool);
+			if (!pool) {
+				retired.push(retireWorker(worker, "Pool removed from config"));
+				continue;
+			}
+			const { poolSize, startingPort } = pool.workers;
+			if (
+				worker.port < startingPort ||
+				worker.port >= startingPort + poolSize
+			) {
+				retired.push(retireWorker(worker, "Port outside pool range"));
+			}
 		}
+		await Promise.all(retired);
 
+		// Requests waiting on removed pools can never be served
+		for (const [name, queue] of queues) {
+			if (resolvedPools.some((p) => p.name === name)) {
+				continue;
+			}
+			for (const waiter of queue.waiters.splice(0)) {
+				clearTimeout(waiter.timer);
+				waiter.reject(
+					new WorkerUnavailableError(
+						"POOL_REMOVED",
+						`Worker pool "${name}" was removed`,
+						DEFAULT_RETRY_AFTER_S,
+					),
+				);
+			}
+			queues.delete(name);
+		}
+
+		for (const pool of resolvedPools) {
+			const before = previousPools.get(pool.name);
+			if (
+				before &&
+				JSON.stringify(spawnOptions(before)) !==
+					JSON.stringify(spawnOptions(pool))
+			) {
+				log.info(
+					{ pool: pool.name },
+					"Worker spawn parameters changed, rolling workers",
+				);
+				// One at a time so the rest of the pool keeps serving
+				for (const worker of poolWorkers(pool.name)) {
+					await replaceWorker(worker, "config");
+				}
+			}
+
+			await spawnMissingWorkers(pool);
+			drainQueue(pool.name);
+		}
+
+		log.info(
+			{ pools: resolvedPools.length, workerCount: workers.size },
+			"Worker pool reconciled with new config",
+		);
+	}
+
+	/**
+	 * Take a worker out of service for good (no replacement is spawned).
+	 * Waits for its in-flight requests (up to the pool's drainTimeoutMs) unless
+	 * `drain` is false. Resolves once the process has exited and its port is free.
+	 */
+	async function retireWorker(
+		worker: Worker,
+		reason: string,
+		drain = true,
+	): Promise<void> {
 		log.info(
 			{
-				poolSize: config.workers.poolSize,
-				rotateThreshold: config.workers.rotateThreshold,
-				startingPort: config.workers.startingPort,
+				inFlight: worker.inFlight,
+				pool: worker.pool,
+				port: worker.port,
+				reason,
+				workerId: worker.id,
 			},
-			"Initializing worker pool",
+			"Retiring worker",
 		);
+		workers.delete(worker.id);
+		draining.set(worker.id, worker);
+		worker.state = WorkerState.Draining;
+		try {
+			if (drain) {
+				const timeoutMs =
+					getPool(worker.pool)?.workers.drainTimeoutMs ??
+					Config.config.workers.drainTimeoutMs;
+				await Workers.drain(worker, timeoutMs);
+			}
+			await Workers.terminate(worker, true);
+		} finally {
+			draining.delete(worker.id);
+		}
+	}
 
-		// Spawn initial worker pool
-		const poolSize = config.workers.poolSize;
-		const startPort = config.workers.startingPort;
-
-		for (let i = 0; i < poolSize; i++) {
-			const port = startPort + i;
-			await spawnWorker(port);
+	/**
+	 * Apply the runtime size of a pool: an admin or autoscaler override, clamped
+	 * to minWorkers..maxWorkers for autoscaled pools.
+	 */
+	function withRuntimeSize(pool: PoolDefinition): PoolDefinition {
+		const { maxWorkers, minWorkers } = pool.workers;
+		let poolSize = sizeOverrides.get(pool.name) ?? pool.workers.poolSize;
+		if (Config.isAutoscaled(pool)) {
+			poolSize = Math.min(maxWorkers, Math.max(minWorkers, poolSize));
 		}
+		return poolSize === pool.workers.poolSize
+			? pool
+			: { ...pool, workers: { ...pool.workers, poolSize } };
+	}
 
-		// Start health monitoring
-		healthCheckInterval = setInterval(healthSweep, HEALTH_INTERVAL_MS);
-		auditCheckInterval = setInterval(auditSweep, AUDIT_INTERVAL_MS);
+	/**
+	 * The configured pools at their current runtime size.
+	 */
+	function activePools(): PoolDefinition[] {
+		return Config.pools().map(withRuntimeSize);
+	}
+
+	function getPool(name: string): PoolDefinition | undefined {
+		return activePools().find((p) => p.name === name);
+	}
+
+	/**
+	 * Resolve which pool should serve a request.
+	 * An explicit pool wins; otherwise the model is matched against pool names
+	 * and aliases; with neither the default pool is used.
+	 * @returns The pool name, or null when nothing matches
+	 */
+	export function resolvePool(selector: {
+		pool?: string;
+		model?: string;
+	}): string | null {
+		const pools = Config.pools();
+		if (selector.pool) {
+			return pools.some((p) => p.name === selector.pool) ? selector.pool : null;
+		}
+		if (selector.model) {
+			const match = pools.find(
+				(p) =>
+					p.name === selector.model ||
+					p.aliases.includes(selector.model as string),
+			);
+			return match?.name ?? null;
+		}
+		return Config.defaultPoolName();
+	}
 
-		log.info({ workerCount: workers.size }, "Worker pool initialized");
+	function spawnOptions(pool: PoolDefinition): SpawnOptions {
+		const { whisperServer } = pool;
+		return {
+			cmd: whisperServer.cmd,
+			cwd: whisperServer.cwd || process.cwd(),
+			env: whisperServer.env,
+			extraArgs: whisperServer.extraArgs,
+			model: whisperServer.model,
+			threads: whisperServer.threads,
+		};
 	}
 
-	async function spawnWorker(port: number): Promise<void> {
+	/**
+	 * Spawn a worker on a port and wait for it to become healthy.
+	 * @returns The worker, or null when it was not started or never became healthy
+	 */
+	async function spawnWorker(
+		pool: PoolDefinition,
+		port: number,
+	): Promise<Worker | null> {
 		// Check if we should back off spawning this port
 		const failureInfo = spawnFailures.get(port);
 		if (failureInfo && failureInfo.count >= MAX_SPAWN_FAILURES) {
@@ -71,19 +329,19 @@ export namespace Manager {
 					{
 						backoffMs,
 						failureCount: failureInfo.count,
+						pool: pool.name,
 						port,
 						remainingMs: backoffMs - timeSinceLastAttempt,
 					},
 					"Skipping worker spawn due to backoff",
 				);
-				return;
+				return null;
 			}
 		}
 
-		const config = Config.config;
 		try {
 			log.info(
-				{ failureCount: failureInfo?.count || 0, port },
+				{ failureCount: failureInfo?.count || 0, pool: pool.name, port },
 				"Attempting to spawn worker",
 			);
 
@@ -93,25 +351,25 @@ export namespace Manager {
 				lastAttempt: Date.now(),
 			});
 
-			const cwd = config.whisperServer.cwd || process.cwd();
-			const worker = Workers.spawn(
-				port,
-				config.whisperServer.cmd,
-				cwd,
-				"", // model - from config if needed
-				2, // threads - from config if needed
-				"", // extraArgs - from config if needed
-			);
+			const options = spawnOptions(pool);
+			await Workers.validateSpawnOptions(options);
+			const worker = Workers.spawn(port, options, pool.name);
 
 			workers.set(worker.id, worker);
 			log.info(
-				{ port, totalWorkers: workers.size, workerId: worker.id },
+				{
+					pool: pool.name,
+					port,
+					totalWorkers: workers.size,
+					workerId: worker.id,
+				},
 				"Worker spawned, waiting for health check",
 			);
 
 			// Wait for worker to become healthy
 			const healthy = await waitForHealthy(worker, STARTUP_TIMEOUT_MS);
 			if (!healthy) {
+				ManagerMetrics.spawnFailures.inc({ pool: pool.name });
 				// Increment failure count
 				const currentFailure = spawnFailures.get(port);
 				spawnFailures.set(port, {
@@ -122,6 +380,7 @@ export namespace Manager {
 				log.error(
 					{
 						failureCount: spawnFailures.get(port)?.count,
+						pool: pool.name,
 						port,
 						timeoutMs: STARTUP_TIMEOUT_MS,
 						workerId: worker.id,
@@ -132,29 +391,35 @@ export namespace Manager {
 				// Clean up failed worker
 				workers.delete(worker.id);
 				try {
-					Workers.terminate(worker, false);
+					await Workers.terminate(worker, false);
 				} catch (terminateError) {
 					log.error(
 						{ error: terminateError, workerId: worker.id },
 						"Error terminating failed worker",
 					);
 				}
-			} else {
-				// Reset failure count on success
-				spawnFailures.delete(port);
-
-				log.info(
-					{
-						healthyWorkers: Array.from(workers.values()).filter(
-							(w) => w.state === WorkerState.Healthy,
-						).length,
-						port,
-						workerId: worker.id,
-					},
-					"Worker successfully started and healthy",
-				);
+				return null;
 			}
+
+			// Reset failure count on success
+			spawnFailures.delete(port);
+			ManagerMetrics.spawns.inc({ pool: pool.name });
+			drainQueue(pool.name);
+
+			log.info(
+				{
+					healthyWorkers: poolWorkers(pool.name).filter(
+						(w) => w.state === WorkerState.Healthy,
+					).length,
+					pool: pool.name,
+					port,
+					workerId: worker.id,
+				},
+				"Worker successfully started and healthy",
+			);
+			return worker;
 		} catch (error) {
+			ManagerMetrics.spawnFailures.inc({ pool: pool.name });
 			// Increment failure count
 			const currentFailure = spawnFailures.get(port);
 			spawnFailures.set(port, {
@@ -169,10 +434,12 @@ export namespace Manager {
 						error instanceof Error ? error.message : "Unknown error",
 					errorStack: error instanceof Error ? error.stack : undefined,
 					failureCount: spawnFailures.get(port)?.count,
+					pool: pool.name,
 					port,
 				},
 				"Failed to spawn worker",
 			);
+			return null;
 		}
 	}
 
@@ -254,6 +521,11 @@ export namespace Manager {
 		for (const worker of workers.values()) {
 			checkWorkerHealth(worker, false)
 				.then((healthy) => {
+					ManagerMetrics.healthChecks.inc({
+						outcome: healthy ? "healthy" : "unhealthy",
+						pool: worker.pool,
+						worker: worker.port,
+					});
 					if (healthy) {
 						// Worker recovered if it was previously failing
 						if (worker.consecutiveFailures > 0) {
@@ -266,6 +538,7 @@ export namespace Manager {
 						worker.lastHealthyAt = Date.now();
 						if (worker.state !== WorkerState.Healthy) {
 							worker.state = WorkerState.Healthy;
+							drainQueue(worker.pool);
 						}
 					} else {
 						worker.consecutiveFailures++;
@@ -280,7 +553,7 @@ export namespace Manager {
 								},
 								"Worker unhealthy, replacing",
 							);
-							replaceWorker(worker);
+							replaceWorker(worker, "unhealthy", false);
 						} else if (worker.consecutiveFailures >= HEALTH_MAX_FAILURES - 1) {
 							log.warn(
 								{
@@ -302,51 +575,65 @@ export namespace Manager {
 		}
 	}
 
-	function auditSweep(): void {
-		const config = Config.config;
+	function poolWorkers(pool: string): Worker[] {
+		return Array.from(workers.values()).filter((w) => w.pool === pool);
+	}
 
+	function auditSweep(): void {
 		// Check for dead workers
 		for (const worker of workers.values()) {
 			const alive = Workers.isAlive(worker);
 			if (!alive) {
 				log.warn(
-					{ workerId: worker.id },
+					{ pool: worker.pool, workerId: worker.id },
 					"Worker process not alive, respawning",
 				);
 				workers.delete(worker.id);
-				spawnWorker(worker.port);
+				const pool = getPool(worker.pool);
+				if (pool) {
+					spawnWorker(pool, worker.port);
+				}
 			}
 		}
 
-		// Pool recovery: if we have no workers at all, rebuild the pool
-		if (workers.size === 0) {
-			log.error("Worker pool is empty, attempting full recovery");
-			recoverPool();
-		}
+		for (const pool of activePools()) {
+			const members = poolWorkers(pool.name);
+
+			// Pool recovery: if a pool has no workers at all, rebuild it
+			// (autoscaled pools may be scaled to zero on purpose)
+			if (members.length === 0 && pool.workers.poolSize > 0) {
+				log.error(
+					{ pool: pool.name },
+					"Worker pool is empty, attempting full recovery",
+				);
+				recoverPool(pool);
+			}
 
-		// Check if we have fewer workers than configured
-		const healthyCount = Array.from(workers.values()).filter(
-			(w) => w.state === WorkerState.Healthy,
-		).length;
+			// Check if we have fewer workers than configured
+			const healthyCount = members.filter(
+				(w) => w.state === WorkerState.Healthy,
+			).length;
 
-		if (healthyCount < config.workers.poolSize / 2) {
-			log.warn(
-				{
-					healthyCount,
-					targetPoolSize: config.workers.poolSize,
-					totalWorkers: workers.size,
-				},
-				"Low healthy worker count detected",
-			);
+			if (healthyCount < pool.workers.poolSize / 2) {
+				log.warn(
+					{
+						healthyCount,
+						pool: pool.name,
+						targetPoolSize: pool.workers.poolSize,
+						totalWorkers: members.length,
+					},
+					"Low healthy worker count detected",
+				);
+			}
 		}
 	}
 
-	async function recoverPool(): Promise<void> {
-		const config = Config.config;
-		const poolSize = config.workers.poolSize;
-		const startPort = config.workers.startingPort;
-
-		log.info({ poolSize }, "Starting pool recovery");
+	/**
+	 * Spawn a worker on every port of the pool's range that has none.
+	 */
+	async function spawnMissingWorkers(pool: PoolDefinition): Promise<void> {
+		const poolSize = pool.workers.poolSize;
+		const startPort = pool.workers.startingPort;
 
 		for (let i = 0; i < poolSize; i++) {
 			const port = startPort + i;
@@ -354,47 +641,117 @@ export namespace Manager {
 			const existingWorker = Array.from(workers.values()).find(
 				(w) => w.port === port,
 			);
-			if (!existingWorker) {
-				await spawnWorker(port);
+			if (existingWorker) {
+				continue;
+			}
+			// A retiring worker still holds the port until its drain ends
+			const retiring = Array.from(draining.values()).find(
+				(w) => w.port === port,
+			);
+			if (retiring) {
+				await retiring.process.exited;
+			}
+			if (!shuttingDown) {
+				await spawnWorker(pool, port);
 			}
 		}
+	}
+
+	async function recoverPool(pool: PoolDefinition): Promise<void> {
+		log.info(
+			{ pool: pool.name, poolSize: pool.workers.poolSize },
+			"Starting pool recovery",
+		);
 
-		log.info({ workerCount: workers.size }, "Pool recovery completed");
+		await spawnMissingWorkers(pool);
+
+		log.info(
+			{ pool: pool.name, workerCount: poolWorkers(pool.name).length },
+			"Pool recovery completed",
+		);
 	}
 
-	function replaceWorker(worker: Worker): void {
+	/**
+	 * Replace a worker with a fresh process on the same port. The old process
+	 * is drained and has to exit before the port can be bound again.
+	 * @param reason - Why the worker is replaced (rotation, unhealthy, admin, config)
+	 * @param drain - Wait for in-flight requests before stopping the old process
+	 * @returns The replacement, or null when none could be started
+	 */
+	async function replaceWorker(
+		worker: Worker,
+		reason: string,
+		drain = true,
+	): Promise<Worker | null> {
+		if (!workers.has(worker.id)) {
+			// Already retiring, or killed
+			return null;
+		}
 		const port = worker.port;
 		const oldWorkerId = worker.id;
 
-		log.info({ port, workerId: oldWorkerId }, "Replacing worker");
-		worker.state = WorkerState.Unhealthy;
-		worker.acceptingRequests = false;
+		log.info(
+			{ pool: worker.pool, port, reason, workerId: oldWorkerId },
+			"Replacing worker",
+		);
+		ManagerMetrics.workerReplacements.inc({ pool: worker.pool, reason });
 
-		// Remove old worker from map immediately to prevent ID conflicts
-		workers.delete(oldWorkerId);
+		const pool = getPool(worker.pool);
+		if (!pool) {
+			log.warn(
+				{ pool: worker.pool, workerId: oldWorkerId },
+				"Pool no longer configured, not replacing worker",
+			);
+			await retireWorker(worker, "Pool removed from config", drain);
+			return null;
+		}
 
-		// Spawn replacement
-		spawnWorker(port).then(() => {
-			// After spawn attempt, terminate the old worker process
-			log.info({ oldWorkerId, port }, "Terminating replaced worker");
-			Workers.terminate(worker, true);
-		});
+		await retireWorker(worker, "Replaced", drain);
+		if (shuttingDown) {
+			return null;
+		}
+		return spawnWorker(pool, port);
+	}
+
+	function availableWorkers(pool: PoolDefinition): Worker[] {
+		const { maxInFlight } = pool.workers;
+		return poolWorkers(pool.name).filter(
+			(w) =>
+				w.state === WorkerState.Healthy &&
+				w.acceptingRequests &&
+				(maxInFlight <= 0 || w.inFlight < maxInFlight),
+		);
 	}
 
-	export function selectWorker(): Worker | null {
-		const healthyWorkers = Array.from(workers.values()).filter(
-			(w) => w.state === WorkerState.Healthy && w.acceptingRequests,
+	function pickWorker(
+		pool: PoolDefinition,
+		exclude?: ReadonlySet<string>,
+	): Worker | null {
+		const candidates = availableWorkers(pool);
+		return LoadBalancer.pick(
+			pool.workers.strategy,
+			exclude ? candidates.filter((w) => !exclude.has(w.id)) : candidates,
+			pool.name,
 		);
+	}
 
-		if (healthyWorkers.length === 0) {
-			const allWorkers = Array.from(workers.values());
+	export function selectWorker(
+		poolName = Config.defaultPoolName(),
+	): Worker | null {
+		const pool = getPool(poolName);
+		const worker = pool ? pickWorker(pool) : null;
+
+		if (!worker) {
+			const allWorkers = poolWorkers(poolName);
 			log.error(
 				{
-					totalWorkers: workers.size,
+					pool: poolName,
+					totalWorkers: allWorkers.length,
 					workerStates: allWorkers.map((w) => ({
 						acceptingRequests: w.acceptingRequests,
 						consecutiveFailures: w.consecutiveFailures,
 						id: w.id,
+						inFlight: w.inFlight,
 						port: w.port,
 						requestCount: w.requestCount,
 						state: w.state,
@@ -405,153 +762,1083 @@ export namespace Manager {
 			return null;
 		}
 
-		const idx = rrIndex % healthyWorkers.length;
-		rrIndex = (rrIndex + 1) % healthyWorkers.length;
-		return healthyWorkers[idx] ?? null;
+		return worker;
 	}
 
-	export async function transcribe(
-		audioBase64: string,
-		language?: string,
-		timestamps = true,
-		metadata: Record<string, string> = {},
-	): Promise<TranscriptionResult> {
-		const worker = selectWorker();
-		if (!worker) {
-			throw new Error("No healthy workers available");
+	function queueFor(pool: string): PoolQueue {
+		let queue = queues.get(pool);
+		if (!queue) {
+			queue = {
+				stats: {
+					lastWaitMs: 0,
+					rejected: 0,
+					timedOut: 0,
+					totalQueued: 0,
+					totalWaitMs: 0,
+					waited: 0,
+				},
+				waiters: [],
+			};
+			queues.set(pool, queue);
 		}
+		return queue;
+	}
 
-		worker.requestCount++;
+	function retryAfterSeconds(queue: PoolQueue): number {
+		if (queue.stats.waited === 0) {
+			return DEFAULT_RETRY_AFTER_S;
+		}
+		const avgWaitMs = queue.stats.totalWaitMs / queue.stats.waited;
+		return Math.max(1, Math.ceil(avgWaitMs / 1000));
+	}
+
+	/**
+	 * Get a worker of a pool for a request, waiting in the pool's bounded
+	 * queue when every worker is rotating, unhealthy or busy.
+	 * @param exclude - Ids of workers that already failed this request; a free
+	 * worker outside this set is preferred
+	 * @throws WorkerUnavailableError when the queue is full or the wait times out
+	 */
+	export function acquireWorker(
+		poolName = Config.defaultPoolName(),
+		exclude: ReadonlySet<string> = new Set(),
+	): Promise<Worker> {
+		const pool = getPool(poolName);
+		if (!pool) {
+			return Promise.reject(new Error(`Unknown worker pool: ${poolName}`));
+		}
+
+		const queue = queueFor(pool.name);
+		const { waiters, stats } = queue;
+		// Retries belong to a request that was already admitted
+		const isRetry = exclude.size > 0;
+
+		if (shuttingDown) {
+			return Promise.reject(
+				new WorkerUnavailableError(
+					"SHUTTING_DOWN",
+					"Manager is shutting down",
+					DEFAULT_RETRY_AFTER_S,
+				),
+			);
+		}
+
+		if (pausedPools.has(pool.name) && !isRetry) {
+			stats.rejected++;
+			return Promise.reject(
+				new WorkerUnavailableError(
+					"PAUSED",
+					`Worker pool "${pool.name}" is not accepting requests`,
+					DEFAULT_RETRY_AFTER_S,
+				),
+			);
+		}
+
+		// Only bypass the queue when nobody is already waiting (keeps FIFO order)
+		if (waiters.length === 0 || isRetry) {
+			const worker = pickWorker(pool, exclude);
+			if (worker) {
+				return Promise.resolve(worker);
+			}
+		}
+
+		const { maxDepth, maxWaitMs } = Config.config.queue;
+		if (waiters.length >= maxDepth) {
+			stats.rejected++;
+			log.warn(
+				{ depth: waiters.length, maxDepth, pool: pool.name },
+				"Request queue full, rejecting request",
+			);
+			return Promise.reject(
+				new WorkerUnavailableError(
+					"QUEUE_FULL",
+					"No workers available and the request queue is full",
+					retryAfterSeconds(queue),
+				),
+			);
+		}
+
+		stats.totalQueued++;
 		log.info(
-			{
-				language,
-				requestCount: worker.requestCount,
-				timestamps,
-				workerId: worker.id,
-			},
-			"Sending transcription request to worker",
+			{ depth: waiters.length + 1, maxWaitMs, pool: pool.name },
+			"No worker available, queueing request",
 		);
 
-		try {
-			const result = await proxyToWorker(
-				worker,
-				audioBase64,
-				language,
-				timestamps,
-				metadata,
-			);
+		return new Promise<Worker>((resolve, reject) => {
+			const waiter: Waiter = {
+				enqueuedAt: Date.now(),
+				reject,
+				resolve,
+				timer: setTimeout(() => {
+					const idx = waiters.indexOf(waiter);
+					if (idx !== -1) {
+						waiters.splice(idx, 1);
+					}
+					stats.timedOut++;
+					log.warn(
+						{ maxWaitMs, pool: pool.name },
+						"Timed out waiting for a worker",
+					);
+					reject(
+						new WorkerUnavailableError(
+							"QUEUE_TIMEOUT",
+							`No worker became available within ${maxWaitMs}ms`,
+							retryAfterSeconds(queue),
+						),
+					);
+				}, maxWaitMs),
+			};
+			waiters.push(waiter);
+		});
+	}
 
-			// Check if worker needs recycling
-			if (worker.requestCount >= Config.config.workers.rotateThreshold) {
-				log.info(
-					{ requestCount: worker.requestCount, workerId: worker.id },
-					"Worker reached rotation threshold, scheduling replacement",
-				);
-				scheduleWorkerRotation(worker);
+	/**
+	 * Hand available workers of a pool to its queued requests, oldest first.
+	 */
+	function drainQueue(poolName: string): void {
+		const pool = getPool(poolName);
+		const queue = queues.get(poolName);
+		if (!pool || !queue) {
+			return;
+		}
+
+		while (queue.waiters.length > 0) {
+			const worker = pickWorker(pool);
+			if (!worker) {
+				return;
+			}
+			const waiter = queue.waiters.shift();
+			if (!waiter) {
+				return;
 			}
+			clearTimeout(waiter.timer);
+			const waitMs = Date.now() - waiter.enqueuedAt;
+			queue.stats.lastWaitMs = waitMs;
+			queue.stats.totalWaitMs += waitMs;
+			queue.stats.waited++;
+			waiter.resolve(worker);
+		}
+	}
+
+	/**
+	 * Transcribe audio on a pooled worker. Retryable failures (connection
+	 * errors, worker exits, 5xx) are retried on another worker up to the pool's
+	 * maxRetries; the attempts are recorded in the result metadata. Long
+	 * recordings are split into chunks transcribed in parallel when
+	 * `options.chunked` (or chunking.enabled) is set. Audio transcribed before
+	 * with the same pool and options is served from the result cache unless
+	 * `options.cache` is "bypass"; `cache_hit` in the metadata tells which.
+	 * Finished transcriptions are recorded in the history, and their audio
+	 * retained when `options.retainAudio` (or audio.retain) is set. The outcome
+	 * is posted to `options.callbackUrl` when given (see Webhooks). The id of
+	 * all three is `transcription_id` in the metadata.
+	 * @param audio - Base64 encoded audio, or a raw audio Blob/File (e.g. a multipart upload)
+	 * @throws AudioFormatError when the audio is not in a supported format
+	 */
+	export async function transcribe(
+		audio: string | Blob,
+		options: TranscribeOptions = {},
+	): Promise<TranscriptionResult> {
+		const entry = {
+			createdAt: Date.now(),
+			id: `tr_${Bun.randomUUIDv7()}`,
+			metadata: options.metadata,
+			owner: options.owner,
+			pool: options.pool ?? Config.defaultPoolName(),
+			traceId: Tracing.current()?.traceId,
+		};
+		const retain = async (received: Blob) =>
+			AudioStore.wanted(options) &&
+			AudioStore.save(entry.id, received, options);
 
+		let received: Blob | null = null;
+		try {
+			received =
+				typeof audio === "string"
+					? await Tracing.trace(
+							"audio.decode",
+							async () => decodeBase64Audio(audio),
+							{ encodedLength: audio.length },
+						)
+					: audio;
+			const result = await transcribeAudio(received, options);
+			const retained = await retain(received);
+			if (
+				History.record({ ...entry, result }) ||
+				retained ||
+				options.callbackUrl
+			) {
+				result.metadata.transcription_id = entry.id;
+			}
+			if (options.callbackUrl) {
+				Webhooks.enqueue(options.callbackUrl, entry, { result });
+			}
 			return result;
 		} catch (error) {
-			worker.consecutiveFailures++;
-			log.error({ error, workerId: worker.id }, "Transcription request failed");
+			// Requests that never got a worker are not transcriptions
+			if (!(error instanceof WorkerUnavailableError)) {
+				History.record({ ...entry, error });
+				if (received) {
+					await retain(received);
+				}
+				if (options.callbackUrl) {
+					Webhooks.enqueue(options.callbackUrl, entry, { error });
+				}
+			}
 			throw error;
 		}
 	}
 
-	async function proxyToWorker(
-		worker: Worker,
-		audioBase64: string,
-		language?: string,
-		_timestamps = true,
-		metadata: Record<string, string> = {},
+	async function transcribeAudio(
+		received: Blob,
+		options: TranscribeOptions,
 	): Promise<TranscriptionResult> {
-		const url = `${worker.baseUrl}/inference`;
-
-		// Clean base64 string
-		const cleaned = audioBase64
-			.replace(/\s/g, "")
-			.replace(/data:[^;]*;base64,/, "");
-
-		// Decode base64 to bytes
-		const audioBytes = Buffer.from(cleaned, "base64");
+		const poolName = options.pool ?? Config.defaultPoolName();
+
+		// Normalize before taking a worker
+		const audioBlob = await Tracing.trace(
+			"audio.prepare",
+			async () => {
+				const prepared = await Audio.prepare(received);
+				Tracing.annotate({ outputSize: prepared.size, type: prepared.type });
+				return prepared;
+			},
+			{ inputSize: received.size },
+		);
 
-		// Create multipart form data
-		const formData = new FormData();
-		const audioBlob = new Blob([audioBytes], { type: "audio/wav" });
-		formData.append("file", audioBlob, "audio.wav");
-		formData.append("response_format", "json");
-		formData.append("temperature", "0.0");
-		formData.append("language", language || "en");
+		const chunked = options.chunked ?? Config.config.chunking.enabled;
+		const cacheKey = Config.config.cache.enabled
+			? ResultCache.key(await audioBlob.bytes(), {
+					chunked,
+					granularity: options.granularity,
+					language: options.language,
+					model: getPool(poolName)?.whisperServer.model,
+					pool: poolName,
+					prompt: options.prompt,
+					temperature: options.temperature,
+					timestamps: options.timestamps,
+					translate: options.translate,
+				})
+			: null;
+		if (cacheKey && options.cache !== "bypass") {
+			const cached = await ResultCache.get(cacheKey);
+			Tracing.annotate({ cacheHit: cached !== null });
+			ManagerMetrics.cacheLookups.inc({
+				pool: poolName,
+				result: cached ? "hit" : "miss",
+			});
+			if (cached) {
+				return {
+					...cached,
+					metadata: {
+						...cached.metadata,
+						...options.metadata,
+						cache_hit: "true",
+					},
+				};
+			}
+		}
 
-		log.info(
-			{ audioSize: audioBytes.length, url, workerId: worker.id },
-			"Calling whisper server",
+		const result = await transcribeUncached(
+			poolName,
+			audioBlob,
+			chunked,
+			options,
 		);
+		if (cacheKey) {
+			// Keep the caller's own metadata out of results served to others
+			const metadata = { ...result.metadata };
+			for (const name of Object.keys(options.metadata ?? {})) {
+				delete metadata[name];
+			}
+			await ResultCache.set(cacheKey, { ...result, metadata });
+		}
+		result.metadata.cache_hit = "false";
+		return result;
+	}
 
-		const controller = new AbortController();
-		const timeout = setTimeout(() => controller.abort(), 120000); // 2 min timeout
+	async function transcribeUncached(
+		poolName: string,
+		audioBlob: Blob,
+		chunked: boolean,
+		options: TranscribeOptions,
+	): Promise<TranscriptionResult> {
+		if (chunked) {
+			const chunks = await Tracing.trace("audio.chunk", async () => {
+				const planned = Chunking.split(
+					await audioBlob.bytes(),
+					Config.config.chunking,
+				);
+				Tracing.annotate({ chunks: planned?.length ?? 1 });
+				return planned;
+			});
+			if (chunks) {
+				return transcribeChunks(poolName, chunks, options);
+			}
+		}
 
-		try {
-			const response = await fetch(url, {
-				body: formData,
-				method: "POST",
-				signal: controller.signal,
+		return transcribeWithRetries(poolName, audioBlob, options);
+	}
+
+	/**
+	 * Send audio to a worker of the pool, retrying retryable failures on
+	 * other workers.
+	 */
+	async function transcribeWithRetries(
+		poolName: string,
+		audioBlob: Blob,
+		options: TranscribeOptions,
+	): Promise<TranscriptionResult> {
+		const requestLog = Tracing.logger("Manager");
+		const { maxRetries, retryBackoffMs } =
+			getPool(poolName)?.workers ?? Config.config.workers;
+		const maxAttempts = 1 + Math.max(0, maxRetries);
+		const tried = new Set<string>();
+		const failures: AttemptFailure[] = [];
+
+		for (let attempt = 1; ; attempt++) {
+			const worker = await Tracing.trace(
+				"worker.select",
+				() => acquireWorker(poolName, tried),
+				{ attempt, pool: poolName },
+			).catch((error) => {
+				ManagerMetrics.requestsRejected.inc({
+					pool: poolName,
+					reason:
+						error instanceof WorkerUnavailableError
+							? error.code.toLowerCase()
+							: "unknown_pool",
+				});
+				throw error;
 			});
+			tried.add(worker.id);
+			Tracing.annotate({ attempt, port: worker.port, workerId: worker.id });
+
+			try {
+				const result = await attemptOnWorker(worker, audioBlob, options);
+				result.metadata.attempts = String(attempt);
+				if (failures.length > 0) {
+					result.metadata.attempt_history = JSON.stringify(failures);
+				}
+				return result;
+			} catch (error) {
+				const retryable =
+					error instanceof WorkerRequestError && error.retryable;
+				failures.push({
+					error: error instanceof Error ? error.message : String(error),
+					port: worker.port,
+					status: error instanceof WorkerRequestError ? error.status : null,
+					worker_id: worker.id,
+				});
 
-			clearTimeout(timeout);
+				if (!retryable || attempt >= maxAttempts) {
+					requestLog.error(
+						{ attempts: failures, error, workerId: worker.id },
+						"Transcription request failed",
+					);
+					throw error;
+				}
+
+				ManagerMetrics.retries.inc({ pool: poolName });
+				requestLog.warn(
+					{ attempt, error, maxAttempts, workerId: worker.id },
+					"Worker request failed, retrying on another worker",
+				);
+				await Bun.sleep(retryBackoffMs * attempt);
+			}
+		}
+	}
+
+	/**
+	 * Transcribe the chunks of a long recording in parallel, at most one per
+	 * healthy worker of the pool at a time, and merge the results.
+	 */
+	async function transcribeChunks(
+		poolName: string,
+		chunks: AudioChunk[],
+		options: TranscribeOptions,
+	): Promise<TranscriptionResult> {
+		const pool = getPool(poolName);
+		const healthy = pool
+			? poolWorkers(pool.name).filter((w) => w.state === WorkerState.Healthy)
+					.length
+			: 0;
+		const parallel = Math.min(chunks.length, Math.max(1, healthy));
+		Tracing.logger("Manager").info(
+			{
+				chunks: chunks.length,
+				duration: chunks[chunks.length - 1]?.end,
+				parallel,
+				pool: poolName,
+			},
+			"Transcribing recording in chunks",
+		);
 
-			if (!response.ok) {
-				const text = await response.text();
-				throw new Error(`HTTP ${response.status}: ${text}`);
+		const results: TranscriptionResult[] = [];
+		let next = 0;
+		let failed = false;
+		const runChunks = async () => {
+			for (let chunk = chunks[next++]; chunk; chunk = chunks[next++]) {
+				if (failed) {
+					return;
+				}
+				const { audio, end, index, start } = chunk;
+				try {
+					results[index] = await Tracing.trace(
+						"transcribe.chunk",
+						() => transcribeWithRetries(poolName, audio, options),
+						{ chunk: index, end, start },
+					);
+				} catch (error) {
+					// Leave the remaining chunks alone, the request has failed
+					failed = true;
+					throw error;
+				}
 			}
+		};
+		await Promise.all(Array.from({ length: parallel }, runChunks));
+
+		const attempts = results.reduce(
+			(sum, r) => sum + Number(r.metadata.attempts ?? 1),
+			0,
+		);
+		const failures = results.flatMap((r): AttemptFailure[] =>
+			r.metadata.attempt_history ? JSON.parse(r.metadata.attempt_history) : [],
+		);
+		return {
+			...Chunking.merge(chunks, results),
+			metadata: {
+				...options.metadata,
+				attempts: String(attempts),
+				chunks: String(chunks.length),
+				pool: poolName,
+				worker_ids: JSON.stringify([
+					...new Set(results.map((r) => r.metadata.worker_id)),
+				]),
+				...(failures.length > 0
+					? { attempt_history: JSON.stringify(failures) }
+					: {}),
+			},
+		};
+	}
+
+	/**
+	 * Send a request to one worker, tracking its load, latency and rotation.
+	 */
+	async function attemptOnWorker(
+		worker: Worker,
+		audioBlob: Blob,
+		options: TranscribeOptions,
+	): Promise<TranscriptionResult> {
+		const requestLog = Tracing.logger("Manager");
+		worker.requestCount++;
+		worker.inFlight++;
+		const startedAt = Date.now();
+		requestLog.info(
+			{
+				granularity: options.granularity ?? "segment",
+				inFlight: worker.inFlight,
+				language: options.language,
+				pool: worker.pool,
+				requestCount: worker.requestCount,
+				timestamps: options.timestamps ?? true,
+				translate: options.translate ?? false,
+				workerId: worker.id,
+			},
+			"Sending transcription request to worker",
+		);
+
+		try {
+			const result = await proxyToWorker(worker, audioBlob, options);
+			recordLatency(worker, Date.now() - startedAt);
+			recordRequest(worker, "success", startedAt);
+			ManagerMetrics.audioSeconds.inc({ pool: worker.pool }, result.duration);
+
+			// Check if worker needs recycling
+			const rotateThreshold =
+				getPool(worker.pool)?.workers.rotateThreshold ??
+				Config.config.workers.rotateThreshold;
+			if (worker.requestCount >= rotateThreshold) {
+				requestLog.info(
+					{ requestCount: worker.requestCount, workerId: worker.id },
+					"Worker reached rotation threshold, scheduling replacement",
+				);
+				scheduleWorkerRotation(worker);
+			}
+
+			return result;
+		} catch (error) {
+			worker.consecutiveFailures++;
+			recordRequest(worker, "error", startedAt);
+			throw error;
+		} finally {
+			worker.inFlight--;
+			drainQueue(worker.pool);
+		}
+	}
+
+	/**
+	 * Transcribe audio on a given worker, without normalization, chunking or
+	 * retries. Streaming sessions use it to stay on the worker pinned to them.
+	 * @param audio - 16 kHz mono PCM WAV
+	 */
+	export function transcribeOn(
+		worker: Worker,
+		audio: Blob,
+		options: TranscribeOptions = {},
+	): Promise<TranscriptionResult> {
+		return Tracing.trace(
+			"transcribe.pinned",
+			() => attemptOnWorker(worker, audio, options),
+			{ pool: worker.pool, workerId: worker.id },
+		);
+	}
+
+	/**
+	 * Whether a worker still takes new requests. False once it is rotating,
+	 * draining, unhealthy or gone, and a pinned session should move on.
+	 */
+	export function isAccepting(worker: Worker): boolean {
+		return (
+			workers.get(worker.id) === worker &&
+			worker.state === WorkerState.Healthy &&
+			worker.acceptingRequests
+		);
+	}
+
+	function recordRequest(
+		worker: Worker,
+		status: "success" | "error",
+		startedAt: number,
+	): void {
+		const labels = { pool: worker.pool, status, worker: worker.port };
+		ManagerMetrics.requests.inc(labels);
+		ManagerMetrics.requestDuration.observe(
+			labels,
+			(Date.now() - startedAt) / 1000,
+		);
+	}
+
+	function recordLatency(worker: Worker, latencyMs: number): void {
+		worker.recentLatencyMs =
+			worker.recentLatencyMs === null
+				? latencyMs
+				: Math.round(
+						LATENCY_SMOOTHING * latencyMs +
+							(1 - LATENCY_SMOOTHING) * worker.recentLatencyMs,
+					);
+	}
+
+	/**
+	 * Decode a base64 (optionally data-URL prefixed) audio payload into a Blob.
+	 */
+	export function decodeBase64Audio(audioBase64: string): Blob {
+		// Clean base64 string
+		const cleaned = audioBase64
+			.replace(/\s/g, "")
+			.replace(/data:[^;]*;base64,/, "");
+
+		// Decode base64 to bytes
+		const audioBytes = Buffer.from(cleaned, "base64");
+		return new Blob([audioBytes], { type: "audio/wav" });
+	}
+
+	async function proxyToWorker(
+		worker: Worker,
+		audioBlob: Blob,
+		options: TranscribeOptions,
+	): Promise<TranscriptionResult> {
+		const { language } = options;
+		const url = `${worker.baseUrl}/inference`;
+		const filename = audioBlob instanceof File ? audioBlob.name : "audio.wav";
+		ManagerMetrics.audioBytes.inc({ pool: worker.pool }, audioBlob.size);
+
+		// Create multipart form data
+		const formData = new FormData();
+		formData.append("file", audioBlob, filename || "audio.wav");
+		// Segment and word timings are only included in verbose output
+		const timed =
+			options.timestamps !== false || options.granularity === "word";
+		formData.append("response_format", timed ? "verbose_json" : "json");
+		if (options.granularity === "word") {
+			// Asked for by OpenAI-compatible workers, whisper.cpp always includes words
+			formData.append("timestamp_granularities[]", "word");
+			formData.append("timestamp_granularities[]", "segment");
+		}
+		formData.append("temperature", String(options.temperature ?? 0));
+		formData.append("language", language || "en");
+		if (options.prompt) {
+			formData.append("prompt", options.prompt);
+		}
+		if (options.translate) {
+			formData.append("translate", "true");
+		}
+
+		Tracing.logger("Manager").info(
+			{ audioSize: audioBlob.size, url, workerId: worker.id },
+			"Calling whisper server",
+		);
 
-			// biome-ignore lint/suspicious/noExplicitAny: Whisper API response structure varies
-			const json = (await response.json()) as any;
+		const timeoutMs =
+			options.timeoutMs ??
+			getPool(worker.pool)?.workers.requestTimeoutMs ??
+			Config.config.workers.requestTimeoutMs;
 
-			// Parse whisper server response
-			const text = json.text || json.transcript || "";
-			const segments: TranscriptionSegment[] = (json.segments || []).map(
-				// biome-ignore lint/suspicious/noExplicitAny: Whisper API response has flexible segment structure
-				(s: any) => ({
+		// biome-ignore lint/suspicious/noExplicitAny: Whisper API response structure varies
+		const json: any = await Tracing.trace(
+			"worker.request",
+			async () => {
+				const controller = new AbortController();
+				const timeout = setTimeout(() => controller.abort(), timeoutMs);
+				const span = Tracing.current();
+
+				try {
+					let response: Response;
+					try {
+						response = await fetch(url, {
+							body: formData,
+							// Lets a tracing-aware worker continue the trace
+							headers: span
+								? { traceparent: Tracing.formatTraceparent(span) }
+								: {},
+							method: "POST",
+							signal: controller.signal,
+						});
+					} catch (error) {
+						// A timeout usually means long audio, another worker would take as long
+						if (controller.signal.aborted) {
+							throw new WorkerRequestError(
+								`Worker did not respond within ${timeoutMs}ms`,
+								null,
+								false,
+							);
+						}
+						throw new WorkerRequestError(
+							`Worker connection failed: ${error instanceof Error ? error.message : String(error)}`,
+							null,
+							true,
+						);
+					}
+					Tracing.annotate({ "http.status_code": response.status });
+
+					if (!response.ok) {
+						const text = await response.text();
+						// 4xx means the request itself is bad (e.g. undecodable audio)
+						throw new WorkerRequestError(
+							`HTTP ${response.status}: ${text}`,
+							response.status,
+							response.status >= 500,
+						);
+					}
+
+					try {
+						return await response.json();
+					} catch (error) {
+						// Body cut off, e.g. the worker died while responding
+						throw new WorkerRequestError(
+							`Invalid worker response: ${error instanceof Error ? error.message : String(error)}`,
+							response.status,
+							true,
+						);
+					}
+				} finally {
+					clearTimeout(timeout);
+				}
+			},
+			{
+				audioBytes: audioBlob.size,
+				"http.method": "POST",
+				"http.url": url,
+				workerId: worker.id,
+			},
+			{ kind: "client" },
+		);
+
+		return Tracing.trace("worker.parse", async () =>
+			parseWorkerResponse(json, worker, options),
+		);
+	}
+
+	function parseWorkerResponse(
+		// biome-ignore lint/suspicious/noExplicitAny: Whisper API response structure varies
+		json: any,
+		worker: Worker,
+		options: TranscribeOptions,
+	): TranscriptionResult {
+		const { language, metadata = {} } = options;
+		const withWords = options.granularity === "word";
+		// OpenAI-style responses list words at the top level instead
+		const topLevelWords: TranscriptionWord[] = withWords
+			? parseWords(json.words)
+			: [];
+
+		// Parse whisper server response
+		const text = json.text || json.transcript || "";
+		const parsed: TranscriptionSegment[] = (json.segments || []).map(
+			// biome-ignore lint/suspicious/noExplicitAny: Whisper API response has flexible segment structure
+			(s: any) => {
+				const start = s.start || 0;
+				const end = s.end || s.start || 0;
+				const segment: TranscriptionSegment = {
 					confidence: s.confidence || null,
-					end: s.end || s.start || 0,
+					end,
 					speaker: s.speaker || null,
-					start: s.start || 0,
+					start,
 					text: (s.text || "").trim(),
-				}),
-			);
+				};
+				if (withWords) {
+					segment.words = Array.isArray(s.words)
+						? parseWords(s.words)
+						: topLevelWords.filter((w) => w.start >= start && w.start < end);
+				}
+				return segment;
+			},
+		);
+		// Word timings are carried by their segments, so those are kept
+		const segments = options.timestamps === false && !withWords ? [] : parsed;
 
-			const duration =
-				segments.length > 0 ? (segments[segments.length - 1]?.end ?? 0) : 0;
+		const duration =
+			typeof json.duration === "number"
+				? json.duration
+				: (parsed[parsed.length - 1]?.end ?? 0);
 
-			return {
-				confidence: segments.length > 0 ? 1.0 : 0.0,
-				duration,
-				language: language || "en",
-				metadata: {
-					...metadata,
-					worker_id: worker.id,
-					worker_url: worker.baseUrl,
-				},
-				provider: "whisper-server",
-				segments,
-				text: text.trim(),
-			};
-		} finally {
-			clearTimeout(timeout);
+		return {
+			confidence: parsed.length > 0 ? 1.0 : 0.0,
+			duration,
+			// Prefer the language the worker detected (e.g. for language=auto)
+			language: json.language || language || "en",
+			metadata: {
+				...metadata,
+				pool: worker.pool,
+				worker_id: worker.id,
+				worker_url: worker.baseUrl,
+			},
+			provider: "whisper-server",
+			segments,
+			text: text.trim(),
+		};
+	}
+
+	/** Words of a worker response; whisper.cpp names their text word, OpenAI text */
+	function parseWords(words: unknown): TranscriptionWord[] {
+		if (!Array.isArray(words)) {
+			return [];
 		}
+		const parsed: TranscriptionWord[] = [];
+		for (const w of words as unknown[]) {
+			if (typeof w !== "object" || w === null) {
+				continue;
+			}
+			const { end, probability, start, text, word } = w as Record<
+				string,
+				unknown
+			>;
+			const content = typeof word === "string" ? word : text;
+			if (typeof content !== "string" || !content.trim()) {
+				continue;
+			}
+			const from = typeof start === "number" ? start : 0;
+			parsed.push({
+				end: typeof end === "number" && end > 0 ? end : from,
+				probability: typeof probability === "number" ? probability : null,
+				start: from,
+				text: content.trim(),
+			});
+		}
+		return parsed;
 	}
 
+	/**
+	 * Replace a worker once its in-flight requests have finished.
+	 */
 	function scheduleWorkerRotation(worker: Worker): void {
+		if (!workers.has(worker.id)) {
+			// Already retiring
+			return;
+		}
+		worker.acceptingRequests = false;
+		log.info(
+			{ inFlight: worker.inFlight, workerId: worker.id },
+			"Rotating worker",
+		);
+		ManagerMetrics.workerRotations.inc({ pool: worker.pool });
+		replaceWorker(worker, "rotation").catch((error) =>
+			log.error({ error, workerId: worker.id }, "Failed to rotate worker"),
+		);
+	}
+
+	/**
+	 * Find a worker by id, or by port when the reference is a number.
+	 * @throws WorkerControlError when no such worker is running
+	 */
+	export function findWorker(ref: string): Worker {
+		const byId = workers.get(ref) ?? draining.get(ref);
+		if (byId) {
+			return byId;
+		}
+		const port = Number(ref);
+		const byPort = [...workers.values(), ...draining.values()].find(
+			(w) => w.port === port,
+		);
+		if (!byPort) {
+			throw new WorkerControlError(
+				"WORKER_NOT_FOUND",
+				`No worker with id or port ${ref}`,
+			);
+		}
+		return byPort;
+	}
+
+	function requirePool(name: string): PoolDefinition {
+		const pool = getPool(name);
+		if (!pool) {
+			throw new WorkerControlError(
+				"POOL_NOT_FOUND",
+				`Unknown worker pool: ${name}`,
+			);
+		}
+		return pool;
+	}
+
+	/**
+	 * Stop handing new requests to a worker. In-flight requests finish normally.
+	 */
+	export function drainWorker(worker: Worker): void {
+		log.info(
+			{ inFlight: worker.inFlight, pool: worker.pool, workerId: worker.id },
+			"Draining worker",
+		);
+		worker.acceptingRequests = false;
+	}
+
+	/**
+	 * Let a drained worker take requests again.
+	 */
+	export function undrainWorker(worker: Worker): void {
+		log.info({ pool: worker.pool, workerId: worker.id }, "Undraining worker");
+		worker.acceptingRequests = true;
+		drainQueue(worker.pool);
+	}
+
+	/**
+	 * Restart a worker on the same port. By default it is drained first and
+	 * replaced like a worker reaching its rotation threshold.
+	 * @returns The replacement when restarted immediately, else the draining worker
+	 */
+	export async function restartWorker(
+		worker: Worker,
+		immediate = false,
+	): Promise<Worker | null> {
+		if (!immediate) {
+			scheduleWorkerRotation(worker);
+			return worker;
+		}
 		worker.acceptingRequests = false;
-		setTimeout(() => {
-			log.info({ workerId: worker.id }, "Rotating worker");
-			replaceWorker(worker);
-		}, 5000); // Wait a bit before rotating
+		return replaceWorker(worker, "admin", false);
+	}
+
+	/**
+	 * Kill a worker process right away. Its port stays empty until a worker
+	 * is spawned again (or the pool is resized or reloaded).
+	 */
+	export async function killWorker(worker: Worker): Promise<void> {
+		log.warn(
+			{ inFlight: worker.inFlight, pool: worker.pool, workerId: worker.id },
+			"Killing worker",
+		);
+		workers.delete(worker.id);
+		await Workers.terminate(worker, false);
+	}
+
+	/**
+	 * Spawn a worker in a pool, on the given port or the first free port of
+	 * the pool's range.
+	 * @throws WorkerControlError when the port is taken or outside the range
+	 */
+	export async function addWorker(
+		poolName: string,
+		port?: number,
+	): Promise<Worker> {
+		const pool = requirePool(poolName);
+		const { poolSize, startingPort } = pool.workers;
+		const taken = new Set(
+			[...workers.values(), ...draining.values()].map((w) => w.port),
+		);
+
+		let target = port;
+		if (target === undefined) {
+			for (let p = startingPort; p < startingPort + poolSize; p++) {
+				if (!taken.has(p)) {
+					target = p;
+					break;
+				}
+			}
+			if (target === undefined) {
+				throw new WorkerControlError(
+					"NO_FREE_PORT",
+					`Every port of pool "${pool.name}" has a worker, resize the pool first`,
+				);
+			}
+		} else if (target < startingPort || target >= startingPort + poolSize) {
+			throw new WorkerControlError(
+				"PORT_OUT_OF_RANGE",
+				`Port ${target} is outside pool "${pool.name}" (${startingPort}-${startingPort + poolSize - 1})`,
+			);
+		} else if (taken.has(target)) {
+			throw new WorkerControlError(
+				"PORT_IN_USE",
+				`Port ${target} already has a worker`,
+			);
+		}
+
+		// An explicit spawn request resets any backoff for the port
+		spawnFailures.delete(target);
+		const worker = await spawnWorker(pool, target);
+		if (!worker) {
+			throw new WorkerControlError(
+				"SPAWN_FAILED",
+				`Worker on port ${target} failed to start, see its log`,
+			);
+		}
+		return worker;
+	}
+
+	/**
+	 * Change a pool's size until the next config reload. Autoscaled pools
+	 * keep scaling from the new size within minWorkers..maxWorkers.
+	 * @throws WorkerControlError when the size is out of bounds or the new
+	 * range overlaps another pool
+	 */
+	export async function resizePool(
+		poolName: string,
+		poolSize: number,
+	): Promise<void> {
+		const pool = requirePool(poolName);
+		const { maxWorkers, minWorkers, startingPort } = pool.workers;
+		const end = startingPort + poolSize;
+
+		if (
+			Config.isAutoscaled(pool) &&
+			(poolSize < minWorkers || poolSize > maxWorkers)
+		) {
+			throw new WorkerControlError(
+				"INVALID_POOL_SIZE",
+				`Pool "${pool.name}" autoscales between ${minWorkers} and ${maxWorkers} workers`,
+			);
+		}
+
+		const overlapping = activePools().find(
+			(other) =>
+				other.name !== pool.name &&
+				startingPort <
+					other.workers.startingPort + Config.portCapacity(other) &&
+				other.workers.startingPort < end,
+		);
+		if (overlapping) {
+			throw new WorkerControlError(
+				"PORT_CONFLICT",
+				`Pool "${pool.name}" with ${poolSize} workers would overlap the ports of pool "${overlapping.name}"`,
+			);
+		}
+
+		log.info(
+			{ from: pool.workers.poolSize, pool: pool.name, to: poolSize },
+			"Resizing worker pool",
+		);
+		await applyPoolSize(pool.name, poolSize);
+	}
+
+	/**
+	 * Set a pool's runtime size, then retire workers above the new range
+	 * (after their in-flight requests finish) or spawn workers for new ports.
+	 */
+	async function applyPoolSize(
+		poolName: string,
+		poolSize: number,
+	): Promise<void> {
+		sizeOverrides.set(poolName, poolSize);
+		resizing.add(poolName);
+		try {
+			const pool = requirePool(poolName);
+			const end = pool.workers.startingPort + pool.workers.poolSize;
+			await Promise.all(
+				poolWorkers(pool.name)
+					.filter((w) => w.port >= end)
+					.map((w) => retireWorker(w, "Pool resized")),
+			);
+			await spawnMissingWorkers(pool);
+			drainQueue(pool.name);
+		} finally {
+			resizing.delete(poolName);
+		}
+	}
+
+	/**
+	 * Grow or shrink autoscaled pools based on their load.
+	 */
+	function autoscaleSweep(): void {
+		for (const pool of activePools()) {
+			if (!Config.isAutoscaled(pool) || resizing.has(pool.name)) {
+				continue;
+			}
+
+			const members = poolWorkers(pool.name);
+			const decision = Autoscaler.evaluate(pool, {
+				healthyWorkers: members.filter((w) => w.state === WorkerState.Healthy)
+					.length,
+				inFlight: members.reduce((sum, w) => sum + w.inFlight, 0),
+				queueDepth: queues.get(pool.name)?.waiters.length ?? 0,
+				startingWorkers: members.filter((w) => w.state === WorkerState.Starting)
+					.length,
+			});
+			if (!decision) {
+				continue;
+			}
+
+			log.info(
+				{ ...decision, pool: pool.name },
+				decision.action === "up" ? "Scaling pool up" : "Scaling pool down",
+			);
+			Autoscaler.record(pool.name, decision);
+			applyPoolSize(pool.name, decision.to).catch((error) =>
+				log.error({ error, pool: pool.name }, "Failed to scale pool"),
+			);
+		}
+	}
+
+	/**
+	 * Stop accepting new requests for the given pools (all pools by default).
+	 * New requests get a 503; queued and in-flight requests are still served.
+	 */
+	export function pauseIntake(poolName?: string): string[] {
+		const names = poolName
+			? [requirePool(poolName).name]
+			: activePools().map((p) => p.name);
+		for (const name of names) {
+			pausedPools.add(name);
+		}
+		log.warn({ pools: names }, "Request intake paused");
+		return names;
+	}
+
+	export function resumeIntake(poolName?: string): string[] {
+		const names = poolName
+			? [requirePool(poolName).name]
+			: Array.from(pausedPools);
+		for (const name of names) {
+			pausedPools.delete(name);
+		}
+		log.info({ pools: names }, "Request intake resumed");
+		return names;
 	}
 
+	/**
+	 * Stop taking requests, let in-flight requests finish (each worker waits up
+	 * to its pool's drainTimeoutMs) and stop every worker.
+	 */
 	export async function dispose() {
 		log.info("Shutting down manager");
+		shuttingDown = true;
 
 		// Stop health checks
 		if (healthCheckInterval) {
@@ -560,43 +1847,279 @@ export namespace Manager {
 		if (auditCheckInterval) {
 			clearInterval(auditCheckInterval);
 		}
+		if (autoscaleInterval) {
+			clearInterval(autoscaleInterval);
+		}
 
-		// Terminate all workers
-		for (const worker of workers.values()) {
-			Workers.terminate(worker, true);
+		// Fail any requests still waiting for a worker
+		for (const queue of queues.values()) {
+			for (const waiter of queue.waiters.splice(0)) {
+				clearTimeout(waiter.timer);
+				waiter.reject(
+					new WorkerUnavailableError(
+						"SHUTTING_DOWN",
+						"Manager is shutting down",
+						DEFAULT_RETRY_AFTER_S,
+					),
+				);
+			}
 		}
 
-		workers.clear();
+		// Drain and terminate all workers, including ones already retiring
+		const inFlight = Array.from(workers.values()).reduce(
+			(sum, w) => sum + w.inFlight,
+			0,
+		);
+		if (inFlight > 0) {
+			log.info({ inFlight }, "Waiting for in-flight requests to finish");
+		}
+		await Promise.all([
+			...Array.from(workers.values()).map((w) =>
+				retireWorker(w, "Shutting down"),
+			),
+			...Array.from(draining.values()).map((w) => w.process.exited),
+		]);
+
 		log.info("Manager shutdown complete");
 	}
 
-	export function getPoolStatus() {
-		const status = Array.from(workers.values()).map((w) => ({
+	/**
+	 * Refresh the pool gauges before a metrics scrape.
+	 */
+	function collectMetrics(): void {
+		const gauges = [
+			ManagerMetrics.inFlight,
+			ManagerMetrics.poolSize,
+			ManagerMetrics.queueDepth,
+			ManagerMetrics.spawnFailureStreak,
+			ManagerMetrics.workersHealthy,
+			ManagerMetrics.workersTotal,
+		];
+		for (const gauge of gauges) {
+			gauge.reset();
+		}
+
+		for (const pool of activePools()) {
+			const members = poolWorkers(pool.name);
+			const labels = { pool: pool.name };
+			ManagerMetrics.inFlight.set(
+				labels,
+				members.reduce((sum, w) => sum + w.inFlight, 0),
+			);
+			ManagerMetrics.poolSize.set(labels, pool.workers.poolSize);
+			ManagerMetrics.queueDepth.set(
+				labels,
+				queues.get(pool.name)?.waiters.length ?? 0,
+			);
+			ManagerMetrics.workersHealthy.set(
+				labels,
+				members.filter((w) => w.state === WorkerState.Healthy).length,
+			);
+			ManagerMetrics.workersTotal.set(labels, members.length);
+		}
+
+		for (const [port, failure] of spawnFailures) {
+			ManagerMetrics.spawnFailureStreak.set({ port }, failure.count);
+		}
+	}
+
+	export function describeWorker(w: Worker) {
+		return {
 			acceptingRequests: w.acceptingRequests,
 			consecutiveFailures: w.consecutiveFailures,
 			id: w.id,
+			inFlight: w.inFlight,
+			pool: w.pool,
 			port: w.port,
+			recentLatencyMs: w.recentLatencyMs,
 			requestCount: w.requestCount,
 			state: w.state,
 			uptime: Date.now() - w.startedAt,
-		}));
+		};
+	}
+
+	export function getPoolStatus() {
+		const status = Array.from(workers.values()).map(describeWorker);
+
+		const { maxDepth, maxWaitMs } = Config.config.queue;
+		const defaultPool = Config.defaultPoolName();
+
+		const pools = activePools().map((pool) => {
+			const members = status.filter((w) => w.pool === pool.name);
+			const { stats, waiters } = queueFor(pool.name);
+			const oldest = waiters[0];
+
+			return {
+				aliases: pool.aliases,
+				autoscaling: {
+					enabled: Config.isAutoscaled(pool),
+					maxWorkers: pool.workers.maxWorkers,
+					minWorkers: pool.workers.minWorkers,
+					recentDecisions: Autoscaler.history(pool.name),
+				},
+				default: pool.name === defaultPool,
+				description: pool.description,
+				healthyWorkers: members.filter((w) => w.state === WorkerState.Healthy)
+					.length,
+				inFlight: members.reduce((sum, w) => sum + w.inFlight, 0),
+				model: pool.whisperServer.model,
+				name: pool.name,
+				paused: pausedPools.has(pool.name),
+				poolSize: pool.workers.poolSize,
+				queue: {
+					avgWaitMs:
+						stats.waited > 0 ? Math.round(stats.totalWaitMs / stats.waited) : 0,
+					depth: waiters.length,
+					lastWaitMs: stats.lastWaitMs,
+					maxDepth,
+					maxWaitMs,
+					oldestWaitMs: oldest ? Date.now() - oldest.enqueuedAt : 0,
+					rejected: stats.rejected,
+					timedOut: stats.timedOut,
+					totalQueued: stats.totalQueued,
+				},
+				strategy: pool.workers.strategy,
+				totalWorkers: members.length,
+			};
+		});
 
 		return {
+			// Retired workers still finishing in-flight requests
+			draining: Array.from(draining.values()).map(describeWorker),
 			healthyWorkers: status.filter((w) => w.state === WorkerState.Healthy)
 				.length,
+			inFlight: status.reduce((sum, w) => sum + w.inFlight, 0),
+			pools,
+			queueDepth: pools.reduce((sum, p) => sum + p.queue.depth, 0),
 			totalWorkers: workers.size,
 			workers: status,
 		};
 	}
 }
 
-// Types for transcription results (collocated with manager)
+/**
+ * Thrown when a request cannot be given a worker: the wait queue is full,
+ * the wait timed out, its pool was removed or paused, or the manager is
+ * shutting down.
+ * Maps to HTTP 503.
+ */
+export class WorkerUnavailableError extends Error {
+	constructor(
+		readonly code:
+			| "QUEUE_FULL"
+			| "QUEUE_TIMEOUT"
+			| "POOL_REMOVED"
+			| "PAUSED"
+			| "SHUTTING_DOWN",
+		message: string,
+		readonly retryAfterSeconds: number,
+	) {
+		super(message);
+		this.name = "WorkerUnavailableError";
+	}
+}
+
+/**
+ * Thrown when an admin action on a worker or pool cannot be carried out.
+ */
+export class WorkerControlError extends Error {
+	constructor(
+		readonly code:
+			| "WORKER_NOT_FOUND"
+			| "POOL_NOT_FOUND"
+			| "NO_FREE_PORT"
+			| "PORT_OUT_OF_RANGE"
+			| "PORT_IN_USE"
+			| "PORT_CONFLICT"
+			| "INVALID_POOL_SIZE"
+			| "SPAWN_FAILED",
+		message: string,
+	) {
+		super(message);
+		this.name = "WorkerControlError";
+	}
+}
+
+/**
+ * A failed request to a worker. Retryable failures are worth sending to
+ * another worker; the others (e.g. 4xx for bad audio) would fail anywhere.
+ */
+export class WorkerRequestError extends Error {
+	constructor(
+		message: string,
+		/** HTTP status returned by the worker, null when none was received */
+		readonly status: number | null,
+		readonly retryable: boolean,
+	) {
+		super(message);
+		this.name = "WorkerRequestError";
+	}
+}
+
+/** A failed attempt of a request, recorded in the result metadata */
+interface AttemptFailure {
+	worker_id: string;
+	port: number;
+	status: number | null;
+	error: string;
+}
+
+// Types for transcription requests and results (collocated with manager)
+export interface TranscribeOptions {
+	/** Name of the worker pool to use, defaults to the default pool */
+	pool?: string;
+	/** Language code, or "auto" to let the worker detect it */
+	language?: string;
+	/** Return segments with start and end times, defaults to true */
+	timestamps?: boolean;
+	/**
+	 * "word" also returns the timing of each word within its segment, and
+	 * keeps the segments even without timestamps; defaults to "segment"
+	 */
+	granularity?: "segment" | "word";
+	metadata?: Record<string, string>;
+	/** Initial prompt to guide the decoder */
+	prompt?: string;
+	/** Sampling temperature, defaults to 0 */
+	temperature?: number;
+	/** Translate the audio into English instead of transcribing */
+	translate?: boolean;
+	/** Worker request timeout, defaults to the pool's workers.requestTimeoutMs */
+	timeoutMs?: number;
+	/**
+	 * Split long audio into chunks transcribed in parallel, defaults to
+	 * chunking.enabled
+	 */
+	chunked?: boolean;
+	/** "bypass" transcribes again and replaces any cached result */
+	cache?: "use" | "bypass";
+	/** Keep the submitted audio for replay, defaults to audio.retain */
+	retainAudio?: boolean;
+	/** URL the signed result or error is posted to once finished */
+	callbackUrl?: string;
+	/**
+	 * Name of the API key submitting the audio; its job, history record
+	 * and retained audio are only visible to that key and admins
+	 */
+	owner?: string;
+}
+
 export interface TranscriptionSegment {
 	text: string;
 	start: number;
 	end: number;
 	confidence: number | null;
 	speaker: string | null;
+	/** Present when word granularity was requested */
+	words?: TranscriptionWord[];
+}
+
+export interface TranscriptionWord {
+	text: string;
+	start: number;
+	end: number;
+	/** Decoder confidence in the word, when the worker reports it */
+	probability: number | null;
 }
 
 export interface TranscriptionResult {
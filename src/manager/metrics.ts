@@ -0,0 +1,77 @@
+import { Metrics } from "../observability/metrics";
+
+/**
+ * Metrics recorded by the manager. Workers are labelled by port, which stays
+ * stable across rotations (worker ids do not).
+ */
+export const ManagerMetrics = {
+	audioBytes: Metrics.counter(
+		"inference_audio_bytes_total",
+		"Audio bytes sent to workers",
+	),
+	audioSeconds: Metrics.counter(
+		"inference_audio_seconds_total",
+		"Seconds of audio transcribed",
+	),
+	cacheLookups: Metrics.counter(
+		"inference_cache_lookups_total",
+		"Result cache lookups by outcome (hit or miss)",
+	),
+	healthChecks: Metrics.counter(
+		"inference_health_checks_total",
+		"Periodic worker health checks by outcome",
+	),
+	inFlight: Metrics.gauge(
+		"inference_requests_in_flight",
+		"Requests currently being processed",
+	),
+	poolSize: Metrics.gauge(
+		"inference_pool_size",
+		"Target number of workers in the pool",
+	),
+	queueDepth: Metrics.gauge(
+		"inference_queue_depth",
+		"Requests waiting for a worker",
+	),
+	requestDuration: Metrics.histogram(
+		"inference_request_duration_seconds",
+		"Time spent by workers on transcription requests",
+	),
+	requests: Metrics.counter(
+		"inference_requests_total",
+		"Transcription requests handled by workers",
+	),
+	requestsRejected: Metrics.counter(
+		"inference_requests_rejected_total",
+		"Requests that could not be given a worker",
+	),
+	retries: Metrics.counter(
+		"inference_request_retries_total",
+		"Requests retried on another worker after a retryable failure",
+	),
+	spawnFailures: Metrics.counter(
+		"inference_worker_spawn_failures_total",
+		"Worker spawns that failed or never became healthy",
+	),
+	spawnFailureStreak: Metrics.gauge(
+		"inference_worker_consecutive_spawn_failures",
+		"Consecutive failed spawns per port (spawns back off after 5)",
+	),
+	spawns: Metrics.counter(
+		"inference_worker_spawns_total",
+		"Workers spawned and healthy",
+	),
+	workerReplacements: Metrics.counter(
+		"inference_worker_replacements_total",
+		"Workers replaced with a fresh process, by reason",
+	),
+	workerRotations: Metrics.counter(
+		"inference_worker_rotations_total",
+		"Workers rotated after reaching their request threshold",
+	),
+	workersHealthy: Metrics.gauge(
+		"inference_workers_healthy",
+		"Workers passing health checks",
+	),
+	workersTotal: Metrics.gauge("inference_workers_total", "Workers running"),
+};
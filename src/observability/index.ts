@@ -1,4 +1,5 @@
 import { Log } from "./logger";
+import { OtlpExporter } from "./otlp";
 
 /**
  * Observability module for periodic health/status logging.
@@ -41,12 +42,15 @@ export namespace Observability {
 		// Don't pulse immediately - wait for the interval
 		// This prevents flooding logs at startup
 		timer = setInterval(pulse, PULSE_INTERVAL_MS);
+		OtlpExporter.start();
 	}
 
-	export function dispose(): void {
+	export async function dispose(): Promise<void> {
 		if (timer) {
 			clearInterval(timer);
 			timer = undefined;
 		}
+		// Send spans still buffered for the collector
+		await OtlpExporter.dispose();
 	}
 }
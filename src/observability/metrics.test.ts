@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { Metrics } from "./metrics";
+
+/** The lines of the scrape belonging to one metric */
+function scrape(name: string): string[] {
+	return Metrics.render()
+		.split("\n")
+		.filter((line) => line.startsWith(name) || line.includes(` ${name} `));
+}
+
+describe("Metrics", () => {
+	test("renders counters per label set", () => {
+		const counter = Metrics.counter("test_events_total", "Events seen");
+		counter.inc();
+		counter.inc({ kind: 'say "hi"\n' }, 2);
+		counter.inc({ kind: 'say "hi"\n' });
+
+		expect(scrape("test_events_total")).toEqual([
+			"# HELP test_events_total Events seen",
+			"# TYPE test_events_total counter",
+			"test_events_total 1",
+			'test_events_total{kind="say \\"hi\\"\\n"} 3',
+		]);
+	});
+
+	test("fills gauges from collectors at scrape time", () => {
+		const gauge = Metrics.gauge("test_queue_depth", "Waiting items");
+		let depth = 1;
+		Metrics.onCollect(() => {
+			gauge.reset();
+			gauge.set({ b: 2, a: "x" }, depth);
+		});
+
+		expect(scrape("test_queue_depth{")).toEqual([
+			'test_queue_depth{a="x",b="2"} 1',
+		]);
+		depth = 4;
+		expect(scrape("test_queue_depth{")).toEqual([
+			'test_queue_depth{a="x",b="2"} 4',
+		]);
+	});
+
+	test("renders histograms with cumulative buckets", () => {
+		const histogram = Metrics.histogram(
+			"test_duration_seconds",
+			"Durations",
+			[1, 5],
+		);
+		histogram.observe({ pool: "p" }, 0.5);
+		histogram.observe({ pool: "p" }, 3);
+		histogram.observe({ pool: "p" }, 8);
+
+		expect(scrape("test_duration_seconds_")).toEqual([
+			'test_duration_seconds_bucket{pool="p",le="1"} 1',
+			'test_duration_seconds_bucket{pool="p",le="5"} 2',
+			'test_duration_seconds_bucket{pool="p",le="+Inf"} 3',
+			'test_duration_seconds_sum{pool="p"} 11.5',
+			'test_duration_seconds_count{pool="p"} 3',
+		]);
+	});
+});
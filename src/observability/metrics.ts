@@ -0,0 +1,155 @@
+type Labels = Record<string, string | number>;
+
+interface Counter {
+	inc(labels?: Labels, value?: number): void;
+}
+
+interface Gauge {
+	set(labels: Labels, value: number): void;
+	reset(): void;
+}
+
+interface Histogram {
+	observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+	name: string;
+	help: string;
+	type: "counter" | "gauge" | "histogram";
+	render(): string[];
+}
+
+// Request latencies range from sub-second clips to multi-minute recordings
+const DURATION_BUCKETS_S = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/**
+ * Prometheus metrics in the text exposition format.
+ * Gauges describing current state are filled by collectors at scrape time.
+ */
+export namespace Metrics {
+	const metrics: Metric[] = [];
+	const collectors: (() => void)[] = [];
+
+	export const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+	function escapeLabel(value: string): string {
+		return value
+			.replace(/\\/g, "\\\\")
+			.replace(/"/g, '\\"')
+			.replace(/\n/g, "\\n");
+	}
+
+	function labelKey(labels: Labels): string {
+		return Object.keys(labels)
+			.sort()
+			.map((k) => `${k}="${escapeLabel(String(labels[k]))}"`)
+			.join(",");
+	}
+
+	function sample(name: string, key: string, value: number): string {
+		return key ? `${name}{${key}} ${value}` : `${name} ${value}`;
+	}
+
+	export function counter(name: string, help: string): Counter {
+		const values = new Map<string, number>();
+		metrics.push({
+			help,
+			name,
+			render: () =>
+				Array.from(values, ([key, value]) => sample(name, key, value)),
+			type: "counter",
+		});
+		return {
+			inc(labels = {}, value = 1) {
+				const key = labelKey(labels);
+				values.set(key, (values.get(key) ?? 0) + value);
+			},
+		};
+	}
+
+	export function gauge(name: string, help: string): Gauge {
+		const values = new Map<string, number>();
+		metrics.push({
+			help,
+			name,
+			render: () =>
+				Array.from(values, ([key, value]) => sample(name, key, value)),
+			type: "gauge",
+		});
+		return {
+			reset() {
+				values.clear();
+			},
+			set(labels, value) {
+				values.set(labelKey(labels), value);
+			},
+		};
+	}
+
+	export function histogram(
+		name: string,
+		help: string,
+		buckets = DURATION_BUCKETS_S,
+	): Histogram {
+		const series = new Map<
+			string,
+			{ counts: number[]; count: number; sum: number }
+		>();
+		metrics.push({
+			help,
+			name,
+			render: () =>
+				Array.from(series).flatMap(([key, s]) => {
+					const prefix = key ? `${key},` : "";
+					return [
+						...buckets.map((le, i) =>
+							sample(`${name}_bucket`, `${prefix}le="${le}"`, s.counts[i] ?? 0),
+						),
+						sample(`${name}_bucket`, `${prefix}le="+Inf"`, s.count),
+						sample(`${name}_sum`, key, s.sum),
+						sample(`${name}_count`, key, s.count),
+					];
+				}),
+			type: "histogram",
+		});
+		return {
+			observe(labels, value) {
+				const key = labelKey(labels);
+				let s = series.get(key);
+				if (!s) {
+					s = { count: 0, counts: buckets.map(() => 0), sum: 0 };
+					series.set(key, s);
+				}
+				// Buckets are cumulative
+				for (let i = 0; i < buckets.length; i++) {
+					if (value <= (buckets[i] ?? 0)) {
+						s.counts[i] = (s.counts[i] ?? 0) + 1;
+					}
+				}
+				s.count++;
+				s.sum += value;
+			},
+		};
+	}
+
+	/**
+	 * Register a callback that updates gauges right before each scrape.
+	 */
+	export function onCollect(collector: () => void): void {
+		collectors.push(collector);
+	}
+
+	export function render(): string {
+		for (const collect of collectors) {
+			collect();
+		}
+		const lines: string[] = [];
+		for (const metric of metrics) {
+			lines.push(`# HELP ${metric.name} ${metric.help}`);
+			lines.push(`# TYPE ${metric.name} ${metric.type}`);
+			lines.push(...metric.render());
+		}
+		return `${lines.join("\n")}\n`;
+	}
+}
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import { OtlpExporter } from "./otlp";
+import { Tracing } from "./tracing";
+
+interface ExportedSpan {
+	attributes: { key: string; value: Record<string, unknown> }[];
+	kind: number;
+	name: string;
+	parentSpanId: string;
+	spanId: string;
+	status: { code: number; message: string };
+	traceId: string;
+}
+
+describe("OtlpExporter", () => {
+	const tracing = Config.config.tracing;
+	let server: ReturnType<typeof Bun.serve> | null = null;
+
+	afterEach(() => {
+		Config.config.tracing = tracing;
+		server?.stop(true);
+		server = null;
+	});
+
+	test("sends finished spans to the collector as OTLP JSON", async () => {
+		const requests: { body: unknown; headers: Headers; path: string }[] = [];
+		server = Bun.serve({
+			fetch: async (request) => {
+				requests.push({
+					body: await request.json(),
+					headers: request.headers,
+					path: new URL(request.url).pathname,
+				});
+				return new Response(null, { status: 200 });
+			},
+			port: 0,
+		});
+		Config.config.tracing = {
+			...tracing,
+			endpoint: `http://127.0.0.1:${server.port}/`,
+			headers: { authorization: "Bearer collector" },
+			serviceName: "inference-test",
+		};
+
+		await Tracing.trace(
+			"outer",
+			() =>
+				Tracing.trace(
+					"inner",
+					async () => {
+						throw new Error("bad audio");
+					},
+					{ attempt: 2, ratio: 0.5 },
+				).catch(() => "handled"),
+			undefined,
+			{ kind: "server" },
+		);
+		await OtlpExporter.flush();
+
+		expect(requests).toHaveLength(1);
+		const [request] = requests;
+		expect(request?.path).toBe("/v1/traces");
+		expect(request?.headers.get("authorization")).toBe("Bearer collector");
+
+		const body = request?.body as {
+			resourceSpans: {
+				resource: { attributes: unknown[] };
+				scopeSpans: { spans: ExportedSpan[] }[];
+			}[];
+		};
+		const [resource] = body.resourceSpans;
+		expect(resource?.resource.attributes).toEqual([
+			{ key: "service.name", value: { stringValue: "inference-test" } },
+		]);
+		const [inner, outer] = resource?.scopeSpans[0]?.spans ?? [];
+		expect(outer).toMatchObject({
+			kind: 2,
+			name: "outer",
+			parentSpanId: "",
+			status: { code: 1 },
+		});
+		expect(inner).toMatchObject({
+			attributes: [
+				{ key: "attempt", value: { intValue: "2" } },
+				{ key: "ratio", value: { doubleValue: 0.5 } },
+			],
+			kind: 1,
+			name: "inner",
+			parentSpanId: outer?.spanId,
+			status: { code: 2, message: "bad audio" },
+			traceId: outer?.traceId,
+		});
+	});
+
+	test("keeps nothing while no endpoint is set", async () => {
+		Config.config.tracing = { ...tracing, endpoint: "" };
+		await Tracing.trace("ignored", async () => {});
+
+		const exported: string[] = [];
+		server = Bun.serve({
+			fetch: async (request) => {
+				const body = (await request.json()) as {
+					resourceSpans: { scopeSpans: { spans: ExportedSpan[] }[] }[];
+				};
+				for (const span of body.resourceSpans[0]?.scopeSpans[0]?.spans ?? []) {
+					exported.push(span.name);
+				}
+				return new Response(null);
+			},
+			port: 0,
+		});
+		Config.config.tracing = {
+			...tracing,
+			endpoint: `http://127.0.0.1:${server.port}`,
+		};
+		await OtlpExporter.flush();
+		expect(exported).not.toContain("ignored");
+	});
+});
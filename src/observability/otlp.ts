@@ -0,0 +1,143 @@
+import { Config } from "../config";
+import { Log } from "./logger";
+import type { Tracing } from "./tracing";
+
+const log = Log.child({ module: "OtlpExporter" });
+
+// OTLP enum values
+const SPAN_KIND = { client: 3, internal: 1, server: 2 } as const;
+const STATUS_CODE = { failure: 2, success: 1 } as const;
+
+type AttributeValue =
+	| { stringValue: string }
+	| { boolValue: boolean }
+	| { intValue: string }
+	| { doubleValue: number };
+
+function toAttributeValue(value: unknown): AttributeValue {
+	if (typeof value === "boolean") {
+		return { boolValue: value };
+	}
+	if (typeof value === "number") {
+		return Number.isInteger(value)
+			? { intValue: String(value) }
+			: { doubleValue: value };
+	}
+	return {
+		stringValue: typeof value === "string" ? value : JSON.stringify(value),
+	};
+}
+
+function toAttributes(metadata: Record<string, unknown> = {}) {
+	return Object.entries(metadata)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => ({ key, value: toAttributeValue(value) }));
+}
+
+function toNanos(ms: number): string {
+	return (BigInt(ms) * 1_000_000n).toString();
+}
+
+/**
+ * Batches finished spans and sends them to an OTLP/HTTP collector as JSON
+ * (`POST {tracing.endpoint}/v1/traces`). Does nothing while no endpoint is set.
+ */
+export namespace OtlpExporter {
+	let buffer: Tracing.Span[] = [];
+	let timer: Timer | undefined;
+
+	const FLUSH_INTERVAL_MS = 5000;
+	const BATCH_SIZE = 256;
+	// Spans kept while the collector is unreachable, oldest dropped first
+	const MAX_BUFFERED = 2048;
+	const EXPORT_TIMEOUT_MS = 5000;
+
+	export function enqueue(span: Tracing.Span): void {
+		if (!Config.config.tracing.endpoint) {
+			return;
+		}
+		buffer.push(span);
+		if (buffer.length > MAX_BUFFERED) {
+			buffer.splice(0, buffer.length - MAX_BUFFERED);
+		}
+		if (buffer.length >= BATCH_SIZE) {
+			flush();
+		}
+	}
+
+	function toOtlp(spans: Tracing.Span[]) {
+		const { serviceName } = Config.config.tracing;
+		return {
+			resourceSpans: [
+				{
+					resource: {
+						attributes: toAttributes({ "service.name": serviceName }),
+					},
+					scopeSpans: [
+						{
+							scope: { name: serviceName },
+							spans: spans.map((span) => ({
+								attributes: toAttributes(span.metadata),
+								endTimeUnixNano: toNanos(span.end_time ?? span.start_time),
+								kind: SPAN_KIND[span.kind],
+								name: span.operation,
+								parentSpanId: span.parent_span_id ?? "",
+								spanId: span.span_id,
+								startTimeUnixNano: toNanos(span.start_time),
+								status: {
+									code: STATUS_CODE[span.status ?? "success"],
+									message: span.error ?? "",
+								},
+								traceId: span.trace_id,
+							})),
+						},
+					],
+				},
+			],
+		};
+	}
+
+	/**
+	 * Send buffered spans now. Failed batches are dropped.
+	 */
+	export async function flush(): Promise<void> {
+		const { endpoint, headers } = Config.config.tracing;
+		if (!endpoint || buffer.length === 0) {
+			return;
+		}
+		const spans = buffer;
+		buffer = [];
+
+		try {
+			const response = await fetch(
+				`${endpoint.replace(/\/+$/, "")}/v1/traces`,
+				{
+					body: JSON.stringify(toOtlp(spans)),
+					headers: { ...headers, "content-type": "application/json" },
+					method: "POST",
+					signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+				},
+			);
+			if (!response.ok) {
+				log.warn(
+					{ spans: spans.length, status: response.status },
+					"Collector rejected spans",
+				);
+			}
+		} catch (error) {
+			log.warn({ error, spans: spans.length }, "Failed to export spans");
+		}
+	}
+
+	export function start(): void {
+		timer = setInterval(flush, FLUSH_INTERVAL_MS);
+	}
+
+	export async function dispose(): Promise<void> {
+		if (timer) {
+			clearInterval(timer);
+			timer = undefined;
+		}
+		await flush();
+	}
+}
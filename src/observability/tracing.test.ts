@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { Tracing } from "./tracing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+describe("Tracing.parseTraceparent", () => {
+	test("reads the trace and parent span ids", () => {
+		expect(Tracing.parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+			spanId: SPAN_ID,
+			traceId: TRACE_ID,
+		});
+		// Unsampled parents and future versions are continued too
+		expect(
+			Tracing.parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`),
+		).not.toBeNull();
+		expect(
+			Tracing.parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01`),
+		).not.toBeNull();
+	});
+
+	test("accepts upper case and surrounding whitespace", () => {
+		expect(
+			Tracing.parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01 `),
+		).toEqual({ spanId: SPAN_ID, traceId: TRACE_ID });
+	});
+
+	test.each([
+		["missing", undefined],
+		["empty", ""],
+		["the invalid version ff", `ff-${TRACE_ID}-${SPAN_ID}-01`],
+		["an all-zero trace id", `00-${"0".repeat(32)}-${SPAN_ID}-01`],
+		["an all-zero span id", `00-${TRACE_ID}-${"0".repeat(16)}-01`],
+		["a short trace id", `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+		["a non-hex span id", `00-${TRACE_ID}-${SPAN_ID.slice(1)}g-01`],
+		["missing flags", `00-${TRACE_ID}-${SPAN_ID}`],
+	])("rejects %s headers", (_, header) => {
+		expect(Tracing.parseTraceparent(header)).toBeNull();
+	});
+});
+
+describe("Tracing.traceRequest", () => {
+	test("continues the caller's trace and returns its own span", async () => {
+		const set = { headers: {} as Record<string, string | number> };
+		const inner = await Tracing.traceRequest(
+			"GET /test",
+			{ headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` }, set },
+			async () => Tracing.current(),
+		);
+		expect(inner?.traceId).toBe(TRACE_ID);
+		expect(inner?.spanId).not.toBe(SPAN_ID);
+		expect(set.headers.traceparent).toBe(
+			Tracing.formatTraceparent(inner ?? { spanId: "", traceId: "" }),
+		);
+	});
+
+	test("starts a new trace without a valid traceparent", async () => {
+		const set = { headers: {} as Record<string, string | number> };
+		const inner = await Tracing.traceRequest(
+			"GET /test",
+			{ headers: { traceparent: "garbage" }, set },
+			async () => Tracing.current(),
+		);
+		expect(inner?.traceId).toMatch(/^[0-9a-f]{32}$/);
+		expect(inner?.traceId).not.toBe(TRACE_ID);
+	});
+});
@@ -1,16 +1,24 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { Log } from "./logger";
+import { OtlpExporter } from "./otlp";
 
 /**
  * Distributed tracing for performance monitoring
- * Tracks operation timing and creates spans for detailed performance analysis
+ * Tracks operation timing and creates spans for detailed performance analysis.
+ * Ids follow W3C Trace Context so traces can be continued from an incoming
+ * `traceparent` header and forwarded to workers; finished spans are logged
+ * and exported over OTLP when a collector is configured.
  */
 
 export namespace Tracing {
-	interface Span {
+	export type SpanKind = "internal" | "server" | "client";
+
+	export interface Span {
 		trace_id: string;
 		span_id: string;
 		parent_span_id?: string;
 		operation: string;
+		kind: SpanKind;
 		start_time: number;
 		end_time?: number;
 		duration_ms?: number;
@@ -19,10 +27,81 @@ export namespace Tracing {
 		error?: string;
 	}
 
+	/** The span a piece of async work runs under */
+	export interface SpanContext {
+		traceId: string;
+		spanId: string;
+	}
+
 	const activeSpans = new Map<string, Span>();
+	const context = new AsyncLocalStorage<SpanContext>();
+
+	const TRACEPARENT_PATTERN =
+		/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+	function randomHex(bytes: number): string {
+		return Buffer.from(crypto.getRandomValues(new Uint8Array(bytes))).toString(
+			"hex",
+		);
+	}
+
+	/**
+	 * Parse a W3C `traceparent` header.
+	 * @returns The remote parent span, or null when absent or malformed
+	 */
+	export function parseTraceparent(
+		header: string | null | undefined,
+	): SpanContext | null {
+		const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+		if (!match) {
+			return null;
+		}
+		const [, version, traceId, spanId] = match;
+		if (
+			version === "ff" ||
+			!traceId ||
+			!spanId ||
+			/^0+$/.test(traceId) ||
+			/^0+$/.test(spanId)
+		) {
+			return null;
+		}
+		return { spanId, traceId };
+	}
+
+	/**
+	 * Format a span as a `traceparent` header value (always sampled).
+	 */
+	export function formatTraceparent(span: SpanContext): string {
+		return `00-${span.traceId}-${span.spanId}-01`;
+	}
+
+	/** The span of the current async context, if any */
+	export function current(): SpanContext | undefined {
+		return context.getStore();
+	}
+
+	/**
+	 * A child logger carrying the current trace and span ids.
+	 */
+	export function logger(module: string) {
+		const span = current();
+		return Log.withTraceContext(span?.traceId, span?.spanId).child({ module });
+	}
+
+	/**
+	 * Merge metadata into the current span (e.g. a response status).
+	 */
+	export function annotate(metadata: Record<string, unknown>): void {
+		const spanId = current()?.spanId;
+		const span = spanId ? activeSpans.get(spanId) : undefined;
+		if (span) {
+			span.metadata = { ...span.metadata, ...metadata };
+		}
+	}
 
 	export function startTrace(operation: string) {
-		const traceId = Bun.randomUUIDv7();
+		const traceId = randomHex(16);
 
 		const spanId = startSpan({
 			operation,
@@ -36,6 +115,7 @@ export namespace Tracing {
 		operation: string;
 		traceId?: string;
 		parentSpanId?: string;
+		kind?: SpanKind;
 		metadata?: Record<string, unknown>;
 	}
 	export function startSpan({
@@ -43,12 +123,14 @@ export namespace Tracing {
 		metadata,
 		traceId,
 		parentSpanId,
+		kind = "internal",
 	}: StartSpanArg): string {
 		//
-		const spanId = Bun.randomUUIDv7();
-		traceId = traceId ?? Bun.randomUUIDv7();
+		const spanId = randomHex(8);
+		traceId = traceId ?? randomHex(16);
 
 		const span: Span = {
+			kind,
 			metadata,
 			operation,
 			parent_span_id: parentSpanId ?? undefined,
@@ -59,7 +141,7 @@ export namespace Tracing {
 
 		activeSpans.set(spanId, span);
 
-		Log.info(
+		Log.debug(
 			{
 				metadata,
 				operation,
@@ -93,7 +175,7 @@ export namespace Tracing {
 		span.error = error;
 
 		// Log the completed span
-		Log.info(
+		Log.debug(
 			{
 				duration_ms: span.duration_ms,
 				error: span.error,
@@ -107,19 +189,40 @@ export namespace Tracing {
 			`[SPAN] ${span.operation} span completed`,
 		);
 
+		OtlpExporter.enqueue(span);
+
 		// Clean up
 		activeSpans.delete(spanId);
 	}
 
+	interface TraceOptions {
+		/** Remote parent (from a traceparent header), used when no span is active */
+		parent?: SpanContext | null;
+		kind?: SpanKind;
+	}
+
+	/**
+	 * Run `fn` inside a new span. The span is a child of the current span, or
+	 * of `options.parent`, or starts a new trace.
+	 */
 	export async function trace<T>(
 		operation: string,
 		fn: () => Promise<T>,
 		metadata?: Record<string, unknown>,
+		options: TraceOptions = {},
 	): Promise<T> {
-		const spanId = startSpan({ metadata, operation });
+		const parent = current() ?? options.parent ?? undefined;
+		const spanId = startSpan({
+			kind: options.kind,
+			metadata,
+			operation,
+			parentSpanId: parent?.spanId,
+			traceId: parent?.traceId,
+		});
+		const traceId = activeSpans.get(spanId)?.trace_id ?? "";
 
 		try {
-			const result = await fn();
+			const result = await context.run({ spanId, traceId }, fn);
 			endSpan({
 				spanId,
 				status: "success",
@@ -135,6 +238,40 @@ export namespace Tracing {
 		}
 	}
 
+	/**
+	 * Trace an incoming HTTP request as a server span. Continues the caller's
+	 * trace from its `traceparent` header and returns ours in the response.
+	 */
+	export function traceRequest<T>(
+		operation: string,
+		{
+			headers,
+			set,
+		}: {
+			headers: Record<string, string | undefined>;
+			set: {
+				status?: number | string;
+				headers: Record<string, string | number>;
+			};
+		},
+		fn: () => Promise<T>,
+	): Promise<T> {
+		return trace(
+			operation,
+			async () => {
+				const span = current();
+				if (span) {
+					set.headers.traceparent = formatTraceparent(span);
+				}
+				const result = await fn();
+				annotate({ "http.status_code": set.status ?? 200 });
+				return result;
+			},
+			{},
+			{ kind: "server", parent: parseTraceparent(headers.traceparent) },
+		);
+	}
+
 	export function endTrace(traceId: string): void {
 		// Clean up any remaining spans for this trace
 		if (traceId) {
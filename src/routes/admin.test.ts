@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createApp } from "../app";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { Manager } from "../manager";
+import { type Worker, WorkerState } from "../workers";
+
+const TOKEN = "admin-secret";
+
+/** A worker entry without a process behind it */
+function fakeWorker(port: number): Worker {
+	const worker: Worker = {
+		acceptingRequests: true,
+		baseUrl: `http://127.0.0.1:${port}`,
+		consecutiveFailures: 0,
+		id: `worker_${port}_test`,
+		inFlight: 0,
+		lastHealthyAt: Date.now(),
+		pool: "default",
+		port,
+		process: undefined as unknown as Worker["process"],
+		recentLatencyMs: null,
+		requestCount: 0,
+		startedAt: Date.now(),
+		state: WorkerState.Healthy,
+	};
+	Manager.workers.set(worker.id, worker);
+	return worker;
+}
+
+function admin(
+	path: string,
+	{ body, token = TOKEN }: { body?: unknown; token?: string } = {},
+): Promise<Response> {
+	const headers: Record<string, string> = {
+		"content-type": "application/json",
+	};
+	if (token) {
+		headers.authorization = `Bearer ${token}`;
+	}
+	return createApp().handle(
+		new Request(`http://localhost/api/v1/admin${path}`, {
+			body: JSON.stringify(body ?? {}),
+			headers,
+			method: path.endsWith("/size") ? "PUT" : "POST",
+		}),
+	);
+}
+
+describe("admin API", () => {
+	const { admin: adminConfig } = Config.config;
+	const envToken = Bun.env.ADMIN_TOKEN;
+
+	// The admin token is loaded as a key with the admin scope
+	beforeEach(async () => {
+		delete Bun.env.ADMIN_TOKEN;
+		Config.config.admin = { token: TOKEN };
+		await Auth.reload();
+	});
+
+	afterEach(async () => {
+		Config.config.admin = adminConfig;
+		Bun.env.ADMIN_TOKEN = envToken;
+		if (envToken === undefined) {
+			delete Bun.env.ADMIN_TOKEN;
+		}
+		await Auth.reload();
+		Manager.resumeIntake();
+		Manager.workers.clear();
+	});
+
+	test("is disabled while no token is configured", async () => {
+		Config.config.admin = { token: "" };
+		await Auth.reload();
+		const response = await admin("/intake/pause");
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({ code: "ADMIN_DISABLED" });
+	});
+
+	test("refuses missing and wrong tokens", async () => {
+		for (const token of ["", "admin-secreT"]) {
+			const response = await admin("/intake/pause", { token });
+			expect(response.status).toBe(401);
+			expect(await response.json()).toMatchObject({ code: "UNAUTHORIZED" });
+		}
+		expect(Manager.getPoolStatus().pools[0]?.paused).toBe(false);
+	});
+
+	test("takes ADMIN_TOKEN over admin.token", async () => {
+		Bun.env.ADMIN_TOKEN = "from-env";
+		await Auth.reload();
+		expect((await admin("/intake/pause")).status).toBe(401);
+		expect((await admin("/intake/pause", { token: "from-env" })).status).toBe(
+			200,
+		);
+	});
+
+	test("drains and undrains a worker by port", async () => {
+		const worker = fakeWorker(45500);
+
+		const drained = await admin("/workers/45500/drain");
+		expect(drained.status).toBe(200);
+		expect(await drained.json()).toMatchObject({
+			success: true,
+			worker: { acceptingRequests: false, id: worker.id },
+		});
+		expect(worker.acceptingRequests).toBe(false);
+
+		await admin(`/workers/${worker.id}/undrain`);
+		expect(worker.acceptingRequests).toBe(true);
+	});
+
+	test("pauses and resumes intake", async () => {
+		const paused = await admin("/intake/pause", { body: { pool: "default" } });
+		expect(await paused.json()).toEqual({ paused: ["default"], success: true });
+		await expect(Manager.acquireWorker()).rejects.toThrow(
+			'Worker pool "default" is not accepting requests',
+		);
+
+		const resumed = await admin("/intake/resume");
+		expect(await resumed.json()).toEqual({
+			resumed: ["default"],
+			success: true,
+		});
+		expect(Manager.getPoolStatus().pools[0]?.paused).toBe(false);
+	});
+
+	test("maps control errors onto their status", async () => {
+		const missing = await admin("/workers/45999/kill");
+		expect(missing.status).toBe(404);
+		expect(await missing.json()).toMatchObject({
+			code: "WORKER_NOT_FOUND",
+			success: false,
+		});
+
+		const pool = await admin("/pools/medium/size", { body: { poolSize: 2 } });
+		expect(pool.status).toBe(404);
+		expect(await pool.json()).toMatchObject({ code: "POOL_NOT_FOUND" });
+	});
+});
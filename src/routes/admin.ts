@@ -0,0 +1,256 @@
+import type { Elysia } from "elysia";
+import { t } from "elysia";
+import { Manager, WorkerControlError } from "../manager";
+import { Log } from "../observability/logger";
+import { requireScope } from "./auth";
+
+const log = Log.child({ module: "routes.admin" });
+
+const WorkerParamsSchema = t.Object({
+	worker: t.String({ description: "Worker id or port" }),
+});
+
+const PoolParamsSchema = t.Object({
+	pool: t.String({ description: "Worker pool name" }),
+});
+
+const RestartRequestSchema = t.Optional(
+	t.Object({
+		immediate: t.Optional(
+			t.Boolean({
+				default: false,
+				description:
+					"Replace right away instead of waiting for in-flight requests (up to the pool's drainTimeoutMs) first",
+			}),
+		),
+	}),
+);
+
+const SpawnRequestSchema = t.Optional(
+	t.Object({
+		port: t.Optional(
+			t.Integer({
+				description: "Port to spawn on, defaults to the first free pool port",
+			}),
+		),
+	}),
+);
+
+const ResizeRequestSchema = t.Object({
+	poolSize: t.Integer({ minimum: 0 }),
+});
+
+const IntakeRequestSchema = t.Optional(
+	t.Object({
+		pool: t.Optional(
+			t.String({ description: "Pool to pause/resume, defaults to all" }),
+		),
+	}),
+);
+
+// Status codes for worker control failures
+const CONTROL_ERROR_STATUS: Record<WorkerControlError["code"], number> = {
+	INVALID_POOL_SIZE: 400,
+	NO_FREE_PORT: 409,
+	POOL_NOT_FOUND: 404,
+	PORT_CONFLICT: 409,
+	PORT_IN_USE: 409,
+	PORT_OUT_OF_RANGE: 400,
+	SPAWN_FAILED: 500,
+	WORKER_NOT_FOUND: 404,
+};
+
+/**
+ * Run an admin action, mapping WorkerControlError onto its HTTP status.
+ */
+async function control<T>(
+	action: string,
+	set: { status?: number | string },
+	fn: () => T | Promise<T>,
+) {
+	try {
+		return { success: true, ...(await fn()) };
+	} catch (error) {
+		if (error instanceof WorkerControlError) {
+			set.status = CONTROL_ERROR_STATUS[error.code];
+			return { code: error.code, error: error.message, success: false };
+		}
+		log.error({ action, error }, "Admin action failed");
+		set.status = 500;
+		return {
+			code: "ADMIN_ACTION_FAILED",
+			error: error instanceof Error ? error.message : "Unknown error",
+			success: false,
+		};
+	}
+}
+
+/**
+ * Authenticated routes to control workers and pools at runtime.
+ */
+export function registerAdminRoutes(app: Elysia): void {
+	// API keys with the admin scope, or admin.token
+	const requireAdmin = requireScope("admin");
+	const detail = (summary: string, description: string) => ({
+		description,
+		security: [{ bearerAuth: [] }],
+		summary,
+		tags: ["Admin"],
+	});
+
+	app
+		.post(
+			"/api/v1/admin/workers/:worker/drain",
+			({ params, set }) =>
+				control("drain", set, () => {
+					const worker = Manager.findWorker(params.worker);
+					Manager.drainWorker(worker);
+					return { worker: Manager.describeWorker(worker) };
+				}),
+			{
+				beforeHandle: requireAdmin,
+				detail: detail(
+					"Drain a worker",
+					"Stop routing new requests to a worker; in-flight requests finish",
+				),
+				params: WorkerParamsSchema,
+			},
+		)
+
+		.post(
+			"/api/v1/admin/workers/:worker/undrain",
+			({ params, set }) =>
+				control("undrain", set, () => {
+					const worker = Manager.findWorker(params.worker);
+					Manager.undrainWorker(worker);
+					return { worker: Manager.describeWorker(worker) };
+				}),
+			{
+				beforeHandle: requireAdmin,
+				detail: detail(
+					"Undrain a worker",
+					"Route requests to a drained worker again",
+				),
+				params: WorkerParamsSchema,
+			},
+		)
+
+		.post(
+			"/api/v1/admin/workers/:worker/restart",
+			({ body, params, set }) =>
+				control("restart", set, async () => {
+					const worker = Manager.findWorker(params.worker);
+					log.info(
+						{ immediate: body?.immediate ?? false, workerId: worker.id },
+						"Admin restart requested",
+					);
+					const restarted = await Manager.restartWorker(
+						worker,
+						body?.immediate ?? false,
+					);
+					if (!restarted) {
+						throw new WorkerControlError(
+							"SPAWN_FAILED",
+							`Replacement for worker ${worker.id} failed to start, see its log`,
+						);
+					}
+					return { worker: Manager.describeWorker(restarted) };
+				}),
+			{
+				beforeHandle: requireAdmin,
+				body: RestartRequestSchema,
+				detail: detail(
+					"Restart a worker",
+					"Replace a worker with a fresh process on the same port",
+				),
+				params: WorkerParamsSchema,
+			},
+		)
+
+		.post(
+			"/api/v1/admin/workers/:worker/kill",
+			({ params, set }) =>
+				control("kill", set, async () => {
+					const worker = Manager.findWorker(params.worker);
+					await Manager.killWorker(worker);
+					return { worker: Manager.describeWorker(worker) };
+				}),
+			{
+				beforeHandle: requireAdmin,
+				detail: detail(
+					"Kill a worker",
+					"Kill a worker process immediately without replacing it",
+				),
+				params: WorkerParamsSchema,
+			},
+		)
+
+		.post(
+			"/api/v1/admin/pools/:pool/workers",
+			({ body, params, set }) =>
+				control("spawn", set, async () => {
+					const worker = await Manager.addWorker(params.pool, body?.port);
+					return { worker: Manager.describeWorker(worker) };
+				}),
+			{
+				beforeHandle: requireAdmin,
+				body: SpawnRequestSchema,
+				detail: detail(
+					"Spawn a worker",
+					"Start a worker on a free port of the pool and wait until it is healthy",
+				),
+				params: PoolParamsSchema,
+			},
+		)
+
+		.put(
+			"/api/v1/admin/pools/:pool/size",
+			({ body, params, set }) =>
+				control("resize", set, async () => {
+					await Manager.resizePool(params.pool, body.poolSize);
+					return {
+						pool: Manager.getPoolStatus().pools.find(
+							(p) => p.name === params.pool,
+						),
+					};
+				}),
+			{
+				beforeHandle: requireAdmin,
+				body: ResizeRequestSchema,
+				detail: detail(
+					"Resize a pool",
+					"Change a pool's size until the next config reload (within minWorkers..maxWorkers for autoscaled pools)",
+				),
+				params: PoolParamsSchema,
+			},
+		)
+
+		.post(
+			"/api/v1/admin/intake/pause",
+			({ body, set }) =>
+				control("pause", set, () => ({
+					paused: Manager.pauseIntake(body?.pool),
+				})),
+			{
+				beforeHandle: requireAdmin,
+				body: IntakeRequestSchema,
+				detail: detail(
+					"Pause intake",
+					"Reject new requests with 503 until intake is resumed",
+				),
+			},
+		)
+
+		.post(
+			"/api/v1/admin/intake/resume",
+			({ body, set }) =>
+				control("resume", set, () => ({
+					resumed: Manager.resumeIntake(body?.pool),
+				})),
+			{
+				beforeHandle: requireAdmin,
+				body: IntakeRequestSchema,
+				detail: detail("Resume intake", "Accept new requests again"),
+			},
+		);
+}
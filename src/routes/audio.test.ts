@@ -0,0 +1,144 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import { createApp } from "../app";
+import { Audio } from "../audio";
+import { AudioStore } from "../audio/store";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { History } from "../history";
+import { Manager, type TranscriptionResult } from "../manager";
+
+const wav = () =>
+	new File([Audio.encodeWav(new Float32Array(160))], "meeting.wav");
+
+function request(
+	path: string,
+	key: string,
+	method: "GET" | "POST" = "GET",
+): Promise<Response> {
+	return createApp().handle(
+		new Request(`http://localhost/api/v1/transcriptions/${path}`, {
+			headers: { authorization: `Bearer ${key}` },
+			method,
+		}),
+	);
+}
+
+describe("retained audio", () => {
+	const { auth } = Config.config;
+
+	beforeAll(async () => {
+		History.init();
+		AudioStore.init();
+		Config.config.auth = {
+			keys: [
+				{ name: "alice", scopes: ["read"], sha256: Auth.hashKey("key-a") },
+				{ name: "bob", scopes: ["read"], sha256: Auth.hashKey("key-b") },
+				{
+					name: "ops",
+					scopes: ["admin", "read"],
+					sha256: Auth.hashKey("key-ops"),
+				},
+			],
+			keysFile: "",
+		};
+		await Auth.reload();
+	});
+
+	afterAll(async () => {
+		History.dispose();
+		AudioStore.dispose();
+		Config.config.auth = auth;
+		await Auth.reload();
+	});
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	test("is downloaded by the key that submitted it", async () => {
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		await AudioStore.save(id, wav(), { owner: "alice" });
+
+		const response = await request(`${id}/audio`, "key-a");
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("audio/wav");
+		expect(response.headers.get("content-disposition")).toBe(
+			'attachment; filename="meeting.wav"',
+		);
+		expect((await response.arrayBuffer()).byteLength).toBe(wav().size);
+
+		const other = await request(`${id}/audio`, "key-b");
+		expect(other.status).toBe(404);
+		expect(await other.json()).toMatchObject({ code: "AUDIO_NOT_FOUND" });
+		expect((await request(`${id}/audio`, "key-ops")).status).toBe(200);
+	});
+
+	test("is replayed with its original options and compared", async () => {
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		const options = {
+			language: "de",
+			metadata: { source: "mobile" },
+			owner: "alice",
+			pool: "default",
+		};
+		await AudioStore.save(id, wav(), options);
+		History.record({
+			createdAt: Date.now(),
+			id,
+			...options,
+			result: {
+				confidence: 1,
+				duration: 0.01,
+				language: "de",
+				metadata: {},
+				provider: "whisper-server",
+				segments: [],
+				text: "Hallo Welt",
+			},
+		});
+		const replayed: TranscriptionResult = {
+			confidence: 1,
+			duration: 0.01,
+			language: "de",
+			metadata: {},
+			provider: "whisper-server",
+			segments: [],
+			text: "Hallo Wald",
+		};
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(replayed);
+
+		// Replaying takes the admin scope
+		expect((await request(`${id}/replay`, "key-a", "POST")).status).toBe(403);
+
+		const response = await request(`${id}/replay`, "key-ops", "POST");
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			comparison: { identical: false, wordErrorRate: 0.5 },
+			original: { pool: "default", status: "succeeded", text: "Hallo Welt" },
+			result: { text: "Hallo Wald" },
+			success: true,
+		});
+		const [audio, sent] = transcribe.mock.calls[0] ?? [];
+		expect((audio as File).name).toBe("meeting.wav");
+		expect(sent).toEqual({
+			cache: "bypass",
+			language: "de",
+			metadata: { replay_of: id, source: "mobile" },
+			owner: "alice",
+			pool: "default",
+			retainAudio: false,
+		});
+
+		const missing = await request("tr_missing/replay", "key-ops", "POST");
+		expect(missing.status).toBe(404);
+	});
+});
@@ -0,0 +1,223 @@
+import type { Elysia } from "elysia";
+import { t } from "elysia";
+import { AudioStore } from "../audio/store";
+import { Auth } from "../auth";
+import { History } from "../history";
+import { Manager, WorkerUnavailableError } from "../manager";
+import { Tracing } from "../observability/tracing";
+import { requireScope } from "./auth";
+import { ErrorResponseSchema, TranscriptionResultSchema } from "./schemas";
+
+const ReplayRequestSchema = t.Optional(
+	t.Object({
+		model: t.Optional(
+			t.String({ description: "Model name or alias, routes to its pool" }),
+		),
+		pool: t.Optional(
+			t.String({
+				description: "Worker pool to use, defaults to the original pool",
+			}),
+		),
+	}),
+);
+
+const ReplayResponseSchema = t.Object({
+	comparison: t.Nullable(
+		t.Object({
+			identical: t.Boolean(),
+			wordErrorRate: t.Number(),
+		}),
+	),
+	original: t.Nullable(
+		t.Object({
+			language: t.Nullable(t.String()),
+			pool: t.Nullable(t.String()),
+			status: t.String(),
+			text: t.String(),
+			workerId: t.Nullable(t.String()),
+		}),
+	),
+	result: TranscriptionResultSchema,
+	success: t.Boolean(),
+});
+
+/**
+ * Word error rate of a transcript against a reference: word-level edit
+ * distance over the number of reference words (case and punctuation ignored).
+ */
+function wordErrorRate(reference: string, hypothesis: string): number {
+	const words = (text: string) =>
+		text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+	const ref = words(reference);
+	const hyp = words(hypothesis);
+	if (ref.length === 0) {
+		return hyp.length === 0 ? 0 : 1;
+	}
+	// Single-row Levenshtein distance
+	let previous = Array.from({ length: hyp.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= ref.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= hyp.length; j++) {
+			current[j] = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + (ref[i - 1] === hyp[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return (previous[hyp.length] ?? 0) / ref.length;
+}
+
+/**
+ * Download and replay retained audio (see AudioStore).
+ */
+export function registerAudioRoutes(app: Elysia): void {
+	const notFound = (id: string, set: { status?: number | string }) => {
+		set.status = 404;
+		return {
+			code: "AUDIO_NOT_FOUND",
+			error: `No audio retained for transcription ${id}`,
+			success: false,
+		};
+	};
+
+	app
+		.get(
+			"/api/v1/transcriptions/:id/audio",
+			async ({ headers, params, set }) => {
+				const clip = AudioStore.get(params.id);
+				const file = AudioStore.file(params.id);
+				// Other clients' audio is as good as missing
+				const apiKey = Auth.identify(headers.authorization);
+				if (
+					!clip ||
+					!Auth.mayAccess(apiKey, clip.owner) ||
+					!(await file.exists())
+				) {
+					return notFound(params.id, set);
+				}
+				set.headers["content-type"] = clip.type;
+				set.headers["content-disposition"] =
+					`attachment; filename="${clip.filename.replaceAll('"', "")}"`;
+				return file;
+			},
+			{
+				beforeHandle: requireScope("read"),
+				detail: {
+					description:
+						"Download the audio submitted for a transcription, when it was retained (audio.retain or `retain_audio`). API keys without the admin scope only get the audio they submitted.",
+					security: [{ bearerAuth: [] }],
+					summary: "Download retained audio",
+					tags: ["History"],
+				},
+				params: t.Object({ id: t.String() }),
+			},
+		)
+
+		.post(
+			"/api/v1/transcriptions/:id/replay",
+			({ body, headers, params, set }) =>
+				Tracing.traceRequest(
+					"POST /api/v1/transcriptions/:id/replay",
+					{ headers, set },
+					async () => {
+						const clip = AudioStore.get(params.id);
+						const file = AudioStore.file(params.id);
+						if (!clip || !(await file.exists())) {
+							return notFound(params.id, set);
+						}
+
+						const requested = body?.model || body?.pool;
+						const pool = requested
+							? Manager.resolvePool({ model: body?.model, pool: body?.pool })
+							: (Manager.resolvePool({ pool: clip.options.pool }) ??
+								Manager.resolvePool({}));
+						if (pool === null) {
+							set.status = 400;
+							return {
+								code: "UNKNOWN_MODEL",
+								error: `No worker pool serves ${body?.pool ? `pool "${body.pool}"` : `model "${body?.model}"`}`,
+								success: false,
+							};
+						}
+
+						const original = History.get(params.id);
+						try {
+							const result = await Manager.transcribe(
+								new File([await file.arrayBuffer()], clip.filename, {
+									type: clip.type,
+								}),
+								{
+									...clip.options,
+									// The point is a fresh run, maybe on another model
+									cache: "bypass",
+									metadata: { ...clip.options.metadata, replay_of: clip.id },
+									owner: clip.owner ?? undefined,
+									pool,
+									retainAudio: false,
+								},
+							);
+							return {
+								comparison:
+									original?.status === "succeeded"
+										? {
+												identical: original.text.trim() === result.text.trim(),
+												wordErrorRate: wordErrorRate(
+													original.text,
+													result.text,
+												),
+											}
+										: null,
+								original: original && {
+									language: original.language,
+									pool: original.pool,
+									status: original.status,
+									text: original.text,
+									workerId: original.workerId,
+								},
+								result,
+								success: true,
+							};
+						} catch (error) {
+							if (error instanceof WorkerUnavailableError) {
+								set.status = 503;
+								set.headers["retry-after"] = String(error.retryAfterSeconds);
+								return {
+									code: error.code,
+									error: error.message,
+									success: false,
+								};
+							}
+							set.status = 500;
+							return {
+								code: "TRANSCRIPTION_ERROR",
+								error: error instanceof Error ? error.message : "Unknown error",
+								success: false,
+							};
+						}
+					},
+				),
+			{
+				beforeHandle: requireScope("admin"),
+				body: ReplayRequestSchema,
+				detail: {
+					description:
+						"Transcribe retained audio again with its original options, on its original pool or the given model/pool, bypassing the result cache. Returns the new result next to the original one with their word error rate, e.g. to compare models.",
+					security: [{ bearerAuth: [] }],
+					summary: "Replay retained audio",
+					tags: ["History"],
+				},
+				params: t.Object({ id: t.String() }),
+				response: {
+					200: ReplayResponseSchema,
+					400: ErrorResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+					404: ErrorResponseSchema,
+					500: ErrorResponseSchema,
+					503: ErrorResponseSchema,
+				},
+			},
+		);
+}
@@ -0,0 +1,47 @@
+import { AUTH_ERROR_STATUS, Auth, AuthError } from "../auth";
+import type { ApiScope } from "../config";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "routes.auth" });
+
+type Set = {
+	status?: number | string;
+	headers: Record<string, string | number>;
+};
+
+/**
+ * Check a bearer token against a scope.
+ * @returns An error response (401/403) to send, undefined when allowed
+ */
+export function rejectUnauthorized(
+	authorization: string | undefined,
+	scope: ApiScope,
+	set: Set,
+) {
+	try {
+		Auth.authorize(authorization, scope);
+	} catch (error) {
+		if (!(error instanceof AuthError)) {
+			throw error;
+		}
+		log.warn({ code: error.code, scope }, "Request rejected");
+		set.status = AUTH_ERROR_STATUS[error.code];
+		if (error.code === "UNAUTHORIZED") {
+			set.headers["www-authenticate"] = "Bearer";
+		}
+		return { code: error.code, error: error.message, success: false };
+	}
+}
+
+/**
+ * beforeHandle guard requiring `Authorization: Bearer <key>` with a scope.
+ */
+export function requireScope(scope: ApiScope) {
+	return ({
+		headers,
+		set,
+	}: {
+		headers: Record<string, string | undefined>;
+		set: Set;
+	}) => rejectUnauthorized(headers.authorization, scope, set);
+}
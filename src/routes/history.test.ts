@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createApp } from "../app";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { History } from "../history";
+
+function get(path: string, key?: string): Promise<Response> {
+	return createApp().handle(
+		new Request(`http://localhost${path}`, {
+			headers: key ? { authorization: `Bearer ${key}` } : {},
+		}),
+	);
+}
+
+describe("transcription history", () => {
+	const { auth } = Config.config;
+	// Records of other tests share the database, so each test tags its own
+	let run: string;
+
+	/** Store a transcription of a text, a failure without one */
+	function store(text: string | null, owner?: string): string {
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		History.record({
+			createdAt: Date.now(),
+			error: text === null ? new Error("worker died") : undefined,
+			id,
+			metadata: { run },
+			owner,
+			pool: "default",
+			result:
+				text === null
+					? undefined
+					: {
+							confidence: 1,
+							duration: 1.5,
+							language: "en",
+							metadata: {},
+							provider: "whisper-server",
+							segments: [
+								{ confidence: null, end: 1.5, speaker: null, start: 0, text },
+							],
+							text,
+						},
+		});
+		return id;
+	}
+
+	beforeEach(() => {
+		History.init();
+		run = Bun.randomUUIDv7();
+	});
+
+	afterEach(async () => {
+		History.dispose();
+		Config.config.auth = auth;
+		await Auth.reload();
+	});
+
+	test("lists the records matching the query", async () => {
+		store("The quick brown fox");
+		store("A lazy dog");
+
+		const response = await get(
+			`/api/v1/transcriptions?metadata=run:${run}&q=fox`,
+		);
+		expect(response.status).toBe(200);
+		const body = (await response.json()) as {
+			records: { metadata: Record<string, string>; text: string }[];
+			total: number;
+		};
+		expect(body.total).toBe(1);
+		expect(body.records[0]).toMatchObject({
+			metadata: { run },
+			text: "The quick brown fox",
+		});
+
+		const invalid = await get("/api/v1/transcriptions?from=yesterday");
+		expect(invalid.status).toBe(400);
+		expect(await invalid.json()).toMatchObject({ code: "INVALID_QUERY" });
+	});
+
+	test("serves a record by its transcription id", async () => {
+		const id = store("Hello");
+
+		const response = await get(`/api/v1/transcriptions/${id}`);
+		expect(await response.json()).toMatchObject({
+			record: {
+				id,
+				segments: [
+					{
+						confidence: null,
+						end: 1.5,
+						speaker: null,
+						start: 0,
+						text: "Hello",
+					},
+				],
+				status: "succeeded",
+				text: "Hello",
+			},
+			success: true,
+		});
+		const srt = await get(`/api/v1/transcriptions/${id}?format=srt`);
+		expect(await srt.text()).toBe("1\n00:00:00,000 --> 00:00:01,500\nHello\n");
+
+		const failed = await get(
+			`/api/v1/transcriptions/${store(null)}?format=srt`,
+		);
+		expect(failed.status).toBe(409);
+		expect(await failed.json()).toMatchObject({ code: "TRANSCRIPTION_FAILED" });
+
+		const missing = await get("/api/v1/transcriptions/tr_missing");
+		expect(missing.status).toBe(404);
+		expect(await missing.json()).toMatchObject({
+			code: "TRANSCRIPTION_NOT_FOUND",
+		});
+	});
+
+	test("keeps records to the key that submitted them", async () => {
+		Config.config.auth = {
+			keys: [
+				{ name: "alice", scopes: ["read"], sha256: Auth.hashKey("key-a") },
+				{ name: "bob", scopes: ["read"], sha256: Auth.hashKey("key-b") },
+				{
+					name: "ops",
+					scopes: ["admin", "read"],
+					sha256: Auth.hashKey("key-ops"),
+				},
+			],
+			keysFile: "",
+		};
+		await Auth.reload();
+		const id = store("Hello", "alice");
+		const list = async (key: string) => {
+			const response = await get(
+				`/api/v1/transcriptions?metadata=run:${run}`,
+				key,
+			);
+			return ((await response.json()) as { total: number }).total;
+		};
+
+		expect((await get(`/api/v1/transcriptions/${id}`, "key-a")).status).toBe(
+			200,
+		);
+		for (const path of [id, `${id}?format=srt`]) {
+			const other = await get(`/api/v1/transcriptions/${path}`, "key-b");
+			expect(other.status).toBe(404);
+			expect(await other.json()).toMatchObject({
+				code: "TRANSCRIPTION_NOT_FOUND",
+			});
+		}
+		expect(await list("key-a")).toBe(1);
+		expect(await list("key-b")).toBe(0);
+
+		// Admin keys see every record
+		expect((await get(`/api/v1/transcriptions/${id}`, "key-ops")).status).toBe(
+			200,
+		);
+		expect(await list("key-ops")).toBe(1);
+	});
+});
@@ -0,0 +1,236 @@
+import type { Elysia } from "elysia";
+import { t } from "elysia";
+import { AudioStore } from "../audio/store";
+import { Auth } from "../auth";
+import {
+	History,
+	type HistoryFilter,
+	type TranscriptionRecord,
+} from "../history";
+import { requireScope } from "./auth";
+import { ErrorResponseSchema, TranscriptionSegmentSchema } from "./schemas";
+
+const HistoryFilterSchema = {
+	from: t.Optional(
+		t.String({ description: "Completed at or after (ISO 8601 date/time)" }),
+	),
+	metadata: t.Optional(
+		t.Union([t.String(), t.Array(t.String())], {
+			description:
+				"Metadata entry as key:value, repeat to require several (e.g. customer:acme)",
+		}),
+	),
+	q: t.Optional(
+		t.String({ description: "Words that must all appear in the text" }),
+	),
+	// Not a UnionEnum, which Elysia would default to its first value
+	status: t.Optional(t.Union([t.Literal("succeeded"), t.Literal("failed")])),
+	to: t.Optional(t.String({ description: "Completed before (ISO 8601)" })),
+};
+
+const HistoryListQuerySchema = t.Object({
+	...HistoryFilterSchema,
+	limit: t.Optional(t.Numeric({ default: 50, maximum: 500, minimum: 1 })),
+	offset: t.Optional(t.Numeric({ default: 0, minimum: 0 })),
+});
+
+export const HistoryRecordSchema = t.Object({
+	completedAt: t.String(),
+	duration: t.Nullable(t.Number()),
+	error: t.Nullable(t.String()),
+	id: t.String(),
+	language: t.Nullable(t.String()),
+	metadata: t.Record(t.String(), t.String()),
+	owner: t.Nullable(t.String()),
+	pool: t.Nullable(t.String()),
+	processingMs: t.Number(),
+	segments: t.Array(TranscriptionSegmentSchema),
+	status: t.String(),
+	submittedAt: t.String(),
+	text: t.String(),
+	traceId: t.Nullable(t.String()),
+	workerId: t.Nullable(t.String()),
+});
+
+const HistoryListResponseSchema = t.Object({
+	limit: t.Number(),
+	offset: t.Number(),
+	records: t.Array(HistoryRecordSchema),
+	success: t.Boolean(),
+	total: t.Number(),
+});
+
+const HistoryDeleteResponseSchema = t.Object({
+	deleted: t.Number(),
+	success: t.Boolean(),
+});
+
+type HistoryFilterQuery = {
+	from?: string;
+	metadata?: string | string[];
+	q?: string;
+	status?: "succeeded" | "failed";
+	to?: string;
+};
+
+/**
+ * Turn query parameters into a history filter.
+ * @returns The filter, or a message describing the invalid parameter
+ */
+function parseFilter(query: HistoryFilterQuery): HistoryFilter | string {
+	const filter: HistoryFilter = { search: query.q, status: query.status };
+	for (const name of ["from", "to"] as const) {
+		const value = query[name];
+		if (value !== undefined) {
+			const time = Date.parse(value);
+			if (Number.isNaN(time)) {
+				return `${name} must be an ISO 8601 date/time`;
+			}
+			filter[name] = time;
+		}
+	}
+	const entries = [query.metadata ?? []].flat();
+	if (entries.length > 0) {
+		filter.metadata = {};
+		for (const entry of entries) {
+			const separator = entry.indexOf(":");
+			if (separator <= 0) {
+				return `metadata must be key:value, got "${entry}"`;
+			}
+			filter.metadata[entry.slice(0, separator)] = entry.slice(separator + 1);
+		}
+	}
+	return filter;
+}
+
+export function toRecordView(record: TranscriptionRecord) {
+	const { createdAt, completedAt, ...rest } = record;
+	return {
+		...rest,
+		completedAt: new Date(completedAt).toISOString(),
+		submittedAt: new Date(createdAt).toISOString(),
+	};
+}
+
+/**
+ * Query and delete the transcription history.
+ */
+export function registerHistoryRoutes(app: Elysia): void {
+	const invalidQuery = (error: string, set: { status?: number | string }) => {
+		set.status = 400;
+		return { code: "INVALID_QUERY", error, success: false };
+	};
+
+	app
+		.get(
+			"/api/v1/transcriptions",
+			({ headers, query, set }) => {
+				const filter = parseFilter(query);
+				if (typeof filter === "string") {
+					return invalidQuery(filter, set);
+				}
+				// Keys without the admin scope only see their own records
+				const owner = Auth.ownerScope(Auth.identify(headers.authorization));
+				if (owner !== null) {
+					filter.owner = owner;
+				}
+				const limit = query.limit ?? 50;
+				const offset = query.offset ?? 0;
+				const { records, total } = History.list(filter, { limit, offset });
+				return {
+					limit,
+					offset,
+					records: records.map(toRecordView),
+					success: true,
+					total,
+				};
+			},
+			{
+				beforeHandle: requireScope("read"),
+				detail: {
+					description:
+						"List finished transcriptions, most recent first, filtered by completion time, status, metadata entries and words in the text. API keys without the admin scope only see the transcriptions they submitted.",
+					security: [{ bearerAuth: [] }],
+					summary: "List transcription history",
+					tags: ["History"],
+				},
+				query: HistoryListQuerySchema,
+				response: {
+					200: HistoryListResponseSchema,
+					400: ErrorResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+				},
+			},
+		)
+
+		.delete(
+			"/api/v1/transcriptions",
+			async ({ query, set }) => {
+				const filter = parseFilter(query);
+				if (typeof filter === "string") {
+					return invalidQuery(filter, set);
+				}
+				if (History.selectsAll(filter)) {
+					return invalidQuery(
+						"Give at least one filter, the whole history is never deleted at once",
+						set,
+					);
+				}
+				const deleted = History.remove(filter);
+				await AudioStore.remove(deleted);
+				return { deleted: deleted.length, success: true };
+			},
+			{
+				beforeHandle: requireScope("admin"),
+				detail: {
+					description:
+						"Delete the transcriptions matching the same filters as the list (at least one is required), along with their retained audio.",
+					security: [{ bearerAuth: [] }],
+					summary: "Delete transcription history",
+					tags: ["History"],
+				},
+				query: t.Object(HistoryFilterSchema),
+				response: {
+					200: HistoryDeleteResponseSchema,
+					400: ErrorResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+				},
+			},
+		)
+
+		.delete(
+			"/api/v1/transcriptions/:id",
+			async ({ params, set }) => {
+				const deleted = History.remove({ id: params.id });
+				await AudioStore.remove(deleted);
+				if (deleted.length === 0) {
+					set.status = 404;
+					return {
+						code: "TRANSCRIPTION_NOT_FOUND",
+						error: `Transcription ${params.id} not found`,
+						success: false,
+					};
+				}
+				return { deleted: deleted.length, success: true };
+			},
+			{
+				beforeHandle: requireScope("admin"),
+				detail: {
+					description:
+						"Delete one transcription from the history, along with its retained audio",
+					security: [{ bearerAuth: [] }],
+					summary: "Delete a transcription",
+					tags: ["History"],
+				},
+				params: t.Object({ id: t.String() }),
+				response: {
+					200: HistoryDeleteResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+					404: ErrorResponseSchema,
+				},
+			},
+		);
+}
@@ -0,0 +1,451 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import { createApp } from "../app";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { JobStatus, Jobs } from "../jobs";
+import {
+	Manager,
+	type TranscriptionResult,
+	WorkerRequestError,
+	WorkerUnavailableError,
+} from "../manager";
+
+const result: TranscriptionResult = {
+	confidence: 1,
+	duration: 1.5,
+	language: "en",
+	metadata: {},
+	provider: "whisper-server",
+	segments: [
+		{ confidence: null, end: 1.5, speaker: null, start: 0, text: "Hello" },
+	],
+	text: "Hello",
+};
+
+// 16 kHz mono 16-bit PCM: 16 samples of silence
+const WAV =
+	"UklGRkQAAABXQVZFZm10IBAAAAABAAEAgD4AAAB9AAACABAAZGF0YSAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==";
+
+function get(
+	path: string,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	return createApp().handle(
+		new Request(`http://localhost${path}`, { headers }),
+	);
+}
+
+function post(
+	body: FormData | object,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	return createApp().handle(
+		new Request("http://localhost/api/v1/transcriptions", {
+			method: "POST",
+			...(body instanceof FormData
+				? { body, headers }
+				: {
+						body: JSON.stringify(body),
+						headers: { "Content-Type": "application/json", ...headers },
+					}),
+		}),
+	);
+}
+
+describe("POST /api/v1/transcriptions", () => {
+	const pools = Config.config.pools;
+
+	afterEach(() => {
+		Config.config.pools = pools;
+		mock.restore();
+	});
+
+	test("transcribes a multipart file upload", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+		const form = new FormData();
+		form.append("file", new File([new Uint8Array(64)], "recording.wav"));
+		form.append("language", "de");
+		form.append("timestamps", "false");
+		form.append("metadata", JSON.stringify({ source: "mobile" }));
+
+		const response = await post(form);
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({
+			message: "Transcription completed successfully",
+			result,
+			success: true,
+		});
+
+		const [audio, options] = transcribe.mock.calls[0] ?? [];
+		expect(audio).toBeInstanceOf(File);
+		expect((audio as File).name).toBe("recording.wav");
+		expect((audio as File).size).toBe(64);
+		expect(options).toEqual({
+			language: "de",
+			metadata: { source: "mobile" },
+			pool: "default",
+			timestamps: false,
+		});
+	});
+
+	test("still takes base64 content in a JSON body", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post({ content: "UklGRg==", metadata: { a: "b" } });
+		expect(response.status).toBe(200);
+		expect(transcribe).toHaveBeenCalledWith("UklGRg==", {
+			language: undefined,
+			metadata: { a: "b" },
+			pool: "default",
+			timestamps: true,
+		});
+	});
+
+	test("renders the result in the requested format", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post({
+			content: "UklGRg==",
+			response_format: "srt",
+			timestamps: false,
+		});
+		expect(response.headers.get("content-type")).toStartWith(
+			"application/x-subrip",
+		);
+		expect(await response.text()).toBe(
+			"1\n00:00:00,000 --> 00:00:01,500\nHello\n",
+		);
+		// Subtitles need the segment timings
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({ timestamps: true });
+	});
+
+	test.each([
+		"not json",
+		"[]",
+		JSON.stringify({ count: 1 }),
+	])("refuses the upload metadata %s", async (metadata) => {
+		const transcribe = spyOn(Manager, "transcribe");
+		const form = new FormData();
+		form.append("file", new File([new Uint8Array(64)], "recording.wav"));
+		form.append("metadata", metadata);
+
+		const response = await post(form);
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ code: "INVALID_METADATA" });
+		expect(transcribe).not.toHaveBeenCalled();
+	});
+
+	test("routes the model to the pool serving it", async () => {
+		Config.config.pools = {
+			large: { aliases: ["large-v3"] },
+			small: {},
+		};
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post({ content: "UklGRg==", model: "large-v3" });
+		expect(response.status).toBe(200);
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({ pool: "large" });
+
+		const unknown = await post({ content: "UklGRg==", model: "tiny" });
+		expect(unknown.status).toBe(400);
+		expect(await unknown.json()).toEqual({
+			code: "UNKNOWN_MODEL",
+			error: 'No worker pool serves model "tiny"',
+			success: false,
+		});
+		const pool = await post({ content: "UklGRg==", pool: "medium" });
+		expect(await pool.json()).toMatchObject({
+			error: 'No worker pool serves pool "medium"',
+		});
+		expect(transcribe).toHaveBeenCalledTimes(1);
+	});
+
+	test("answers 503 with Retry-After while no worker is free", async () => {
+		spyOn(Manager, "transcribe").mockRejectedValue(
+			new WorkerUnavailableError("QUEUE_FULL", "Queue is full", 7),
+		);
+
+		const response = await post({ content: "UklGRg==" });
+		expect(response.status).toBe(503);
+		expect(response.headers.get("retry-after")).toBe("7");
+		expect(await response.json()).toEqual({
+			code: "QUEUE_FULL",
+			error: "Queue is full",
+			success: false,
+		});
+	});
+
+	test("refuses audio in an unsupported format before taking a worker", async () => {
+		const response = await post({
+			content: Buffer.from("plain text, not audio").toString("base64"),
+		});
+		expect(response.status).toBe(415);
+		expect(await response.json()).toMatchObject({
+			code: "UNSUPPORTED_FORMAT",
+			success: false,
+		});
+
+		const job = await post({
+			async: true,
+			content: Buffer.from("plain text, not audio").toString("base64"),
+		});
+		expect(job.status).toBe(415);
+	});
+
+	test("answers 400 when the worker refuses the audio", async () => {
+		spyOn(Manager, "transcribe").mockRejectedValue(
+			new WorkerRequestError("HTTP 400: invalid WAV file", 400, false),
+		);
+
+		const response = await post({ content: "UklGRg==" });
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			code: "AUDIO_REJECTED",
+			error: "HTTP 400: invalid WAV file",
+			success: false,
+		});
+	});
+
+	test("reports a failed transcription", async () => {
+		spyOn(Manager, "transcribe").mockRejectedValue(new Error("worker died"));
+
+		const response = await post({ content: "UklGRg==" });
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({
+			code: "TRANSCRIPTION_ERROR",
+			error: "worker died",
+			success: false,
+		});
+	});
+});
+
+describe("rate limits", () => {
+	const { limits } = Config.config;
+
+	afterEach(() => {
+		Config.config.limits = limits;
+		mock.restore();
+	});
+
+	test("answer 429 once a client used up its burst", async () => {
+		Config.config.limits = {
+			...limits,
+			burst: 1,
+			requestsPerMinute: 1,
+			trustProxy: true,
+		};
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+		const client = { "x-forwarded-for": "203.0.113.7, 10.0.0.1" };
+
+		const first = await post({ content: WAV }, client);
+		expect(first.status).toBe(200);
+		expect(first.headers.get("x-ratelimit-remaining")).toBe("0");
+
+		const second = await post({ content: WAV }, client);
+		expect(second.status).toBe(429);
+		expect(second.headers.get("retry-after")).toBe("60");
+		expect(await second.json()).toMatchObject({ code: "RATE_LIMITED" });
+		expect(transcribe).toHaveBeenCalledTimes(1);
+
+		// Other clients have their own bucket
+		const other = await post(
+			{ content: WAV },
+			{ "x-forwarded-for": "203.0.113.8" },
+		);
+		expect(other.status).toBe(200);
+	});
+});
+
+describe("asynchronous transcriptions", () => {
+	afterEach(() => {
+		Jobs.dispose();
+		mock.restore();
+	});
+
+	test("are queued as jobs that can be polled until done", async () => {
+		await Jobs.init();
+		let finish: (value: TranscriptionResult) => void = () => {};
+		spyOn(Manager, "transcribe").mockReturnValue(
+			new Promise((resolve) => {
+				finish = resolve;
+			}),
+		);
+
+		const form = new FormData();
+		form.append(
+			"file",
+			new File([Buffer.from(WAV, "base64")], "recording.wav"),
+		);
+		form.append("async", "true");
+		form.append("timestamps", "false");
+		const response = await post(form);
+		expect(response.status).toBe(202);
+		const { job } = (await response.json()) as { job: { id: string } };
+		expect(job).toMatchObject({ completedAt: null, result: null });
+
+		const running = await get(`/api/v1/transcriptions/${job.id}`);
+		expect(running.status).toBe(200);
+		expect(await running.json()).toMatchObject({
+			job: { id: job.id, status: JobStatus.Running },
+			success: true,
+		});
+
+		const early = await get(`/api/v1/transcriptions/${job.id}?format=vtt`);
+		expect(early.status).toBe(409);
+		expect(await early.json()).toMatchObject({ code: "JOB_NOT_COMPLETED" });
+
+		finish(result);
+		await Bun.sleep(20);
+		const done = await get(`/api/v1/transcriptions/${job.id}`);
+		expect(await done.json()).toMatchObject({
+			job: { id: job.id, result: { text: "Hello" }, status: "succeeded" },
+		});
+
+		const vtt = await get(`/api/v1/transcriptions/${job.id}?format=vtt`);
+		expect(vtt.headers.get("content-type")).toStartWith("text/vtt");
+		expect(await vtt.text()).toBe(
+			"WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello\n",
+		);
+		// Kept for the subtitles although the job asked for no timestamps
+		expect(Manager.transcribe).toHaveBeenCalledWith(
+			expect.any(File),
+			expect.objectContaining({ timestamps: true }),
+		);
+	});
+
+	test("report unknown job ids", async () => {
+		const response = await get("/api/v1/transcriptions/job_missing");
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ code: "JOB_NOT_FOUND" });
+	});
+});
+
+describe("API keys", () => {
+	const { auth } = Config.config;
+	const bearer = (key: string) => ({ authorization: `Bearer ${key}` });
+
+	beforeEach(async () => {
+		await Jobs.init();
+		Config.config.auth = {
+			keysFile: "",
+			keys: [
+				{
+					name: "alice",
+					scopes: ["transcribe"],
+					sha256: Auth.hashKey("key-a"),
+				},
+				{ name: "bob", scopes: ["transcribe"], sha256: Auth.hashKey("key-b") },
+				{ name: "reader", scopes: ["read"], sha256: Auth.hashKey("key-r") },
+				{
+					name: "ops",
+					scopes: ["admin", "transcribe"],
+					sha256: Auth.hashKey("key-ops"),
+				},
+			],
+		};
+		await Auth.reload();
+	});
+
+	afterEach(async () => {
+		Config.config.auth = auth;
+		await Auth.reload();
+		Jobs.dispose();
+		mock.restore();
+	});
+
+	/** Submit an async job as a key and return its id */
+	async function submit(key: string): Promise<string> {
+		const response = await post({ async: true, content: WAV }, bearer(key));
+		expect(response.status).toBe(202);
+		return ((await response.json()) as { job: { id: string } }).job.id;
+	}
+
+	test("require a key with the route's scope", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const anonymous = await post({ content: WAV });
+		expect(anonymous.status).toBe(401);
+		expect(await anonymous.json()).toMatchObject({ code: "UNAUTHORIZED" });
+
+		const reader = await post({ content: WAV }, bearer("key-r"));
+		expect(reader.status).toBe(403);
+		expect(await reader.json()).toMatchObject({ code: "FORBIDDEN" });
+		expect(transcribe).not.toHaveBeenCalled();
+
+		const allowed = await post({ content: WAV }, bearer("key-a"));
+		expect(allowed.status).toBe(200);
+		expect(transcribe.mock.calls[0]?.[1]?.metadata).toEqual({
+			api_key: "alice",
+		});
+	});
+
+	test("keep jobs to the key that submitted them", async () => {
+		spyOn(Manager, "transcribe").mockResolvedValue(result);
+		const id = await submit("key-a");
+		await Bun.sleep(20);
+
+		expect(
+			(await get(`/api/v1/transcriptions/${id}`, bearer("key-a"))).status,
+		).toBe(200);
+		for (const path of [id, `${id}?format=srt`]) {
+			const other = await get(
+				`/api/v1/transcriptions/${path}`,
+				bearer("key-b"),
+			);
+			expect(other.status).toBe(404);
+			expect(await other.json()).toMatchObject({ code: "JOB_NOT_FOUND" });
+		}
+		// Admin keys see every job
+		expect(
+			(await get(`/api/v1/transcriptions/${id}`, bearer("key-ops"))).status,
+		).toBe(200);
+	});
+});
+
+describe("GET /api/v1/providers", () => {
+	const pools = Config.config.pools;
+
+	afterEach(() => {
+		Config.config.pools = pools;
+	});
+
+	test("lists each worker pool as a provider", async () => {
+		Config.config.pools = {
+			large: { description: "Accurate" },
+			small: {},
+		};
+
+		const response = await get("/api/v1/providers");
+		const { providers } = (await response.json()) as {
+			providers: { available: boolean; description: string; id: string }[];
+		};
+		expect(providers.map((p) => p.id)).toEqual(["large", "small"]);
+		expect(providers[0]).toMatchObject({
+			available: false,
+			description: "Accurate",
+		});
+	});
+});
+
+describe("GET /metrics", () => {
+	test("serves the Prometheus text format", async () => {
+		const response = await get("/metrics");
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe(
+			"text/plain; version=0.0.4; charset=utf-8",
+		);
+		const text = await response.text();
+		expect(text).toContain("# TYPE inference_requests_total counter\n");
+		expect(text).toContain(
+			"# TYPE inference_request_duration_seconds histogram\n",
+		);
+	});
+});
@@ -1,45 +1,177 @@
 import type { Elysia } from "elysia";
 import { t } from "elysia";
-import { Manager } from "../manager";
-import { Log } from "../observability/logger";
-
-const log = Log.child({ module: "routes" });
+import { AUDIO_ERROR_STATUS, Audio, AudioFormatError } from "../audio";
+import { Auth } from "../auth";
+import { Formats } from "../formats";
+import { History } from "../history";
+import { type Job, JobStatus, Jobs } from "../jobs";
+import { Limits } from "../limits";
+import {
+	Manager,
+	WorkerRequestError,
+	WorkerUnavailableError,
+} from "../manager";
+import { Metrics } from "../observability/metrics";
+import { Tracing } from "../observability/tracing";
+import { Webhooks } from "../webhooks";
+import { registerAdminRoutes } from "./admin";
+import { registerAudioRoutes } from "./audio";
+import { rejectUnauthorized, requireScope } from "./auth";
+import {
+	HistoryRecordSchema,
+	registerHistoryRoutes,
+	toRecordView,
+} from "./history";
+import { addressOf, clientOf, limitRequests } from "./limits";
+import { registerOpenAIRoutes } from "./openai";
+import { ErrorResponseSchema, TranscriptionResultSchema } from "./schemas";
+import { registerStreamRoutes } from "./stream";
+import { registerWebhookRoutes } from "./webhooks";
 
 // TypeBox Schemas (collocated with routes)
-const TranscriptionSegmentSchema = t.Object({
-	confidence: t.Nullable(t.Number()),
-	end: t.Number(),
-	speaker: t.Nullable(t.String()),
-	start: t.Number(),
-	text: t.String(),
+const TranscriptFormatSchema = t.UnionEnum(
+	["json", "text", "srt", "vtt", "tsv"],
+	{
+		default: "json",
+		description:
+			"Response body: the JSON envelope, plain text, or SRT/WebVTT/TSV subtitles",
+	},
+);
+
+const GranularitySchema = t.UnionEnum(["segment", "word"], {
+	default: "segment",
+	description: "Timestamp detail, word also returns the timing of each word",
 });
 
-const TranscriptionResultSchema = t.Object({
-	confidence: t.Number(),
-	duration: t.Number(),
-	language: t.String(),
-	metadata: t.Record(t.String(), t.String()),
-	provider: t.String(),
-	segments: t.Array(TranscriptionSegmentSchema),
-	text: t.String(),
+const CacheSchema = t.UnionEnum(["use", "bypass"], {
+	default: "use",
+	description:
+		"Serve repeated audio from the result cache, bypass transcribes again",
 });
 
-const TranscriptionRequestSchema = t.Object({
+const CallbackUrlDescription =
+	"http(s) URL the signed result or error is posted to once finished (see webhooks)";
+
+const RetainAudioDescription =
+	"Keep the audio for download and replay (defaults to audio.retain)";
+
+const TimestampsDescription =
+	"Return segments with start and end times (always kept for async jobs and word granularity)";
+
+const MaxLineWidthDescription =
+	"Wrap subtitle and text lines at this many characters";
+const MaxLineCountDescription =
+	"Split subtitle cues with more lines than this into consecutive cues";
+
+const TranscriptionJsonRequestSchema = t.Object({
+	async: t.Optional(
+		t.Boolean({
+			default: false,
+			description: "Queue as a job and return its id immediately",
+		}),
+	),
+	cache: t.Optional(CacheSchema),
+	callback_url: t.Optional(t.String({ description: CallbackUrlDescription })),
+	chunked: t.Optional(
+		t.Boolean({
+			description:
+				"Split long audio into chunks transcribed in parallel (defaults to chunking.enabled)",
+		}),
+	),
 	content: t.String({ description: "Base64 encoded audio", minLength: 1 }),
+	granularity: t.Optional(GranularitySchema),
 	language: t.Optional(t.String({ description: "Language code (e.g., 'en')" })),
+	max_line_count: t.Optional(
+		t.Integer({ description: MaxLineCountDescription, minimum: 1 }),
+	),
+	max_line_width: t.Optional(
+		t.Integer({ description: MaxLineWidthDescription, minimum: 1 }),
+	),
 	metadata: t.Optional(t.Record(t.String(), t.String())),
-	timestamps: t.Optional(t.Boolean({ default: true })),
+	model: t.Optional(
+		t.String({ description: "Model name or alias, routes to its pool" }),
+	),
+	pool: t.Optional(t.String({ description: "Worker pool to use" })),
+	response_format: t.Optional(TranscriptFormatSchema),
+	retain_audio: t.Optional(t.Boolean({ description: RetainAudioDescription })),
+	timestamps: t.Optional(
+		t.Boolean({ default: true, description: TimestampsDescription }),
+	),
 });
 
+const TranscriptionUploadRequestSchema = t.Object({
+	async: t.Optional(
+		t.BooleanString({
+			default: false,
+			description: "Queue as a job and return its id immediately",
+		}),
+	),
+	cache: t.Optional(CacheSchema),
+	callback_url: t.Optional(t.String({ description: CallbackUrlDescription })),
+	chunked: t.Optional(
+		t.BooleanString({
+			description:
+				"Split long audio into chunks transcribed in parallel (defaults to chunking.enabled)",
+		}),
+	),
+	file: t.File({ description: "Raw audio file" }),
+	granularity: t.Optional(GranularitySchema),
+	language: t.Optional(t.String({ description: "Language code (e.g., 'en')" })),
+	max_line_count: t.Optional(
+		t.Numeric({ description: MaxLineCountDescription, minimum: 1 }),
+	),
+	max_line_width: t.Optional(
+		t.Numeric({ description: MaxLineWidthDescription, minimum: 1 }),
+	),
+	metadata: t.Optional(
+		t.String({ description: "JSON encoded object of string metadata" }),
+	),
+	model: t.Optional(
+		t.String({ description: "Model name or alias, routes to its pool" }),
+	),
+	pool: t.Optional(t.String({ description: "Worker pool to use" })),
+	response_format: t.Optional(TranscriptFormatSchema),
+	retain_audio: t.Optional(
+		t.BooleanString({ description: RetainAudioDescription }),
+	),
+	timestamps: t.Optional(
+		t.BooleanString({ default: true, description: TimestampsDescription }),
+	),
+});
+
+// Accepts either application/json (base64 content) or multipart/form-data (file)
+const TranscriptionRequestSchema = t.Union([
+	TranscriptionJsonRequestSchema,
+	TranscriptionUploadRequestSchema,
+]);
+
 const TranscriptionResponseSchema = t.Object({
 	message: t.Optional(t.String()),
 	result: t.Optional(TranscriptionResultSchema),
 	success: t.Boolean(),
 });
 
-const ErrorResponseSchema = t.Object({
-	code: t.Optional(t.String()),
-	error: t.String(),
+const TranscriptionJobSchema = t.Object({
+	completedAt: t.Nullable(t.String()),
+	error: t.Nullable(t.String()),
+	id: t.String(),
+	result: t.Nullable(TranscriptionResultSchema),
+	startedAt: t.Nullable(t.String()),
+	status: t.Enum(JobStatus),
+	submittedAt: t.String(),
+	timings: t.Object({
+		processingMs: t.Nullable(t.Number()),
+		queuedMs: t.Nullable(t.Number()),
+	}),
+});
+
+const TranscriptionJobResponseSchema = t.Object({
+	job: TranscriptionJobSchema,
+	success: t.Boolean(),
+});
+
+const TranscriptionRecordResponseSchema = t.Object({
+	record: HistoryRecordSchema,
 	success: t.Boolean(),
 });
 
@@ -82,6 +214,78 @@ const ProvidersResponseSchema = t.Object({
 	success: t.Boolean(),
 });
 
+/**
+ * Parse the JSON encoded metadata field of a multipart upload.
+ * Returns null when the field is not a flat object of strings.
+ */
+function parseUploadMetadata(
+	raw: string | undefined,
+): Record<string, string> | null {
+	if (raw === undefined || raw.trim() === "") {
+		return {};
+	}
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		if (
+			typeof parsed !== "object" ||
+			parsed === null ||
+			Array.isArray(parsed) ||
+			!Object.values(parsed).every((v) => typeof v === "string")
+		) {
+			return null;
+		}
+		return parsed as Record<string, string>;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check the callback URL of a request, when it gives one (see
+ * Webhooks.checkUrl).
+ * @returns The error response to send, null when the URL can be used
+ */
+async function checkCallbackUrl(url: string | undefined) {
+	if (url === undefined) {
+		return null;
+	}
+	if (!Webhooks.enabled()) {
+		return {
+			code: "WEBHOOKS_DISABLED",
+			error:
+				"callback_url needs WEBHOOK_SECRET or webhooks.secret to be configured",
+			success: false,
+		};
+	}
+	const refused = await Webhooks.checkUrl(url);
+	return refused
+		? { code: "INVALID_CALLBACK_URL", error: refused, success: false }
+		: null;
+}
+
+/** Whether an id is an async job id rather than a transcription id */
+function isJobId(id: string): boolean {
+	return id.startsWith("job_");
+}
+
+// Formats rendered from segments, which need verbose worker output
+const TIMED_FORMATS: readonly string[] = ["srt", "vtt", "tsv"];
+
+function toJobView(job: Job) {
+	const iso = (ms: number | null) =>
+		ms === null ? null : new Date(ms).toISOString();
+	return {
+		completedAt: iso(job.completedAt),
+		error: job.error,
+		id: job.id,
+		result: job.result,
+		startedAt: iso(job.startedAt),
+		status: job.status,
+		submittedAt: new Date(job.createdAt).toISOString(),
+		timings: Jobs.timings(job),
+	};
+}
+
 /**
  * Route registration for Inference Server Manager
  */
@@ -118,95 +322,358 @@ export function registerRoutes(app: Elysia): void {
 			() => {
 				const poolStatus = Manager.getPoolStatus();
 
+				// Each worker pool is exposed as its own provider
 				return {
-					providers: [
-						{
-							available: poolStatus.healthyWorkers > 0,
-							capabilities: {
-								batch: false,
-								diarization: false,
-								languages: [
-									"en",
-									"es",
-									"fr",
-									"de",
-									"it",
-									"pt",
-									"nl",
-									"ru",
-									"zh",
-									"ja",
-								],
-								maxDuration: null,
-								maxFileSize: null,
-								streaming: false,
-								supportedFormats: ["wav", "mp3", "m4a", "flac", "ogg", "opus"],
-								wordTimestamps: true,
-							},
-							costPerMinute: 0.0,
-							description:
-								"Managed pool of Whisper server workers with load balancing",
-							id: "whisper-server",
-							name: "Whisper Server",
-							speed: null,
+					providers: poolStatus.pools.map((pool) => ({
+						available: pool.healthyWorkers > 0,
+						capabilities: {
+							batch: false,
+							diarization: false,
+							languages: [
+								"en",
+								"es",
+								"fr",
+								"de",
+								"it",
+								"pt",
+								"nl",
+								"ru",
+								"zh",
+								"ja",
+							],
+							maxDuration: null,
+							maxFileSize: null,
+							streaming: true,
+							supportedFormats: [...Audio.FORMATS],
+							wordTimestamps: true,
 						},
-					],
+						costPerMinute: 0.0,
+						description:
+							pool.description ||
+							"Managed pool of Whisper server workers with load balancing",
+						id: pool.name,
+						name: `Whisper Server (${pool.name})`,
+						speed: null,
+					})),
 					success: true,
 				};
 			},
 			{
+				beforeHandle: requireScope("read"),
 				detail: {
 					description:
 						"Get a list of all available transcription providers and their capabilities",
+					security: [{ bearerAuth: [] }],
 					summary: "List available transcription providers",
 					tags: ["Providers"],
 				},
-				response: ProvidersResponseSchema,
+				response: {
+					200: ProvidersResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+				},
 			},
 		)
 
 		.post(
 			"/api/v1/transcriptions",
-			async ({ body, set }) => {
-				try {
-					log.info(
-						{ language: body.language },
-						"Received transcription request",
-					);
+			({ body, headers, request, server, set }) =>
+				Tracing.traceRequest(
+					"POST /api/v1/transcriptions",
+					{ headers, set },
+					async () => {
+						const requestLog = Tracing.logger("routes");
+						const apiKey = Auth.identify(headers.authorization);
+						const client = clientOf(
+							headers,
+							addressOf({ headers, request, server }),
+						);
+						const isUpload = "file" in body;
+						const received = isUpload
+							? parseUploadMetadata(body.metadata)
+							: (body.metadata ?? {});
+						const metadata = received && {
+							...received,
+							...(apiKey ? { api_key: apiKey.name } : {}),
+						};
+
+						if (metadata === null) {
+							set.status = 400;
+							return {
+								code: "INVALID_METADATA",
+								error: "metadata must be a JSON object of string values",
+								success: false,
+							};
+						}
+
+						const pool = Manager.resolvePool({
+							model: body.model,
+							pool: body.pool,
+						});
+						if (pool === null) {
+							set.status = 400;
+							return {
+								code: "UNKNOWN_MODEL",
+								error: `No worker pool serves ${body.pool ? `pool "${body.pool}"` : `model "${body.model}"`}`,
+								success: false,
+							};
+						}
+
+						const callbackError = await checkCallbackUrl(body.callback_url);
+						if (callbackError) {
+							set.status = 400;
+							return callbackError;
+						}
+
+						const audio = isUpload ? body.file : body.content;
+						const format = body.response_format ?? "json";
+						const options = {
+							cache: body.cache,
+							callbackUrl: body.callback_url,
+							chunked: body.chunked,
+							granularity: body.granularity,
+							language: body.language,
+							metadata,
+							owner: apiKey?.name,
+							pool,
+							retainAudio: body.retain_audio,
+							// Subtitles are built from segment timings, and a job's result
+							// may still be fetched as subtitles once it is done
+							timestamps:
+								(body.timestamps ?? true) ||
+								body.async === true ||
+								TIMED_FORMATS.includes(format),
+						};
+
+						try {
+							requestLog.info(
+								{
+									apiKey: apiKey?.name,
+									async: body.async ?? false,
+									fileSize: isUpload ? body.file.size : undefined,
+									language: body.language,
+									pool,
+									upload: isUpload,
+								},
+								"Received transcription request",
+							);
+
+							if (body.async) {
+								const job = await Jobs.submit(audio, options, client);
+								set.status = 202;
+								return { job: toJobView(job), success: true };
+							}
+
+							const result = await Manager.transcribe(audio, options);
+							Limits.charge(client, result.duration);
+
+							if (format !== "json") {
+								set.headers["content-type"] = Formats.CONTENT_TYPES[format];
+								return Formats.render(result, format, {
+									maxLineCount: body.max_line_count,
+									maxLineWidth: body.max_line_width,
+								});
+							}
+
+							return {
+								message: "Transcription completed successfully",
+								result,
+								success: true,
+							};
+						} catch (error) {
+							if (error instanceof WorkerUnavailableError) {
+								requestLog.warn(
+									{ code: error.code },
+									"Transcription request rejected",
+								);
+								set.status = 503;
+								set.headers["retry-after"] = String(error.retryAfterSeconds);
+								return {
+									code: error.code,
+									error: error.message,
+									success: false,
+								};
+							}
+
+							if (error instanceof AudioFormatError) {
+								requestLog.warn(
+									{ code: error.code, error: error.message },
+									"Transcription audio rejected",
+								);
+								set.status = AUDIO_ERROR_STATUS[error.code];
+								return {
+									code: error.code,
+									error: error.message,
+									success: false,
+								};
+							}
+
+							// The worker refused the input itself (e.g. undecodable audio)
+							if (
+								error instanceof WorkerRequestError &&
+								error.status !== null &&
+								error.status < 500
+							) {
+								set.status = 400;
+								return {
+									code: "AUDIO_REJECTED",
+									error: error.message,
+									success: false,
+								};
+							}
+
+							requestLog.error({ error }, "Transcription request failed");
+							set.status = 500;
+							return {
+								code: "TRANSCRIPTION_ERROR",
+								error: error instanceof Error ? error.message : "Unknown error",
+								success: false,
+							};
+						}
+					},
+				),
+			{
+				beforeHandle: [requireScope("transcribe"), limitRequests],
+				body: TranscriptionRequestSchema,
+				detail: {
+					description:
+						"Submit audio content for transcription. Accepts either a JSON body with base64 encoded content or a multipart/form-data upload with a raw audio file part. Audio is detected from its content and normalized to 16 kHz mono WAV; unsupported formats get a 415. Processed synchronously unless `async` is set, in which case a job is queued and returned with status 202. With `callback_url`, the signed result or error is also posted there once finished. Clients over their rate limit or audio quota get a 429.",
+					security: [{ bearerAuth: [] }],
+					summary: "Submit a transcription job",
+					tags: ["Transcription"],
+				},
+				response: {
+					200: t.Union([TranscriptionResponseSchema, t.String()]),
+					202: TranscriptionJobResponseSchema,
+					400: ErrorResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+					415: ErrorResponseSchema,
+					422: ErrorResponseSchema,
+					429: ErrorResponseSchema,
+					500: ErrorResponseSchema,
+					503: ErrorResponseSchema,
+				},
+			},
+		)
+
+		.get(
+			"/api/v1/transcriptions/:id",
+			({ headers, params, query, set }) => {
+				const apiKey = Auth.identify(headers.authorization);
+				const format = query.format ?? "json";
+				const wrap = {
+					maxLineCount: query.max_line_count,
+					maxLineWidth: query.max_line_width,
+				};
 
-					const result = await Manager.transcribe(
-						body.content,
-						body.language,
-						body.timestamps ?? true,
-						body.metadata ?? {},
+				if (!isJobId(params.id)) {
+					const record = History.get(params.id);
+					// Other clients' records are as good as missing
+					if (!record || !Auth.mayAccess(apiKey, record.owner)) {
+						set.status = 404;
+						return {
+							code: "TRANSCRIPTION_NOT_FOUND",
+							error: `Transcription ${params.id} not found`,
+							success: false,
+						};
+					}
+					if (format === "json") {
+						return { record: toRecordView(record), success: true };
+					}
+					if (record.status !== "succeeded") {
+						set.status = 409;
+						return {
+							code: "TRANSCRIPTION_FAILED",
+							error: `Transcription ${params.id} failed, it has no result to render`,
+							success: false,
+						};
+					}
+					set.headers["content-type"] = Formats.CONTENT_TYPES[format];
+					return Formats.render(
+						{ ...record, duration: record.duration ?? 0 },
+						format,
+						wrap,
 					);
+				}
 
+				const job = Jobs.get(params.id);
+				if (!job || !Auth.mayAccess(apiKey, job.options.owner)) {
+					set.status = 404;
 					return {
-						message: "Transcription completed successfully",
-						result,
-						success: true,
+						code: "JOB_NOT_FOUND",
+						error: `Job ${params.id} not found`,
+						success: false,
 					};
-				} catch (error) {
-					log.error({ error }, "Transcription request failed");
-					set.status = 500;
+				}
+
+				if (format === "json") {
+					return { job: toJobView(job), success: true };
+				}
+				if (!job.result) {
+					set.status = 409;
 					return {
-						code: "TRANSCRIPTION_ERROR",
-						error: error instanceof Error ? error.message : "Unknown error",
+						code: "JOB_NOT_COMPLETED",
+						error: `Job ${params.id} is ${job.status}, it has no result to render`,
 						success: false,
 					};
 				}
+				set.headers["content-type"] = Formats.CONTENT_TYPES[format];
+				return Formats.render(job.result, format, wrap);
 			},
 			{
-				body: TranscriptionRequestSchema,
+				// Jobs are part of transcribing, finished transcriptions of the history
+				beforeHandle: ({ headers, params, set }) =>
+					rejectUnauthorized(
+						headers.authorization,
+						isJobId(params.id) ? "transcribe" : "read",
+						set,
+					),
 				detail: {
 					description:
-						"Submit audio content for synchronous transcription processing",
-					summary: "Submit a transcription job",
+						"Get an asynchronous transcription job (`job_…` id, transcribe scope) with its status, timings and result, or a finished transcription from the history (`tr_…` id, the `transcription_id` of results, read scope). With `format`, returns only the result rendered as text or subtitles. API keys without the admin scope only get what they submitted.",
+					security: [{ bearerAuth: [] }],
+					summary: "Get a transcription job or record",
 					tags: ["Transcription"],
 				},
+				params: t.Object({ id: t.String() }),
+				query: t.Object({
+					format: t.Optional(TranscriptFormatSchema),
+					max_line_count: t.Optional(
+						t.Numeric({ description: MaxLineCountDescription, minimum: 1 }),
+					),
+					max_line_width: t.Optional(
+						t.Numeric({ description: MaxLineWidthDescription, minimum: 1 }),
+					),
+				}),
 				response: {
-					200: TranscriptionResponseSchema,
-					500: ErrorResponseSchema,
+					200: t.Union([
+						TranscriptionJobResponseSchema,
+						TranscriptionRecordResponseSchema,
+						t.String(),
+					]),
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+					404: ErrorResponseSchema,
+					409: ErrorResponseSchema,
+				},
+			},
+		)
+
+		.get(
+			"/metrics",
+			({ set }) => {
+				set.headers["content-type"] = Metrics.CONTENT_TYPE;
+				return Metrics.render();
+			},
+			{
+				beforeHandle: requireScope("read"),
+				detail: {
+					description:
+						"Request, worker and queue metrics in Prometheus text format",
+					security: [{ bearerAuth: [] }],
+					summary: "Prometheus metrics",
+					tags: ["System"],
 				},
 			},
 		)
@@ -218,11 +685,20 @@ export function registerRoutes(app: Elysia): void {
 				return poolStatus;
 			},
 			{
+				beforeHandle: requireScope("read"),
 				detail: {
 					description: "Get detailed status of all workers in the pool",
+					security: [{ bearerAuth: [] }],
 					summary: "Get worker pool status",
 					tags: ["System"],
 				},
 			},
 		);
+
+	registerHistoryRoutes(app);
+	registerAudioRoutes(app);
+	registerWebhookRoutes(app);
+	registerStreamRoutes(app);
+	registerOpenAIRoutes(app);
+	registerAdminRoutes(app);
 }
@@ -0,0 +1,82 @@
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { LimitExceededError, Limits, type RateLimitState } from "../limits";
+import { Log } from "../observability/logger";
+
+const log = Log.child({ module: "routes.limits" });
+
+type Set = {
+	status?: number | string;
+	headers: Record<string, string | number>;
+};
+
+/** The parts of a request context that identify its client */
+export interface ClientContext {
+	headers: Record<string, string | undefined>;
+	request: Request;
+	server: { requestIP(request: Request): { address: string } | null } | null;
+}
+
+/**
+ * The rate limit client of a request: its API key, else its IP address.
+ * @param address - Address of the connection the request came on
+ * @param authorization - Bearer token, when not sent in the header
+ */
+export function clientOf(
+	headers: Record<string, string | undefined>,
+	address: string | undefined,
+	authorization = headers.authorization,
+): string {
+	const forwarded = Config.config.limits.trustProxy
+		? headers["x-forwarded-for"]?.split(",")[0]?.trim()
+		: undefined;
+	return Limits.clientId(
+		Auth.identify(authorization)?.name,
+		forwarded || address,
+	);
+}
+
+/** Address of the connection a request came on */
+export function addressOf({ request, server }: ClientContext) {
+	return server?.requestIP(request)?.address;
+}
+
+export function setRateLimitHeaders(set: Set, state: RateLimitState): void {
+	set.headers["x-ratelimit-limit"] = String(state.limit);
+	set.headers["x-ratelimit-remaining"] = String(state.remaining);
+	set.headers["x-ratelimit-reset"] = String(state.resetSeconds);
+}
+
+/**
+ * Admit a request of a client, setting the rate limit headers.
+ * @returns A 429 error response to send, undefined when admitted
+ */
+export function rejectOverLimit(client: string, set: Set) {
+	try {
+		const state = Limits.admit(client);
+		if (state) {
+			setRateLimitHeaders(set, state);
+		}
+	} catch (error) {
+		if (!(error instanceof LimitExceededError)) {
+			throw error;
+		}
+		log.warn({ client, code: error.code }, "Request over limit");
+		set.status = 429;
+		set.headers["retry-after"] = String(error.retryAfterSeconds);
+		if (error.rateLimit) {
+			setRateLimitHeaders(set, error.rateLimit);
+		}
+		return { code: error.code, error: error.message, success: false };
+	}
+}
+
+/**
+ * beforeHandle guard applying the client's rate limit and quotas.
+ */
+export function limitRequests(context: ClientContext & { set: Set }) {
+	return rejectOverLimit(
+		clientOf(context.headers, addressOf(context)),
+		context.set,
+	);
+}
@@ -0,0 +1,311 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { createApp } from "../app";
+import { Config } from "../config";
+import {
+	Manager,
+	type TranscriptionResult,
+	type TranscriptionSegment,
+	WorkerUnavailableError,
+} from "../manager";
+
+const result: TranscriptionResult = {
+	confidence: 1,
+	duration: 2.5,
+	language: "de",
+	metadata: {},
+	provider: "whisper-server",
+	segments: [
+		{ confidence: null, end: 1.2, speaker: null, start: 0, text: "Hallo" },
+		{ confidence: null, end: 2.5, speaker: null, start: 1.2, text: "Welt" },
+	],
+	text: "Hallo Welt",
+};
+
+interface OpenAIErrorBody {
+	error: { message: string; param: string | null; type: string };
+}
+
+function post(
+	path: string,
+	fields: Record<string, string | string[]>,
+	file: File | null = new File([new Uint8Array(64)], "speech.wav"),
+): Promise<Response> {
+	const form = new FormData();
+	if (file) {
+		form.append("file", file);
+	}
+	for (const [name, value] of Object.entries(fields)) {
+		for (const v of Array.isArray(value) ? value : [value]) {
+			form.append(name, v);
+		}
+	}
+	return createApp().handle(
+		new Request(`http://localhost${path}`, { body: form, method: "POST" }),
+	);
+}
+
+describe("POST /v1/audio/transcriptions", () => {
+	const pools = Config.config.pools;
+
+	afterEach(() => {
+		Config.config.pools = pools;
+		mock.restore();
+	});
+
+	test("returns the text as JSON and lets the worker detect the language", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+		});
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ text: "Hallo Welt" });
+
+		const [audio, options] = transcribe.mock.calls[0] ?? [];
+		expect((audio as File).name).toBe("speech.wav");
+		expect(options).toEqual({
+			granularity: "segment",
+			language: "auto",
+			pool: "default",
+			prompt: undefined,
+			temperature: undefined,
+			timestamps: false,
+			translate: false,
+		});
+	});
+
+	test("routes known models to their pool, others to the default pool", async () => {
+		Config.config.pools = { large: {}, small: { aliases: ["base"] } };
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		await post("/v1/audio/transcriptions", { model: "base" });
+		await post("/v1/audio/transcriptions", { model: "whisper-1" });
+		expect(transcribe.mock.calls.map(([, options]) => options?.pool)).toEqual([
+			"small",
+			"large",
+		]);
+	});
+
+	test("passes the language, prompt and temperature on", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		await post("/v1/audio/transcriptions", {
+			language: "de",
+			model: "whisper-1",
+			prompt: "Grüße",
+			temperature: "0.4",
+		});
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({
+			language: "de",
+			prompt: "Grüße",
+			temperature: 0.4,
+		});
+	});
+
+	test("renders plain text", async () => {
+		spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "text",
+		});
+		expect(response.headers.get("content-type")).toStartWith("text/plain");
+		expect(await response.text()).toBe("Hallo Welt\n");
+	});
+
+	test("renders SRT and WebVTT from the segments", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const srt = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "srt",
+		});
+		expect(await srt.text()).toBe(
+			"1\n00:00:00,000 --> 00:00:01,200\nHallo\n\n2\n00:00:01,200 --> 00:00:02,500\nWelt\n",
+		);
+		const vtt = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "vtt",
+		});
+		expect(vtt.headers.get("content-type")).toStartWith("text/vtt");
+		expect(await vtt.text()).toStartWith(
+			"WEBVTT\n\n00:00:00.000 --> 00:00:01.200\nHallo\n",
+		);
+		// Subtitles need the segment timings
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({ timestamps: true });
+	});
+
+	test("renders verbose JSON in OpenAI's shape", async () => {
+		spyOn(Manager, "transcribe").mockResolvedValue(result);
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "verbose_json",
+			temperature: "0.2",
+		});
+		const body = (await response.json()) as { segments: unknown[] };
+		expect(body).toMatchObject({
+			duration: 2.5,
+			language: "de",
+			task: "transcribe",
+			text: "Hallo Welt",
+		});
+		expect(body.segments).toHaveLength(2);
+		expect(body.segments[1]).toEqual({
+			avg_logprob: 0,
+			compression_ratio: 0,
+			end: 2.5,
+			id: 1,
+			no_speech_prob: 0,
+			seek: 0,
+			start: 1.2,
+			temperature: 0.2,
+			text: "Welt",
+			tokens: [],
+		});
+	});
+
+	test("reports invalid requests in OpenAI's error envelope", async () => {
+		const transcribe = spyOn(Manager, "transcribe");
+
+		const response = await post(
+			"/v1/audio/transcriptions",
+			{ model: "whisper-1" },
+			null,
+		);
+		expect(response.status).toBe(400);
+		const { error } = (await response.json()) as OpenAIErrorBody;
+		expect(error).toMatchObject({
+			param: "file",
+			type: "invalid_request_error",
+		});
+		expect(error.message).toStartWith("/file: ");
+		expect(transcribe).not.toHaveBeenCalled();
+
+		const format = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "docx",
+		});
+		expect(format.status).toBe(400);
+		const { error: formatError } = (await format.json()) as OpenAIErrorBody;
+		expect(formatError.param).toBe("response_format");
+	});
+
+	test("returns word timestamps with verbose_json", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue({
+			...result,
+			segments: [
+				{
+					...(result.segments[0] as TranscriptionSegment),
+					words: [{ end: 1.1, probability: 0.9, start: 0.1, text: "Hallo" }],
+				},
+			],
+		});
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "verbose_json",
+			"timestamp_granularities[]": "word",
+		});
+		const body = (await response.json()) as Record<string, unknown>;
+		expect(body.words).toEqual([{ end: 1.1, start: 0.1, word: "Hallo" }]);
+		// Word-only requests leave out segments, as OpenAI does
+		expect(body.segments).toBeUndefined();
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({
+			granularity: "word",
+		});
+
+		const both = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "verbose_json",
+			"timestamp_granularities[]": ["segment", "word"],
+		});
+		expect(await both.json()).toMatchObject({
+			segments: [{ text: "Hallo" }],
+			words: [{ word: "Hallo" }],
+		});
+	});
+
+	test("refuses word timestamps outside verbose_json", async () => {
+		const transcribe = spyOn(Manager, "transcribe");
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+			response_format: "srt",
+			"timestamp_granularities[]": ["segment", "word"],
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			error: {
+				code: "unsupported_value",
+				message: "Word timestamps require response_format verbose_json",
+				param: "timestamp_granularities[]",
+				type: "invalid_request_error",
+			},
+		});
+		expect(transcribe).not.toHaveBeenCalled();
+	});
+
+	test("answers 503 with Retry-After while no worker is free", async () => {
+		spyOn(Manager, "transcribe").mockRejectedValue(
+			new WorkerUnavailableError("QUEUE_TIMEOUT", "No worker in time", 3),
+		);
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+		});
+		expect(response.status).toBe(503);
+		expect(response.headers.get("retry-after")).toBe("3");
+		expect(await response.json()).toEqual({
+			error: {
+				code: "queue_timeout",
+				message: "No worker in time",
+				param: null,
+				type: "server_error",
+			},
+		});
+	});
+
+	test("reports failed transcriptions as server errors", async () => {
+		spyOn(Manager, "transcribe").mockRejectedValue(new Error("worker died"));
+
+		const response = await post("/v1/audio/transcriptions", {
+			model: "whisper-1",
+		});
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({
+			error: {
+				code: null,
+				message: "worker died",
+				param: null,
+				type: "server_error",
+			},
+		});
+	});
+});
+
+describe("POST /v1/audio/translations", () => {
+	afterEach(() => {
+		mock.restore();
+	});
+
+	test("asks the worker to translate", async () => {
+		const transcribe = spyOn(Manager, "transcribe").mockResolvedValue({
+			...result,
+			text: "Hello world",
+		});
+
+		const response = await post("/v1/audio/translations", {
+			model: "whisper-1",
+			response_format: "verbose_json",
+		});
+		expect(await response.json()).toMatchObject({
+			task: "translate",
+			text: "Hello world",
+		});
+		expect(transcribe.mock.calls[0]?.[1]).toMatchObject({
+			language: "auto",
+			translate: true,
+		});
+	});
+});
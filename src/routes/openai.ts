@@ -0,0 +1,403 @@
+import type { Elysia } from "elysia";
+import { t, ValidationError } from "elysia";
+import { AUDIO_ERROR_STATUS, AudioFormatError } from "../audio";
+import { type ApiKey, AUTH_ERROR_STATUS, Auth, AuthError } from "../auth";
+import { Formats } from "../formats";
+import { LimitExceededError, Limits } from "../limits";
+import {
+	Manager,
+	type TranscriptionResult,
+	WorkerRequestError,
+	WorkerUnavailableError,
+} from "../manager";
+import { Tracing } from "../observability/tracing";
+import {
+	addressOf,
+	type ClientContext,
+	clientOf,
+	setRateLimitHeaders,
+} from "./limits";
+
+// TypeBox Schemas mirroring the OpenAI audio API (multipart/form-data)
+const ResponseFormatSchema = t.UnionEnum(
+	["json", "text", "srt", "vtt", "verbose_json"],
+	{ default: "json" },
+);
+
+const TimestampGranularitySchema = t.UnionEnum(["segment", "word"]);
+
+const TranslationRequestSchema = t.Object({
+	file: t.File({ description: "Audio file to transcribe" }),
+	model: t.String({
+		description:
+			"Pool name or alias to route to; unknown models use the default pool",
+	}),
+	prompt: t.Optional(
+		t.String({ description: "Text to guide the model's style" }),
+	),
+	response_format: t.Optional(ResponseFormatSchema),
+	temperature: t.Optional(t.Numeric({ maximum: 1, minimum: 0 })),
+});
+
+const TranscriptionRequestSchema = t.Composite([
+	TranslationRequestSchema,
+	t.Object({
+		language: t.Optional(
+			t.String({ description: "ISO-639-1 language code of the input audio" }),
+		),
+		"timestamp_granularities[]": t.Optional(
+			t.Union([
+				t.Array(TimestampGranularitySchema),
+				TimestampGranularitySchema,
+			]),
+		),
+	}),
+]);
+
+const OpenAIErrorSchema = t.Object({
+	error: t.Object({
+		code: t.Nullable(t.String()),
+		message: t.String(),
+		param: t.Nullable(t.String()),
+		type: t.String(),
+	}),
+});
+
+type ResponseFormat = (typeof ResponseFormatSchema)["static"];
+type TimestampGranularity = (typeof TimestampGranularitySchema)["static"];
+type OpenAIError = (typeof OpenAIErrorSchema)["static"];
+
+interface AudioRequest {
+	file: File;
+	language?: string;
+	model: string;
+	prompt?: string;
+	response_format?: ResponseFormat;
+	temperature?: number;
+	"timestamp_granularities[]"?: TimestampGranularity | TimestampGranularity[];
+}
+
+function openAIError(
+	message: string,
+	type: string,
+	param: string | null = null,
+	code: string | null = null,
+): OpenAIError {
+	return { error: { code, message, param, type } };
+}
+
+/**
+ * Render a transcription result in the requested OpenAI response format.
+ */
+function renderResult(
+	result: TranscriptionResult,
+	format: ResponseFormat,
+	task: "transcribe" | "translate",
+	temperature: number,
+	granularities: TimestampGranularity[],
+	set: { headers: Record<string, string | number> },
+) {
+	switch (format) {
+		case "text":
+			set.headers["content-type"] = "text/plain; charset=utf-8";
+			return `${result.text}\n`;
+		case "srt":
+			set.headers["content-type"] = "text/plain; charset=utf-8";
+			return Formats.toSrt(result.segments);
+		case "vtt":
+			set.headers["content-type"] = "text/vtt; charset=utf-8";
+			return Formats.toVtt(result.segments);
+		case "verbose_json":
+			return {
+				duration: result.duration,
+				language: result.language,
+				// Word-only requests leave out segments, as OpenAI does
+				...(granularities.length === 0 || granularities.includes("segment")
+					? {
+							segments: result.segments.map((segment, id) => ({
+								avg_logprob: 0,
+								compression_ratio: 0,
+								end: segment.end,
+								id,
+								no_speech_prob: 0,
+								seek: 0,
+								start: segment.start,
+								temperature,
+								text: segment.text,
+								tokens: [],
+							})),
+						}
+					: {}),
+				task,
+				text: result.text,
+				...(granularities.includes("word")
+					? {
+							words: result.segments.flatMap((segment) =>
+								(segment.words ?? []).map((word) => ({
+									end: word.end,
+									start: word.start,
+									word: word.text,
+								})),
+							),
+						}
+					: {}),
+			};
+		default:
+			return { text: result.text };
+	}
+}
+
+/**
+ * Require an API key with the transcribe scope, answering in the OpenAI
+ * error envelope.
+ */
+function requireTranscribe({
+	headers,
+	set,
+}: {
+	headers: Record<string, string | undefined>;
+	set: { status?: number | string };
+}) {
+	try {
+		Auth.authorize(headers.authorization, "transcribe");
+	} catch (error) {
+		if (!(error instanceof AuthError)) {
+			throw error;
+		}
+		set.status = AUTH_ERROR_STATUS[error.code];
+		return openAIError(
+			error.message,
+			"invalid_request_error",
+			null,
+			error.code === "UNAUTHORIZED" ? "invalid_api_key" : "insufficient_scope",
+		);
+	}
+}
+
+/**
+ * Apply the client's rate limit and audio quotas, answering in the OpenAI
+ * error envelope.
+ */
+function limitRequests(
+	context: ClientContext & {
+		set: { status?: number | string; headers: Record<string, string | number> };
+	},
+) {
+	const { set } = context;
+	try {
+		const state = Limits.admit(clientOf(context.headers, addressOf(context)));
+		if (state) {
+			setRateLimitHeaders(set, state);
+		}
+	} catch (error) {
+		if (!(error instanceof LimitExceededError)) {
+			throw error;
+		}
+		set.status = 429;
+		set.headers["retry-after"] = String(error.retryAfterSeconds);
+		if (error.rateLimit) {
+			setRateLimitHeaders(set, error.rateLimit);
+		}
+		// OpenAI tells rate limits ("requests") and exhausted quotas apart
+		return error.code === "RATE_LIMITED"
+			? openAIError(error.message, "requests", null, "rate_limit_exceeded")
+			: openAIError(
+					error.message,
+					"insufficient_quota",
+					null,
+					"insufficient_quota",
+				);
+	}
+}
+
+async function handleAudioRequest(
+	body: AudioRequest,
+	task: "transcribe" | "translate",
+	apiKey: ApiKey | undefined,
+	client: string,
+	set: { status?: number | string; headers: Record<string, string | number> },
+) {
+	const format = body.response_format ?? "json";
+	const rawGranularities = body["timestamp_granularities[]"] ?? [];
+	const granularities = Array.isArray(rawGranularities)
+		? rawGranularities
+		: [rawGranularities];
+
+	// Segment timings come with every timed format, words only with verbose_json
+	if (granularities.includes("word") && format !== "verbose_json") {
+		set.status = 400;
+		return openAIError(
+			"Word timestamps require response_format verbose_json",
+			"invalid_request_error",
+			"timestamp_granularities[]",
+			"unsupported_value",
+		);
+	}
+
+	// Generic model names like "whisper-1" fall back to the default pool
+	const pool =
+		Manager.resolvePool({ model: body.model }) ?? Manager.resolvePool({});
+
+	const requestLog = Tracing.logger("routes.openai");
+	try {
+		requestLog.info(
+			{
+				apiKey: apiKey?.name,
+				fileSize: body.file.size,
+				format,
+				language: body.language,
+				model: body.model,
+				pool,
+				task,
+			},
+			"Received OpenAI audio request",
+		);
+
+		const result = await Manager.transcribe(body.file, {
+			// OpenAI semantics: omitted language means auto-detect
+			language: body.language ?? "auto",
+			metadata: apiKey ? { api_key: apiKey.name } : undefined,
+			owner: apiKey?.name,
+			pool: pool ?? undefined,
+			prompt: body.prompt,
+			temperature: body.temperature,
+			granularity: granularities.includes("word") ? "word" : "segment",
+			// Only subtitles and verbose_json need segment timings
+			timestamps: format !== "json" && format !== "text",
+			translate: task === "translate",
+		});
+		Limits.charge(client, result.duration);
+
+		return renderResult(
+			result,
+			format,
+			task,
+			body.temperature ?? 0,
+			granularities,
+			set,
+		);
+	} catch (error) {
+		if (error instanceof WorkerUnavailableError) {
+			set.status = 503;
+			set.headers["retry-after"] = String(error.retryAfterSeconds);
+			return openAIError(
+				error.message,
+				"server_error",
+				null,
+				error.code.toLowerCase(),
+			);
+		}
+
+		if (error instanceof AudioFormatError) {
+			set.status = AUDIO_ERROR_STATUS[error.code];
+			return openAIError(
+				error.message,
+				"invalid_request_error",
+				"file",
+				error.code.toLowerCase(),
+			);
+		}
+
+		if (
+			error instanceof WorkerRequestError &&
+			error.status !== null &&
+			error.status < 500
+		) {
+			set.status = 400;
+			return openAIError(error.message, "invalid_request_error", "file");
+		}
+
+		requestLog.error({ error, task }, "OpenAI audio request failed");
+		set.status = 500;
+		return openAIError(
+			error instanceof Error ? error.message : "Unknown error",
+			"server_error",
+		);
+	}
+}
+
+/**
+ * Map Elysia validation failures onto the OpenAI error envelope.
+ */
+function handleValidationError({
+	error,
+	set,
+}: {
+	error: unknown;
+	set: { status?: number | string };
+}) {
+	if (!(error instanceof ValidationError)) {
+		return;
+	}
+	set.status = 400;
+	const detail = error.valueError;
+	return openAIError(
+		detail ? `${detail.path || "body"}: ${detail.message}` : "Invalid request",
+		"invalid_request_error",
+		detail?.path.replace(/^\//, "") || null,
+	);
+}
+
+/**
+ * OpenAI-compatible audio endpoints, backed by the worker pool.
+ */
+export function registerOpenAIRoutes(app: Elysia): void {
+	app
+		.post(
+			"/v1/audio/transcriptions",
+			({ body, headers, request, server, set }) =>
+				Tracing.traceRequest(
+					"POST /v1/audio/transcriptions",
+					{ headers, set },
+					() =>
+						handleAudioRequest(
+							body,
+							"transcribe",
+							Auth.identify(headers.authorization),
+							clientOf(headers, addressOf({ headers, request, server })),
+							set,
+						),
+				),
+			{
+				beforeHandle: [requireTranscribe, limitRequests],
+				body: TranscriptionRequestSchema,
+				detail: {
+					description:
+						"Transcribe audio into the input language (OpenAI audio API compatible)",
+					security: [{ bearerAuth: [] }],
+					summary: "Create transcription",
+					tags: ["OpenAI"],
+				},
+				error: handleValidationError,
+			},
+		)
+
+		.post(
+			"/v1/audio/translations",
+			({ body, headers, request, server, set }) =>
+				Tracing.traceRequest(
+					"POST /v1/audio/translations",
+					{ headers, set },
+					() =>
+						handleAudioRequest(
+							body,
+							"translate",
+							Auth.identify(headers.authorization),
+							clientOf(headers, addressOf({ headers, request, server })),
+							set,
+						),
+				),
+			{
+				beforeHandle: [requireTranscribe, limitRequests],
+				body: TranslationRequestSchema,
+				detail: {
+					description:
+						"Translate audio into English (OpenAI audio API compatible)",
+					security: [{ bearerAuth: [] }],
+					summary: "Create translation",
+					tags: ["OpenAI"],
+				},
+				error: handleValidationError,
+			},
+		);
+}
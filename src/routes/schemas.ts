@@ -0,0 +1,56 @@
+import { type Static, t } from "elysia";
+
+// TypeBox Schemas shared by several routes
+export const ErrorResponseSchema = t.Object({
+	code: t.Optional(t.String()),
+	error: t.String(),
+	success: t.Boolean(),
+});
+
+export const TranscriptionWordSchema = t.Object({
+	end: t.Number(),
+	probability: t.Nullable(t.Number()),
+	start: t.Number(),
+	text: t.String(),
+});
+
+export const TranscriptionSegmentSchema = t.Object({
+	confidence: t.Nullable(t.Number()),
+	end: t.Number(),
+	speaker: t.Nullable(t.String()),
+	start: t.Number(),
+	text: t.String(),
+	words: t.Optional(t.Array(TranscriptionWordSchema)),
+});
+
+export const TranscriptionResultSchema = t.Object({
+	confidence: t.Number(),
+	duration: t.Number(),
+	language: t.String(),
+	metadata: t.Record(t.String(), t.String()),
+	provider: t.String(),
+	segments: t.Array(TranscriptionSegmentSchema),
+	text: t.String(),
+});
+
+const WebhookMetadataSchema = t.Record(t.String(), t.String(), {
+	description: "Request metadata, with job_id for async jobs",
+});
+
+/** Body posted to a callback URL, see Webhooks */
+export const WebhookPayloadSchema = t.Union([
+	t.Object({
+		event: t.Literal("transcription.succeeded"),
+		metadata: WebhookMetadataSchema,
+		result: TranscriptionResultSchema,
+		transcription_id: t.String(),
+	}),
+	t.Object({
+		error: t.String(),
+		event: t.Literal("transcription.failed"),
+		metadata: WebhookMetadataSchema,
+		transcription_id: t.String(),
+	}),
+]);
+
+export type WebhookPayload = Static<typeof WebhookPayloadSchema>;
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createApp } from "../app";
+import { Config } from "../config";
+import { Manager } from "../manager";
+import type { StreamMessage } from "../streaming";
+import { type Worker, WorkerState } from "../workers";
+
+describe("WS /api/v1/transcriptions/stream", () => {
+	const { streaming } = Config.config;
+	let app: ReturnType<typeof createApp> | null = null;
+	let whisper: ReturnType<typeof Bun.serve> | null = null;
+
+	afterEach(async () => {
+		Config.config.streaming = streaming;
+		Manager.workers.clear();
+		await app?.stop(true);
+		app = null;
+		whisper?.stop(true);
+		whisper = null;
+	});
+
+	/** Serve the app and a worker answering every window with "Hallo" */
+	function serve(): string {
+		whisper = Bun.serve({
+			fetch: () =>
+				Response.json({
+					segments: [{ end: 0.4, start: 0, text: "Hallo" }],
+					text: "Hallo",
+				}),
+			port: 0,
+		});
+		const worker: Worker = {
+			acceptingRequests: true,
+			baseUrl: `http://127.0.0.1:${whisper.port}`,
+			consecutiveFailures: 0,
+			id: "worker_45800_test",
+			inFlight: 0,
+			lastHealthyAt: Date.now(),
+			pool: "default",
+			port: 45800,
+			process: undefined as unknown as Worker["process"],
+			recentLatencyMs: null,
+			requestCount: 0,
+			startedAt: Date.now(),
+			state: WorkerState.Healthy,
+		};
+		Manager.workers.set(worker.id, worker);
+		app = createApp().listen(0);
+		return `ws://127.0.0.1:${app.server?.port}/api/v1/transcriptions/stream`;
+	}
+
+	test("streams PCM frames and answers with segments", async () => {
+		const socket = new WebSocket(serve());
+		const messages: StreamMessage[] = [];
+		const closed = new Promise<number>((resolve) => {
+			socket.onclose = (event) => resolve(event.code);
+		});
+		socket.onmessage = (event) => {
+			const message = JSON.parse(event.data as string);
+			messages.push(message);
+			if (message.type === "ready") {
+				socket.send(new Uint8Array(16000));
+				socket.send("not audio");
+				socket.send(JSON.stringify({ type: "end" }));
+			}
+		};
+
+		expect(await closed).toBe(1000);
+		expect(messages.map((m) => m.type)).toEqual([
+			"ready",
+			"error",
+			"final",
+			"done",
+		]);
+		expect(messages[1]).toMatchObject({ code: "INVALID_MESSAGE" });
+		expect(messages[2]).toEqual({
+			segments: [{ end: 0.4, id: 0, start: 0, text: "Hallo" }],
+			type: "final",
+		});
+	});
+
+	test("refuses unknown models and sessions over the limit", async () => {
+		const url = serve();
+		// A WebSocket handshake, so the refusal can be read as a response
+		const handshake = (query = "") =>
+			fetch(`${url.replace("ws:", "http:")}${query}`, {
+				headers: {
+					connection: "Upgrade",
+					"sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+					"sec-websocket-version": "13",
+					upgrade: "websocket",
+				},
+			});
+		const unknown = await handshake("?model=large-v9");
+		expect(unknown.status).toBe(400);
+		expect(await unknown.json()).toMatchObject({ code: "UNKNOWN_MODEL" });
+
+		Config.config.streaming = { ...streaming, maxSessions: 1 };
+		const socket = new WebSocket(url);
+		await new Promise((resolve) => {
+			socket.onmessage = resolve;
+		});
+		const over = await handshake();
+		expect(over.status).toBe(503);
+		expect(over.headers.get("retry-after")).toBe("5");
+		expect(await over.json()).toMatchObject({ code: "TOO_MANY_SESSIONS" });
+		socket.close();
+	});
+});
@@ -0,0 +1,141 @@
+import type { Elysia } from "elysia";
+import { t } from "elysia";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { Manager } from "../manager";
+import { Streaming, type StreamSession } from "../streaming";
+import { rejectUnauthorized } from "./auth";
+import { addressOf, clientOf, rejectOverLimit } from "./limits";
+
+const StreamQuerySchema = t.Object({
+	api_key: t.Optional(
+		t.String({
+			description:
+				"API key, for clients that cannot set the Authorization header (browsers)",
+		}),
+	),
+	language: t.Optional(t.String({ description: "Language code (e.g., 'en')" })),
+	model: t.Optional(
+		t.String({ description: "Model name or alias, routes to its pool" }),
+	),
+	pool: t.Optional(t.String({ description: "Worker pool to use" })),
+	prompt: t.Optional(
+		t.String({ description: "Text to guide the model's style" }),
+	),
+	sample_rate: t.Optional(
+		t.Numeric({
+			default: 16000,
+			description: "Sample rate of the 16-bit mono PCM frames",
+			maximum: 192000,
+			minimum: 8000,
+		}),
+	),
+});
+
+// Seconds a client is asked to wait when every session slot is taken
+const SESSIONS_RETRY_AFTER_S = 5;
+
+/**
+ * WebSocket endpoint for live transcription, backed by Streaming sessions.
+ */
+export function registerStreamRoutes(app: Elysia): void {
+	// Sessions by WebSocket connection id
+	const sessions = new Map<string, StreamSession>();
+
+	app.ws("/api/v1/transcriptions/stream", {
+		beforeHandle(context) {
+			const { headers, query, set } = context;
+			const authorization = headers.authorization ?? query.api_key;
+			const denied = rejectUnauthorized(authorization, "transcribe", set);
+			if (denied) {
+				return denied;
+			}
+			if (Manager.resolvePool(query) === null) {
+				set.status = 400;
+				return {
+					code: "UNKNOWN_MODEL",
+					error: `No worker pool serves ${query.pool ? `pool "${query.pool}"` : `model "${query.model}"`}`,
+					success: false,
+				};
+			}
+			const { maxSessions } = Config.config.streaming;
+			if (maxSessions > 0 && Streaming.count() >= maxSessions) {
+				set.status = 503;
+				set.headers["retry-after"] = String(SESSIONS_RETRY_AFTER_S);
+				return {
+					code: "TOO_MANY_SESSIONS",
+					error: `The server is at its limit of ${maxSessions} streaming sessions`,
+					success: false,
+				};
+			}
+			return rejectOverLimit(
+				clientOf(headers, addressOf(context), authorization),
+				set,
+			);
+		},
+		close(ws) {
+			const session = sessions.get(ws.id);
+			if (session) {
+				sessions.delete(ws.id);
+				Streaming.close(session);
+			}
+		},
+		detail: {
+			description:
+				'Stream 16-bit little-endian mono PCM as binary frames and send {"type":"end"} when done. The server replies with partial and final segments (stable ids), worker_changed when the session moves to another worker, and done before closing.',
+			security: [{ bearerAuth: [] }],
+			summary: "Stream a live transcription",
+			tags: ["Transcription"],
+		},
+		idleTimeout: Config.config.streaming.idleTimeoutSeconds,
+		message(ws, message) {
+			const session = sessions.get(ws.id);
+			if (!session) {
+				return;
+			}
+			if (message instanceof Uint8Array) {
+				Streaming.push(session, message);
+				return;
+			}
+			if (
+				typeof message === "object" &&
+				message !== null &&
+				"type" in message &&
+				message.type === "end"
+			) {
+				Streaming.finish(session);
+				return;
+			}
+			ws.send({
+				code: "INVALID_MESSAGE",
+				message: 'Send binary PCM frames, then {"type":"end"}',
+				type: "error",
+			});
+		},
+		open(ws) {
+			const { api_key, language, prompt, sample_rate } = ws.data.query;
+			const pool =
+				Manager.resolvePool(ws.data.query) ?? Config.defaultPoolName();
+			const authorization = ws.data.headers.authorization ?? api_key;
+			const apiKey = Auth.identify(authorization);
+			sessions.set(
+				ws.id,
+				Streaming.open(
+					{
+						apiKey: apiKey?.name,
+						client: clientOf(ws.data.headers, ws.remoteAddress, authorization),
+						language,
+						pool,
+						prompt,
+						sampleRate: sample_rate ?? 16000,
+					},
+					{
+						close: (code, reason) => ws.close(code, reason),
+						send: (message) => ws.send(message),
+					},
+				),
+			);
+		},
+		query: StreamQuerySchema,
+	});
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createApp } from "../app";
+import { Auth } from "../auth";
+import { Config } from "../config";
+import { Webhooks } from "../webhooks";
+
+function request(
+	path: string,
+	key: string,
+	method: "GET" | "POST" = "GET",
+): Promise<Response> {
+	return createApp().handle(
+		new Request(`http://localhost/api/v1/webhooks${path}`, {
+			headers: { authorization: `Bearer ${key}` },
+			method,
+		}),
+	);
+}
+
+describe("webhook deliveries", () => {
+	const { auth, webhooks } = Config.config;
+	let receiver: ReturnType<typeof Bun.serve> | null = null;
+
+	/** Queue the callback of a failed transcription and wait for it to fail */
+	async function failedDelivery(): Promise<string> {
+		receiver = Bun.serve({
+			fetch: () => new Response(null, { status: 500 }),
+			port: 0,
+		});
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		Webhooks.enqueue(
+			`http://127.0.0.1:${receiver.port}/hook`,
+			{ id, metadata: { job_id: "job_1" } },
+			{ error: new Error("worker died") },
+		);
+		for (let waited = 0; waited < 2000; waited += 5) {
+			const [delivery] = Webhooks.list(
+				{ transcriptionId: id },
+				{ limit: 1, offset: 0 },
+			).deliveries;
+			if (delivery?.status === "failed") {
+				return id;
+			}
+			await Bun.sleep(5);
+		}
+		throw new Error(`Delivery of ${id} did not fail`);
+	}
+
+	beforeEach(async () => {
+		Config.config.auth = {
+			keys: [
+				{ name: "app", scopes: ["read"], sha256: Auth.hashKey("key-app") },
+				{ name: "ops", scopes: ["admin"], sha256: Auth.hashKey("key-ops") },
+			],
+			keysFile: "",
+		};
+		Config.config.webhooks = {
+			...webhooks,
+			allowedHosts: ["127.0.0.1"],
+			maxAttempts: 1,
+			secret: "whsecret",
+		};
+		await Auth.reload();
+		Webhooks.init();
+	});
+
+	afterEach(async () => {
+		Webhooks.dispose();
+		Config.config.auth = auth;
+		Config.config.webhooks = webhooks;
+		await Auth.reload();
+		receiver?.stop(true);
+		receiver = null;
+	});
+
+	test("are listed with their payload and attempts", async () => {
+		const id = await failedDelivery();
+
+		expect((await request("", "key-app")).status).toBe(403);
+		const response = await request(`?transcription_id=${id}`, "key-ops");
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			deliveries: [
+				{
+					attempts: 1,
+					event: "transcription.failed",
+					history: [{ attempt: 1, error: "HTTP 500", statusCode: 500 }],
+					payload: {
+						error: "worker died",
+						event: "transcription.failed",
+						metadata: { job_id: "job_1" },
+						transcription_id: id,
+					},
+					status: "failed",
+				},
+			],
+			total: 1,
+		});
+	});
+
+	test("are redelivered once, until that attempt is done", async () => {
+		const id = await failedDelivery();
+		const [failed] = Webhooks.list(
+			{ transcriptionId: id },
+			{ limit: 1, offset: 0 },
+		).deliveries;
+
+		const path = `/${failed?.id}/redeliver`;
+		const response = await request(path, "key-ops", "POST");
+		expect(response.status).toBe(202);
+		expect(await response.json()).toMatchObject({
+			delivery: { attempts: 0, status: "pending" },
+			success: true,
+		});
+
+		const again = await request(path, "key-ops", "POST");
+		expect(again.status).toBe(409);
+		expect(await again.json()).toMatchObject({ code: "WEBHOOK_PENDING" });
+
+		const missing = await request("/wh_missing/redeliver", "key-ops", "POST");
+		expect(missing.status).toBe(404);
+		expect(await missing.json()).toMatchObject({ code: "WEBHOOK_NOT_FOUND" });
+	});
+});
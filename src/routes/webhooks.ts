@@ -0,0 +1,150 @@
+import type { Elysia } from "elysia";
+import { t } from "elysia";
+import {
+	type Delivery,
+	WEBHOOK_ERROR_STATUS,
+	WebhookError,
+	Webhooks,
+} from "../webhooks";
+import { requireScope } from "./auth";
+import { ErrorResponseSchema, WebhookPayloadSchema } from "./schemas";
+
+const DeliveryListQuerySchema = t.Object({
+	limit: t.Optional(t.Numeric({ default: 50, maximum: 500, minimum: 1 })),
+	offset: t.Optional(t.Numeric({ default: 0, minimum: 0 })),
+	// Not a UnionEnum, which Elysia would default to its first value
+	status: t.Optional(
+		t.Union([
+			t.Literal("pending"),
+			t.Literal("delivered"),
+			t.Literal("failed"),
+		]),
+	),
+	transcription_id: t.Optional(t.String()),
+});
+
+const DeliverySchema = t.Object({
+	attempts: t.Number(),
+	createdAt: t.String(),
+	deliveredAt: t.Nullable(t.String()),
+	event: t.String(),
+	history: t.Array(
+		t.Object({
+			attempt: t.Number(),
+			attemptedAt: t.String(),
+			durationMs: t.Number(),
+			error: t.Nullable(t.String()),
+			statusCode: t.Nullable(t.Number()),
+		}),
+	),
+	id: t.String(),
+	nextAttemptAt: t.Nullable(t.String()),
+	payload: WebhookPayloadSchema,
+	status: t.String(),
+	transcriptionId: t.String(),
+	url: t.String(),
+});
+
+const DeliveryListResponseSchema = t.Object({
+	deliveries: t.Array(DeliverySchema),
+	limit: t.Number(),
+	offset: t.Number(),
+	success: t.Boolean(),
+	total: t.Number(),
+});
+
+const DeliveryResponseSchema = t.Object({
+	delivery: DeliverySchema,
+	success: t.Boolean(),
+});
+
+function toDeliveryView(delivery: Delivery) {
+	const iso = (ms: number | null) =>
+		ms === null ? null : new Date(ms).toISOString();
+	return {
+		...delivery,
+		createdAt: new Date(delivery.createdAt).toISOString(),
+		deliveredAt: iso(delivery.deliveredAt),
+		history: delivery.history.map((attempt) => ({
+			...attempt,
+			attemptedAt: new Date(attempt.attemptedAt).toISOString(),
+		})),
+		nextAttemptAt: iso(delivery.nextAttemptAt),
+	};
+}
+
+/**
+ * List and redeliver webhook callbacks (see Webhooks).
+ */
+export function registerWebhookRoutes(app: Elysia): void {
+	app
+		.get(
+			"/api/v1/webhooks",
+			({ query }) => {
+				const limit = query.limit ?? 50;
+				const offset = query.offset ?? 0;
+				const { deliveries, total } = Webhooks.list(
+					{ status: query.status, transcriptionId: query.transcription_id },
+					{ limit, offset },
+				);
+				return {
+					deliveries: deliveries.map(toDeliveryView),
+					limit,
+					offset,
+					success: true,
+					total,
+				};
+			},
+			{
+				beforeHandle: requireScope("admin"),
+				detail: {
+					description:
+						"List webhook deliveries, most recent first, with every attempt made. `status=failed` lists the ones that ran out of attempts.",
+					security: [{ bearerAuth: [] }],
+					summary: "List webhook deliveries",
+					tags: ["Webhooks"],
+				},
+				query: DeliveryListQuerySchema,
+				response: {
+					200: DeliveryListResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+				},
+			},
+		)
+
+		.post(
+			"/api/v1/webhooks/:id/redeliver",
+			({ params, set }) => {
+				try {
+					const delivery = Webhooks.redeliver(params.id);
+					set.status = 202;
+					return { delivery: toDeliveryView(delivery), success: true };
+				} catch (error) {
+					if (error instanceof WebhookError) {
+						set.status = WEBHOOK_ERROR_STATUS[error.code];
+						return { code: error.code, error: error.message, success: false };
+					}
+					throw error;
+				}
+			},
+			{
+				beforeHandle: requireScope("admin"),
+				detail: {
+					description:
+						"Send a delivered or failed delivery again right away with a fresh budget of webhooks.maxAttempts attempts, e.g. once the receiver is fixed. The payload is the original one, signed anew. Pending deliveries (an attempt under way or a retry scheduled) get a 409.",
+					security: [{ bearerAuth: [] }],
+					summary: "Redeliver a webhook",
+					tags: ["Webhooks"],
+				},
+				params: t.Object({ id: t.String() }),
+				response: {
+					202: DeliveryResponseSchema,
+					401: ErrorResponseSchema,
+					403: ErrorResponseSchema,
+					404: ErrorResponseSchema,
+					409: ErrorResponseSchema,
+				},
+			},
+		);
+}
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import { Manager } from "../manager";
+import { type Worker, WorkerState } from "../workers";
+import { Streaming, type StreamMessage } from ".";
+
+let nextPort = 45700;
+const servers: ReturnType<typeof Bun.serve>[] = [];
+
+/** A worker entry answering /inference with the given handler */
+function fakeWorker(
+	inference: (request: Request) => Response | Promise<Response>,
+): Worker {
+	const server = Bun.serve({
+		fetch: (request) =>
+			new URL(request.url).pathname === "/inference"
+				? inference(request)
+				: new Response("ok"),
+		port: 0,
+	});
+	servers.push(server);
+	const port = nextPort++;
+	const worker: Worker = {
+		acceptingRequests: true,
+		baseUrl: `http://127.0.0.1:${server.port}`,
+		consecutiveFailures: 0,
+		id: `worker_${port}_test`,
+		inFlight: 0,
+		lastHealthyAt: Date.now(),
+		pool: "default",
+		port,
+		process: undefined as unknown as Worker["process"],
+		recentLatencyMs: null,
+		requestCount: 0,
+		startedAt: Date.now(),
+		state: WorkerState.Healthy,
+	};
+	Manager.workers.set(worker.id, worker);
+	return worker;
+}
+
+/** Whisper's answer for every window: two segments */
+const twoSegments = () =>
+	Response.json({
+		segments: [
+			{ end: 0.4, start: 0, text: "Hallo" },
+			{ end: 0.9, start: 0.4, text: "Welt" },
+		],
+		text: "Hallo Welt",
+	});
+
+/** Silent 16 kHz 16-bit PCM */
+const pcm = (seconds: number) => new Uint8Array(seconds * 16000 * 2);
+
+/** A client collecting what the session sends it */
+function client() {
+	const messages: StreamMessage[] = [];
+	let closed: { code: number; reason: string } | null = null;
+	return {
+		closed: () => closed,
+		close(code: number, reason: string) {
+			closed = { code, reason };
+		},
+		messages,
+		/** The first message of a type, once it arrived */
+		async received<T extends StreamMessage["type"]>(
+			type: T,
+			after = 0,
+		): Promise<Extract<StreamMessage, { type: T }>> {
+			for (let waited = 0; waited < 2000; waited += 5) {
+				const message = messages.slice(after).find((m) => m.type === type);
+				if (message) {
+					return message as Extract<StreamMessage, { type: T }>;
+				}
+				await Bun.sleep(5);
+			}
+			throw new Error(`No ${type} message`);
+		},
+		send(message: StreamMessage) {
+			messages.push(message);
+		},
+	};
+}
+
+describe("Streaming", () => {
+	const { queue, streaming } = Config.config;
+
+	beforeEach(() => {
+		Config.config.streaming = {
+			...streaming,
+			maxWindowSeconds: 2,
+			partialIntervalSeconds: 0.5,
+			windowSeconds: 1,
+		};
+	});
+
+	afterEach(() => {
+		Config.config.queue = queue;
+		Config.config.streaming = streaming;
+		Manager.workers.clear();
+		for (const server of servers.splice(0)) {
+			server.stop(true);
+		}
+	});
+
+	test("sends partials until the client ends, then final segments", async () => {
+		const worker = fakeWorker(twoSegments);
+		const connection = client();
+		const session = Streaming.open(
+			{ pool: "default", sampleRate: 16000 },
+			connection,
+		);
+		expect(await connection.received("ready")).toEqual({
+			sample_rate: 16000,
+			session_id: session.id,
+			type: "ready",
+			worker_id: worker.id,
+		});
+		expect(Streaming.count()).toBe(1);
+
+		// Frames may split a sample
+		Streaming.push(session, pcm(0.5).subarray(1));
+		Streaming.push(session, new Uint8Array(1));
+		expect((await connection.received("partial")).segments).toEqual([
+			{ end: 0.4, id: 0, start: 0, text: "Hallo" },
+			{ end: 0.5, id: 1, start: 0.4, text: "Welt" },
+		]);
+
+		Streaming.finish(session);
+		expect((await connection.received("final")).segments).toEqual([
+			{ end: 0.4, id: 0, start: 0, text: "Hallo" },
+			{ end: 0.5, id: 1, start: 0.4, text: "Welt" },
+		]);
+		expect(await connection.received("done")).toEqual({
+			duration: 0.5,
+			type: "done",
+		});
+		expect(connection.closed()).toEqual({ code: 1000, reason: "Done" });
+		expect(Streaming.count()).toBe(0);
+	});
+
+	test("commits all but the last segment once the window is full", async () => {
+		const prompts: (string | null)[] = [];
+		fakeWorker(async (request) => {
+			prompts.push((await request.formData()).get("prompt") as string | null);
+			return twoSegments();
+		});
+		const connection = client();
+		const session = Streaming.open(
+			{ pool: "default", sampleRate: 16000 },
+			connection,
+		);
+		await connection.received("ready");
+
+		Streaming.push(session, pcm(1));
+		expect((await connection.received("final")).segments).toEqual([
+			{ end: 0.4, id: 0, start: 0, text: "Hallo" },
+		]);
+		expect((await connection.received("partial")).segments).toEqual([
+			{ end: 0.9, id: 1, start: 0.4, text: "Welt" },
+		]);
+
+		// The committed audio is dropped and its text becomes the prompt
+		const finals = connection.messages.length;
+		Streaming.finish(session);
+		expect((await connection.received("final", finals)).segments).toEqual([
+			{ end: 0.8, id: 1, start: 0.4, text: "Hallo" },
+			{ end: 1, id: 2, start: 0.8, text: "Welt" },
+		]);
+		expect(await connection.received("done")).toEqual({
+			duration: 1,
+			type: "done",
+		});
+		expect(prompts).toEqual([null, "Hallo"]);
+	});
+
+	test("moves the session once its worker stops taking requests", async () => {
+		const first = fakeWorker(twoSegments);
+		const connection = client();
+		const session = Streaming.open(
+			{ pool: "default", sampleRate: 16000 },
+			connection,
+		);
+		await connection.received("ready");
+		const second = fakeWorker(twoSegments);
+		first.acceptingRequests = false;
+
+		Streaming.push(session, pcm(0.5));
+		expect(await connection.received("worker_changed")).toEqual({
+			previous_worker_id: first.id,
+			type: "worker_changed",
+			worker_id: second.id,
+		});
+		await connection.received("partial");
+		expect(first.requestCount).toBe(0);
+		expect(second.requestCount).toBe(1);
+		Streaming.close(session);
+	});
+
+	test("fails the session when no other worker takes over", async () => {
+		Config.config.queue = { ...queue, maxWaitMs: 50 };
+		const worker = fakeWorker(() => new Response("crashed", { status: 500 }));
+		const connection = client();
+		const session = Streaming.open(
+			{ pool: "default", sampleRate: 16000 },
+			connection,
+		);
+		await connection.received("ready");
+
+		Streaming.push(session, pcm(0.5));
+		expect(await connection.received("error")).toMatchObject({
+			code: "QUEUE_TIMEOUT",
+		});
+		expect(connection.closed()).toEqual({
+			code: 1011,
+			reason: "Transcription failed",
+		});
+		expect(worker.requestCount).toBe(1);
+		expect(Streaming.count()).toBe(0);
+	});
+});
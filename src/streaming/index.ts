@@ -0,0 +1,428 @@
+import { Audio } from "../audio";
+import { Config } from "../config";
+import { Limits } from "../limits";
+import {
+	Manager,
+	type TranscriptionSegment,
+	WorkerRequestError,
+	WorkerUnavailableError,
+} from "../manager";
+import { Log } from "../observability/logger";
+import type { Worker } from "../workers";
+
+const log = Log.child({ module: "Streaming" });
+
+/** A segment sent to a streaming client, timed from the start of the session */
+export interface StreamSegment {
+	/** Stays the same from the first partial to the final message */
+	id: number;
+	start: number;
+	end: number;
+	text: string;
+}
+
+/** Messages sent to a streaming client */
+export type StreamMessage =
+	| {
+			type: "ready";
+			session_id: string;
+			sample_rate: number;
+			worker_id: string;
+	  }
+	/** Replaces the previous partial segments */
+	| { type: "partial"; segments: StreamSegment[] }
+	| { type: "final"; segments: StreamSegment[] }
+	| { type: "worker_changed"; worker_id: string; previous_worker_id: string }
+	| { type: "error"; code: string; message: string }
+	| { type: "done"; duration: number };
+
+export interface StreamOptions {
+	/** Name of the caller's API key, for logs */
+	apiKey?: string;
+	/** Rate limit client charged for the session's audio */
+	client?: string;
+	pool: string;
+	language?: string;
+	prompt?: string;
+	/** Sample rate of the client's 16-bit mono PCM frames */
+	sampleRate: number;
+}
+
+/** The client end of a session (a WebSocket) */
+export interface StreamConnection {
+	send(message: StreamMessage): void;
+	close(code: number, reason: string): void;
+}
+
+export interface StreamSession {
+	id: string;
+	options: StreamOptions;
+	connection: StreamConnection;
+	/** Worker every window is sent to, replaced once it stops taking requests */
+	worker: Worker | null;
+	/** Audio not committed yet, at Audio.SAMPLE_RATE */
+	pending: Float32Array;
+	pendingLength: number;
+	/** Session time of the first pending sample, in seconds */
+	offset: number;
+	/** pendingLength when the window was last transcribed */
+	transcribedLength: number;
+	/** Odd trailing byte of the last frame, completed by the next one */
+	carry: Uint8Array | null;
+	nextSegmentId: number;
+	/** Text of the latest final segments, given to the worker as context */
+	context: string;
+	busy: boolean;
+	ending: boolean;
+	closed: boolean;
+	startedAt: number;
+}
+
+/**
+ * Live transcription sessions. Clients stream PCM frames, which are buffered
+ * into a window that is transcribed again as audio arrives (partial
+ * segments). Once the window is long enough, its finished segments become
+ * final and their audio is dropped. All windows of a session go to the
+ * worker pinned to it, until that worker rotates, drains or fails.
+ */
+export namespace Streaming {
+	const sessions = new Map<string, StreamSession>();
+
+	// Characters of final text passed as the prompt of the next window
+	const CONTEXT_CHARS = 200;
+
+	/** Number of open sessions */
+	export function count(): number {
+		return sessions.size;
+	}
+
+	/**
+	 * Start a session. A worker of the pool is pinned to it before the
+	 * client is told it is ready; audio sent meanwhile is buffered.
+	 */
+	export function open(
+		options: StreamOptions,
+		connection: StreamConnection,
+	): StreamSession {
+		const session: StreamSession = {
+			busy: true,
+			carry: null,
+			closed: false,
+			connection,
+			context: "",
+			ending: false,
+			id: `stream_${Bun.randomUUIDv7()}`,
+			nextSegmentId: 0,
+			offset: 0,
+			options,
+			pending: new Float32Array(Audio.SAMPLE_RATE * 4),
+			pendingLength: 0,
+			startedAt: Date.now(),
+			transcribedLength: 0,
+			worker: null,
+		};
+		sessions.set(session.id, session);
+
+		pinnedWorker(session).then(
+			(worker) => {
+				log.info(
+					{
+						apiKey: options.apiKey,
+						pool: options.pool,
+						sessionId: session.id,
+						workerId: worker.id,
+					},
+					"Streaming session started",
+				);
+				send(session, {
+					sample_rate: options.sampleRate,
+					session_id: session.id,
+					type: "ready",
+					worker_id: worker.id,
+				});
+				session.busy = false;
+				schedule(session);
+			},
+			(error) => fail(session, error),
+		);
+		return session;
+	}
+
+	/**
+	 * Add a frame of 16-bit little-endian mono PCM to the session.
+	 */
+	export function push(session: StreamSession, frame: Uint8Array): void {
+		if (session.ending || session.closed) {
+			return;
+		}
+		let bytes = frame;
+		if (session.carry) {
+			bytes = new Uint8Array(session.carry.length + frame.length);
+			bytes.set(session.carry);
+			bytes.set(frame, session.carry.length);
+		}
+		session.carry = bytes.length % 2 === 1 ? bytes.slice(-1) : null;
+
+		const samples = Audio.decodePcm16(bytes, session.options.sampleRate);
+		const needed = session.pendingLength + samples.length;
+		if (needed > session.pending.length) {
+			const grown = new Float32Array(
+				Math.max(needed, session.pending.length * 2),
+			);
+			grown.set(session.pending.subarray(0, session.pendingLength));
+			session.pending = grown;
+		}
+		session.pending.set(samples, session.pendingLength);
+		session.pendingLength = needed;
+		schedule(session);
+	}
+
+	/**
+	 * The client has no more audio: transcribe what is left, send it as
+	 * final segments and close the session.
+	 */
+	export function finish(session: StreamSession): void {
+		session.ending = true;
+		schedule(session);
+	}
+
+	/**
+	 * Forget a session whose connection closed. A window being transcribed
+	 * finishes on the worker but is not sent. The audio received is charged
+	 * to the client's quotas.
+	 */
+	export function close(session: StreamSession): void {
+		if (!sessions.delete(session.id)) {
+			return;
+		}
+		session.closed = true;
+		const duration = session.offset + session.pendingLength / Audio.SAMPLE_RATE;
+		if (session.options.client) {
+			Limits.charge(session.options.client, duration);
+		}
+		log.info(
+			{
+				duration,
+				durationMs: Date.now() - session.startedAt,
+				segments: session.nextSegmentId,
+				sessionId: session.id,
+			},
+			"Streaming session closed",
+		);
+	}
+
+	/**
+	 * End every session, e.g. on shutdown.
+	 */
+	export function dispose(): void {
+		for (const session of sessions.values()) {
+			send(session, {
+				code: "SHUTTING_DOWN",
+				message: "Server is shutting down",
+				type: "error",
+			});
+			session.connection.close(1001, "Server is shutting down");
+			close(session);
+		}
+	}
+
+	function send(session: StreamSession, message: StreamMessage): void {
+		if (!session.closed) {
+			session.connection.send(message);
+		}
+	}
+
+	function fail(session: StreamSession, error: unknown): void {
+		if (session.closed) {
+			return;
+		}
+		log.warn({ error, sessionId: session.id }, "Streaming session failed");
+		send(session, {
+			code:
+				error instanceof WorkerUnavailableError
+					? error.code
+					: error instanceof WorkerRequestError
+						? "WORKER_ERROR"
+						: "STREAM_FAILED",
+			message: error instanceof Error ? error.message : String(error),
+			type: "error",
+		});
+		session.connection.close(1011, "Transcription failed");
+		close(session);
+	}
+
+	/**
+	 * Transcribe the window when enough new audio has arrived (or the client
+	 * is done) and no window of the session is being transcribed.
+	 */
+	function schedule(session: StreamSession): void {
+		if (session.busy || session.closed) {
+			return;
+		}
+		const fresh = session.pendingLength - session.transcribedLength;
+		const interval =
+			Config.config.streaming.partialIntervalSeconds * Audio.SAMPLE_RATE;
+		if (!session.ending && fresh < interval) {
+			return;
+		}
+
+		session.busy = true;
+		step(session).then(
+			() => {
+				session.busy = false;
+				schedule(session);
+			},
+			(error) => fail(session, error),
+		);
+	}
+
+	async function step(session: StreamSession): Promise<void> {
+		const rate = Audio.SAMPLE_RATE;
+		const final = session.ending;
+		const length = session.pendingLength;
+		const duration = length / rate;
+		session.transcribedLength = length;
+
+		let segments: TranscriptionSegment[] = [];
+		if (length > 0) {
+			const audio = new File(
+				[Audio.encodeWav(session.pending.subarray(0, length))],
+				"stream.wav",
+				{ type: "audio/wav" },
+			);
+			const result = await transcribeWindow(session, audio);
+			segments = result.segments.filter((s) => s.text);
+		}
+		if (session.closed) {
+			return;
+		}
+
+		// The last segment may still change as more audio arrives
+		const { maxWindowSeconds, windowSeconds } = Config.config.streaming;
+		const commit =
+			final || duration >= maxWindowSeconds
+				? segments.length
+				: duration >= windowSeconds
+					? segments.length - 1
+					: 0;
+		const committed = segments.slice(0, Math.max(0, commit));
+		const partial = segments.slice(committed.length);
+		const windowOffset = session.offset;
+		const timed = (segment: TranscriptionSegment, id: number) => ({
+			end: toMs(windowOffset + Math.min(segment.end, duration)),
+			id,
+			start: toMs(windowOffset + Math.min(segment.start, duration)),
+			text: segment.text,
+		});
+
+		let cut = 0;
+		const last = committed[committed.length - 1];
+		if (last) {
+			send(session, {
+				segments: committed.map((s) => timed(s, session.nextSegmentId++)),
+				type: "final",
+			});
+			session.context =
+				`${session.context} ${committed.map((s) => s.text).join(" ")}`
+					.trim()
+					.slice(-CONTEXT_CHARS);
+			cut =
+				partial.length === 0
+					? length
+					: Math.min(length, Math.round(last.end * rate));
+		} else if (duration >= maxWindowSeconds) {
+			// Nothing was recognized in a full window
+			cut = length;
+		}
+
+		if (cut > 0) {
+			session.pending.copyWithin(0, cut, session.pendingLength);
+			session.pendingLength -= cut;
+			session.transcribedLength = Math.max(0, session.transcribedLength - cut);
+			session.offset += cut / rate;
+		}
+
+		if (final) {
+			send(session, { duration: toMs(session.offset), type: "done" });
+			session.connection.close(1000, "Done");
+			close(session);
+			return;
+		}
+
+		send(session, {
+			segments: partial.map((s, i) => timed(s, session.nextSegmentId + i)),
+			type: "partial",
+		});
+	}
+
+	/** Round seconds to milliseconds (offsets add up float error) */
+	function toMs(seconds: number): number {
+		return Math.round(seconds * 1000) / 1000;
+	}
+
+	/**
+	 * Send a window to the pinned worker. A retryable failure (e.g. the
+	 * worker died) moves the session to another worker and tries once more.
+	 */
+	async function transcribeWindow(session: StreamSession, audio: File) {
+		const { language, pool, prompt } = session.options;
+		for (let attempt = 1; ; attempt++) {
+			const worker = await pinnedWorker(session, attempt > 1);
+			try {
+				return await Manager.transcribeOn(worker, audio, {
+					language,
+					pool,
+					prompt: prompt ?? (session.context || undefined),
+					timestamps: true,
+				});
+			} catch (error) {
+				if (
+					!(error instanceof WorkerRequestError && error.retryable) ||
+					attempt > 1
+				) {
+					throw error;
+				}
+				log.warn(
+					{ error, sessionId: session.id, workerId: worker.id },
+					"Pinned worker failed, moving session to another worker",
+				);
+			}
+		}
+	}
+
+	/**
+	 * The session's worker, or a new one when it is no longer taking
+	 * requests (rotating, draining, unhealthy) or just failed.
+	 */
+	async function pinnedWorker(
+		session: StreamSession,
+		failed = false,
+	): Promise<Worker> {
+		const previous = session.worker;
+		if (previous && !failed && Manager.isAccepting(previous)) {
+			return previous;
+		}
+
+		const worker = await Manager.acquireWorker(
+			session.options.pool,
+			previous ? new Set([previous.id]) : new Set(),
+		);
+		session.worker = worker;
+		if (previous) {
+			log.info(
+				{
+					previousWorkerId: previous.id,
+					sessionId: session.id,
+					workerId: worker.id,
+				},
+				"Moved streaming session to another worker",
+			);
+			send(session, {
+				previous_worker_id: previous.id,
+				type: "worker_changed",
+				worker_id: worker.id,
+			});
+		}
+		return worker;
+	}
+}
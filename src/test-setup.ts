@@ -0,0 +1,10 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Keep test runs out of the real XDG directories (config, history, jobs...)
+const root = mkdtempSync(join(tmpdir(), "inference-server-manager-test-"));
+for (const dir of ["cache", "config", "data", "state"]) {
+	process.env[`XDG_${dir.toUpperCase()}_HOME`] = join(root, dir);
+}
+process.env.LOG_LEVEL ??= "silent";
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Config } from "../config";
+import type { TranscriptionResult } from "../manager";
+import { type Delivery, WebhookError, Webhooks } from ".";
+
+describe("Webhooks.sign", () => {
+	const body = JSON.stringify({ event: "transcription.completed" });
+
+	test("is the HMAC-SHA256 of the timestamp and body", () => {
+		expect(Webhooks.sign("whsecret", 1700000000, body)).toBe(
+			"sha256=0669e8c6b74c2dc03362e6e28b123eeb8c8ea126e4dda1a92eab9e5e0a4c652d",
+		);
+	});
+
+	test("changes with the secret, timestamp and body", () => {
+		const signature = Webhooks.sign("whsecret", 1700000000, body);
+		expect(Webhooks.sign("other", 1700000000, body)).not.toBe(signature);
+		expect(Webhooks.sign("whsecret", 1700000001, body)).not.toBe(signature);
+		expect(Webhooks.sign("whsecret", 1700000000, `${body} `)).not.toBe(
+			signature,
+		);
+	});
+});
+
+describe("Webhooks.checkUrl", () => {
+	const allowedHosts = Config.config.webhooks.allowedHosts;
+
+	afterEach(() => {
+		Config.config.webhooks.allowedHosts = allowedHosts;
+	});
+
+	test("accepts public http(s) addresses", async () => {
+		expect(await Webhooks.checkUrl("https://93.184.215.14/hook")).toBeNull();
+		expect(
+			await Webhooks.checkUrl("http://[2606:4700::1111]:8080/"),
+		).toBeNull();
+	});
+
+	test("refuses other schemes", async () => {
+		expect(await Webhooks.checkUrl("ftp://93.184.215.14/")).toContain(
+			"http(s)",
+		);
+		expect(await Webhooks.checkUrl("not a url")).toContain("http(s)");
+	});
+
+	test.each([
+		"http://127.0.0.1:3000/",
+		"http://0.0.0.0/",
+		"http://10.1.2.3/",
+		"http://100.64.0.1/",
+		"http://169.254.169.254/latest/meta-data",
+		"http://172.16.0.1/",
+		"http://172.31.255.255/",
+		"http://192.168.1.1/",
+		"http://224.0.0.1/",
+		"http://[::1]/",
+		"http://[::]/",
+		"http://[fd00::1]/",
+		"http://[fe80::1]/",
+		"http://[::ffff:127.0.0.1]/",
+		"http://[::ffff:a9fe:a9fe]/",
+		"http://[64:ff9b::a00:1]/",
+	])("refuses the internal address in %s", async (url) => {
+		expect(await Webhooks.checkUrl(url)).toContain("webhooks.allowedHosts");
+	});
+
+	test("accepts internal hosts listed in allowedHosts", async () => {
+		Config.config.webhooks.allowedHosts = ["10.1.2.3", "::1"];
+		expect(await Webhooks.checkUrl("http://10.1.2.3/")).toBeNull();
+		expect(await Webhooks.checkUrl("http://[::1]:9000/")).toBeNull();
+		expect(await Webhooks.checkUrl("http://10.1.2.4/")).not.toBeNull();
+	});
+});
+
+describe("Webhooks delivery", () => {
+	const { webhooks } = Config.config;
+	const envSecret = Bun.env.WEBHOOK_SECRET;
+	let receiver: ReturnType<typeof Bun.serve> | null = null;
+	const received: { body: string; headers: Headers }[] = [];
+
+	const result: TranscriptionResult = {
+		confidence: 1,
+		duration: 1,
+		language: "en",
+		metadata: {},
+		provider: "whisper-server",
+		segments: [],
+		text: "Hello",
+	};
+
+	/** A receiver answering with the given statuses in turn, then 200 */
+	function receive(...statuses: number[]): string {
+		receiver = Bun.serve({
+			fetch: async (request) => {
+				received.push({ body: await request.text(), headers: request.headers });
+				return new Response(null, { status: statuses.shift() ?? 200 });
+			},
+			port: 0,
+		});
+		return `http://127.0.0.1:${receiver.port}/hook`;
+	}
+
+	/** The delivery of a transcription, once it is no longer pending */
+	async function settled(transcriptionId: string): Promise<Delivery> {
+		for (let waited = 0; waited < 2000; waited += 5) {
+			const [delivery] = Webhooks.list(
+				{ transcriptionId },
+				{ limit: 1, offset: 0 },
+			).deliveries;
+			if (delivery && delivery.status !== "pending") {
+				return delivery;
+			}
+			await Bun.sleep(5);
+		}
+		throw new Error(`Delivery of ${transcriptionId} still pending`);
+	}
+
+	beforeEach(() => {
+		delete Bun.env.WEBHOOK_SECRET;
+		Config.config.webhooks = {
+			...webhooks,
+			allowedHosts: ["127.0.0.1"],
+			maxAttempts: 2,
+			retryBackoffMs: 10,
+			secret: "whsecret",
+		};
+		Webhooks.init();
+	});
+
+	afterEach(() => {
+		Webhooks.dispose();
+		Config.config.webhooks = webhooks;
+		Bun.env.WEBHOOK_SECRET = envSecret;
+		if (envSecret === undefined) {
+			delete Bun.env.WEBHOOK_SECRET;
+		}
+		receiver?.stop(true);
+		receiver = null;
+		received.length = 0;
+	});
+
+	test("posts the signed result and retries until it is taken", async () => {
+		const url = receive(503);
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		Webhooks.enqueue(url, { id, metadata: { job_id: "job_1" } }, { result });
+
+		const delivery = await settled(id);
+		expect(delivery).toMatchObject({
+			attempts: 2,
+			event: "transcription.succeeded",
+			status: "delivered",
+		});
+		expect(delivery.history.map((a) => a.statusCode)).toEqual([503, 200]);
+		expect(delivery.history[0]?.error).toBe("HTTP 503");
+
+		const { body, headers } = received[1] ?? {
+			body: "",
+			headers: new Headers(),
+		};
+		expect(JSON.parse(body)).toEqual({
+			event: "transcription.succeeded",
+			metadata: { job_id: "job_1" },
+			result,
+			transcription_id: id,
+		});
+		const timestamp = Number(headers.get("x-webhook-timestamp"));
+		expect(headers.get("x-webhook-id")).toBe(delivery.id);
+		expect(headers.get("x-webhook-signature")).toBe(
+			Webhooks.sign("whsecret", timestamp, body),
+		);
+	});
+
+	test("gives up after maxAttempts and can be sent again", async () => {
+		const url = receive(500, 500);
+		const id = `tr_${Bun.randomUUIDv7()}`;
+		Webhooks.enqueue(url, { id }, { error: new Error("worker died") });
+
+		const failed = await settled(id);
+		expect(failed).toMatchObject({
+			attempts: 2,
+			event: "transcription.failed",
+			payload: { error: "worker died" },
+			status: "failed",
+		});
+
+		expect(Webhooks.redeliver(failed.id)).toMatchObject({
+			attempts: 0,
+			status: "pending",
+		});
+		// Not again while that attempt is pending
+		expect(() => Webhooks.redeliver(failed.id)).toThrow(WebhookError);
+		expect(await settled(id)).toMatchObject({
+			attempts: 1,
+			status: "delivered",
+		});
+		expect(received).toHaveLength(3);
+		expect(() => Webhooks.redeliver("wh_missing")).toThrow(
+			"Webhook delivery wh_missing not found",
+		);
+	});
+});
@@ -0,0 +1,579 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { Config } from "../config";
+import { Db } from "../db";
+import type { TranscriptionResult } from "../manager";
+import { Log } from "../observability/logger";
+import type { WebhookPayload } from "../routes/schemas";
+
+const log = Log.child({ module: "Webhooks" });
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One POST of a delivery to its callback URL */
+export interface DeliveryAttempt {
+	attempt: number;
+	attemptedAt: number;
+	durationMs: number;
+	/** HTTP status of the response, null when the request itself failed */
+	statusCode: number | null;
+	error: string | null;
+}
+
+/** A webhook to send, with its attempts so far */
+export interface Delivery {
+	id: string;
+	transcriptionId: string;
+	url: string;
+	event: string;
+	status: DeliveryStatus;
+	/** Attempts since the delivery was created or last redelivered */
+	attempts: number;
+	createdAt: number;
+	nextAttemptAt: number | null;
+	deliveredAt: number | null;
+	payload: WebhookPayload;
+	history: DeliveryAttempt[];
+}
+
+interface Row {
+	id: string;
+	transcription_id: string;
+	url: string;
+	event: string;
+	status: DeliveryStatus;
+	attempts: number;
+	created_at: number;
+	next_attempt_at: number | null;
+	delivered_at: number | null;
+	payload: string;
+}
+
+/**
+ * Signed callbacks to `callback_url` when a transcription finishes. Bodies
+ * are signed with HMAC-SHA256 over `<timestamp>.<body>` using WEBHOOK_SECRET
+ * (or webhooks.secret). Failed deliveries are retried with exponential
+ * backoff up to webhooks.maxAttempts, then kept as failed until redelivered.
+ * Deliveries and their attempts are stored in the manager database, so
+ * pending ones resume after a restart.
+ */
+export namespace Webhooks {
+	// Retry timers by delivery id
+	const timers = new Map<string, Timer>();
+	// Deliveries with a POST under way
+	const attempting = new Set<string>();
+
+	// Longest wait between two attempts
+	const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+	const MIGRATIONS = [
+		{
+			name: "webhooks-001-deliveries",
+			sql: `
+				CREATE TABLE webhook_deliveries (
+					id TEXT PRIMARY KEY,
+					transcription_id TEXT NOT NULL,
+					url TEXT NOT NULL,
+					event TEXT NOT NULL,
+					status TEXT NOT NULL,
+					attempts INTEGER NOT NULL,
+					created_at INTEGER NOT NULL,
+					next_attempt_at INTEGER,
+					delivered_at INTEGER,
+					payload TEXT NOT NULL
+				);
+				CREATE INDEX webhook_deliveries_status ON webhook_deliveries (status);
+				CREATE TABLE webhook_attempts (
+					delivery_id TEXT NOT NULL REFERENCES webhook_deliveries (id),
+					attempt INTEGER NOT NULL,
+					attempted_at INTEGER NOT NULL,
+					duration_ms INTEGER NOT NULL,
+					status_code INTEGER,
+					error TEXT
+				);
+				CREATE INDEX webhook_attempts_delivery ON webhook_attempts (delivery_id);
+			`,
+		},
+	];
+
+	/**
+	 * Schedule the deliveries left pending by the previous run.
+	 */
+	export function init(): void {
+		Db.migrate(MIGRATIONS);
+		const pending = Db.connection()
+			.query<{ id: string; next_attempt_at: number | null }, []>(
+				"SELECT id, next_attempt_at FROM webhook_deliveries WHERE status = 'pending'",
+			)
+			.all();
+		for (const { id, next_attempt_at } of pending) {
+			schedule(id, next_attempt_at ?? Date.now());
+		}
+		if (pending.length > 0) {
+			log.info({ pending: pending.length }, "Resuming webhook deliveries");
+		}
+	}
+
+	export function dispose(): void {
+		for (const timer of timers.values()) {
+			clearTimeout(timer);
+		}
+		timers.clear();
+	}
+
+	/** Whether callbacks can be signed, i.e. a secret is configured */
+	export function enabled(): boolean {
+		return Config.webhookSecret() !== "";
+	}
+
+	/**
+	 * Check that callbacks may be posted to a URL: http(s), to a host that
+	 * resolves to public addresses only, unless it is in
+	 * webhooks.allowedHosts. Keeps callers from reaching the manager's own
+	 * network (workers, cloud metadata, internal services).
+	 * @returns Why the URL is refused, null when it may be used
+	 */
+	export async function checkUrl(url: string): Promise<string | null> {
+		const parsed = URL.parse(url);
+		if (parsed?.protocol !== "http:" && parsed?.protocol !== "https:") {
+			return "callback_url must be an http(s) URL";
+		}
+		const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+		const allowed = Config.config.webhooks.allowedHosts.some(
+			(entry) => entry.toLowerCase() === host,
+		);
+		if (allowed) {
+			return null;
+		}
+		let addresses: string[];
+		try {
+			addresses = isIP(host)
+				? [host]
+				: (await lookup(host, { all: true })).map(({ address }) => address);
+		} catch {
+			return `callback_url host ${host} cannot be resolved`;
+		}
+		const internal = addresses.find(isInternalAddress);
+		return internal
+			? `callback_url host ${host} is a loopback, private or link-local address (${internal}), see webhooks.allowedHosts`
+			: null;
+	}
+
+	/**
+	 * Whether an IP address is not publicly routable: unspecified, loopback,
+	 * private, shared (CGNAT), link-local, benchmarking, multicast or reserved,
+	 * including IPv4 addresses mapped into IPv6.
+	 */
+	function isInternalAddress(address: string): boolean {
+		if (isIP(address) === 4) {
+			const [a = 0, b = 0] = address.split(".").map(Number);
+			return (
+				a === 0 ||
+				a === 10 ||
+				a === 127 ||
+				(a === 100 && (b & 0xc0) === 64) ||
+				(a === 169 && b === 254) ||
+				(a === 172 && (b & 0xf0) === 16) ||
+				(a === 192 && b === 168) ||
+				(a === 198 && (b & 0xfe) === 18) ||
+				a >= 224
+			);
+		}
+		const groups = ipv6Groups(address);
+		if (!groups) {
+			return true;
+		}
+		const [first = 0] = groups;
+		const embedded = () =>
+			[
+				(groups[6] ?? 0) >> 8,
+				(groups[6] ?? 0) & 0xff,
+				(groups[7] ?? 0) >> 8,
+				(groups[7] ?? 0) & 0xff,
+			].join(".");
+		const zeros = (count: number) =>
+			groups.slice(0, count).every((group) => group === 0);
+		if (zeros(7) && (groups[7] ?? 0) <= 1) {
+			// :: and ::1
+			return true;
+		}
+		if (zeros(5) && groups[5] === 0xffff) {
+			// ::ffff:a.b.c.d
+			return isInternalAddress(embedded());
+		}
+		if (first === 0x64 && groups[1] === 0xff9b) {
+			// NAT64 64:ff9b::a.b.c.d
+			return isInternalAddress(embedded());
+		}
+		return (
+			(first & 0xfe00) === 0xfc00 ||
+			(first & 0xffc0) === 0xfe80 ||
+			(first & 0xffc0) === 0xfec0 ||
+			(first & 0xff00) === 0xff00
+		);
+	}
+
+	/**
+	 * The eight 16-bit groups of an IPv6 address, null when it is not one.
+	 */
+	function ipv6Groups(address: string): number[] | null {
+		let text = address.split("%")[0] ?? "";
+		// A trailing dotted IPv4 address fills the last two groups
+		const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+		if (dotted?.[1] && dotted[2]) {
+			const [a = 0, b = 0, c = 0, d = 0] = dotted[2].split(".").map(Number);
+			text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+		}
+		const halves = text.split("::");
+		if (halves.length > 2) {
+			return null;
+		}
+		const parse = (half: string | undefined) =>
+			half ? half.split(":").map((group) => Number.parseInt(group, 16)) : [];
+		const head = parse(halves[0]);
+		const tail = parse(halves[1]);
+		const missing = 8 - head.length - tail.length;
+		if (
+			(halves.length === 1 ? missing !== 0 : missing < 1) ||
+			[...head, ...tail].some((group) => !(group >= 0 && group <= 0xffff))
+		) {
+			return null;
+		}
+		return [
+			...head,
+			...Array<number>(halves.length === 2 ? missing : 0).fill(0),
+			...tail,
+		];
+	}
+
+	/**
+	 * Queue the callback of a finished transcription. The payload carries the
+	 * request metadata (e.g. `job_id` of async jobs) to match it with its
+	 * request. Failing to queue it is logged, never fails the request.
+	 */
+	export function enqueue(
+		url: string,
+		transcription: { id: string; metadata?: Record<string, string> },
+		outcome: { result: TranscriptionResult } | { error: unknown },
+	): void {
+		const transcriptionId = transcription.id;
+		const metadata = transcription.metadata ?? {};
+		const payload: WebhookPayload =
+			"result" in outcome
+				? {
+						event: "transcription.succeeded",
+						metadata,
+						result: outcome.result,
+						transcription_id: transcriptionId,
+					}
+				: {
+						error:
+							outcome.error instanceof Error
+								? outcome.error.message
+								: "Unknown error",
+						event: "transcription.failed",
+						metadata,
+						transcription_id: transcriptionId,
+					};
+		const { event } = payload;
+		const id = `wh_${Bun.randomUUIDv7()}`;
+		const now = Date.now();
+		try {
+			Db.connection()
+				.query(
+					`INSERT INTO webhook_deliveries (id, transcription_id, url, event, status,
+						attempts, created_at, next_attempt_at, payload)
+					VALUES ($id, $transcriptionId, $url, $event, 'pending', 0, $now, $now,
+						$payload)`,
+				)
+				.run({
+					event,
+					id,
+					now,
+					payload: JSON.stringify(payload),
+					transcriptionId,
+					url,
+				});
+			schedule(id, now);
+		} catch (error) {
+			log.error({ error, transcriptionId }, "Failed to queue webhook");
+		}
+	}
+
+	function schedule(id: string, at: number): void {
+		clearTimeout(timers.get(id));
+		timers.set(
+			id,
+			setTimeout(
+				() => {
+					timers.delete(id);
+					attempt(id).catch((error) =>
+						log.error({ deliveryId: id, error }, "Webhook attempt failed"),
+					);
+				},
+				Math.max(0, at - Date.now()),
+			),
+		);
+	}
+
+	/**
+	 * Signature header value of a body sent at a time (epoch seconds).
+	 */
+	export function sign(secret: string, timestamp: number, body: string) {
+		const digest = createHmac("sha256", secret)
+			.update(`${timestamp}.${body}`)
+			.digest("hex");
+		return `sha256=${digest}`;
+	}
+
+	async function attempt(id: string): Promise<void> {
+		if (attempting.has(id)) {
+			return;
+		}
+		attempting.add(id);
+		try {
+			await send(id);
+		} finally {
+			attempting.delete(id);
+		}
+	}
+
+	async function send(id: string): Promise<void> {
+		const db = Db.connection();
+		const row = db
+			.query<Row, { id: string }>(
+				"SELECT * FROM webhook_deliveries WHERE id = $id AND status = 'pending'",
+			)
+			.get({ id });
+		if (!row) {
+			return;
+		}
+
+		const { maxAttempts, retryBackoffMs, timeoutMs } = Config.config.webhooks;
+		const secret = Config.webhookSecret();
+		const attempts = row.attempts + 1;
+		const timestamp = Math.floor(Date.now() / 1000);
+		const startedAt = Date.now();
+		let statusCode: number | null = null;
+		// Checked again, the host may resolve elsewhere by now
+		let error = await checkUrl(row.url);
+		if (error === null) {
+			try {
+				const response = await fetch(row.url, {
+					body: row.payload,
+					headers: {
+						"content-type": "application/json",
+						"x-webhook-id": row.id,
+						"x-webhook-signature": sign(secret, timestamp, row.payload),
+						"x-webhook-timestamp": String(timestamp),
+					},
+					method: "POST",
+					redirect: "manual",
+					signal: AbortSignal.timeout(timeoutMs),
+				});
+				statusCode = response.status;
+				// Only the status matters
+				await response.body?.cancel();
+				if (!response.ok) {
+					error = `HTTP ${response.status}`;
+				}
+			} catch (cause) {
+				error = cause instanceof Error ? cause.message : String(cause);
+			}
+		}
+		const finishedAt = Date.now();
+
+		const delivered = error === null;
+		const retry = !delivered && attempts < maxAttempts;
+		const nextAttemptAt = retry
+			? finishedAt +
+				Math.min(MAX_BACKOFF_MS, retryBackoffMs * 2 ** (attempts - 1))
+			: null;
+		const status: DeliveryStatus = delivered
+			? "delivered"
+			: retry
+				? "pending"
+				: "failed";
+
+		const recorded = db.transaction(() => {
+			// Only while the delivery is still at this attempt
+			const { changes } = db
+				.query(
+					`UPDATE webhook_deliveries SET status = $status, attempts = $attempts,
+						next_attempt_at = $nextAttemptAt, delivered_at = $deliveredAt
+					WHERE id = $id AND status = 'pending' AND attempts = $previous`,
+				)
+				.run({
+					attempts,
+					deliveredAt: delivered ? finishedAt : null,
+					id,
+					nextAttemptAt,
+					previous: row.attempts,
+					status,
+				});
+			if (changes === 0) {
+				return false;
+			}
+			db.query(
+				`INSERT INTO webhook_attempts (delivery_id, attempt, attempted_at,
+					duration_ms, status_code, error)
+				VALUES ($id, (SELECT count(*) + 1 FROM webhook_attempts WHERE delivery_id = $id),
+					$attemptedAt, $durationMs, $statusCode, $error)`,
+			).run({
+				attemptedAt: startedAt,
+				durationMs: finishedAt - startedAt,
+				error,
+				id,
+				statusCode,
+			});
+			return true;
+		})();
+		if (!recorded) {
+			log.warn({ deliveryId: id }, "Webhook delivery changed during attempt");
+			return;
+		}
+
+		const context = { attempts, deliveryId: id, statusCode, url: row.url };
+		if (delivered) {
+			log.info(context, "Webhook delivered");
+		} else if (nextAttemptAt !== null) {
+			log.warn({ ...context, error, nextAttemptAt }, "Webhook delivery failed");
+			schedule(id, nextAttemptAt);
+		} else {
+			log.error({ ...context, error }, "Webhook delivery gave up");
+		}
+	}
+
+	/**
+	 * Deliveries, most recent first.
+	 */
+	export function list(
+		filter: { status?: DeliveryStatus; transcriptionId?: string },
+		page: { limit: number; offset: number },
+	): { deliveries: Delivery[]; total: number } {
+		const clauses: string[] = [];
+		const params: Record<string, string | number> = {};
+		if (filter.status) {
+			clauses.push("status = $status");
+			params.status = filter.status;
+		}
+		if (filter.transcriptionId) {
+			clauses.push("transcription_id = $transcriptionId");
+			params.transcriptionId = filter.transcriptionId;
+		}
+		const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+		const db = Db.connection();
+		const total =
+			db
+				.query<{ total: number }, typeof params>(
+					`SELECT count(*) AS total FROM webhook_deliveries ${where}`,
+				)
+				.get(params)?.total ?? 0;
+		const rows = db
+			.query<Row, typeof params>(
+				`SELECT * FROM webhook_deliveries ${where}
+				ORDER BY created_at DESC, id DESC LIMIT $limit OFFSET $offset`,
+			)
+			.all({ ...params, limit: page.limit, offset: page.offset });
+		return { deliveries: rows.map(toDelivery), total };
+	}
+
+	export function get(id: string): Delivery | null {
+		const row = Db.connection()
+			.query<Row, { id: string }>(
+				"SELECT * FROM webhook_deliveries WHERE id = $id",
+			)
+			.get({ id });
+		return row ? toDelivery(row) : null;
+	}
+
+	/**
+	 * Send a delivered or failed delivery again now, with a fresh budget of
+	 * attempts.
+	 * @throws WebhookError when there is no such delivery, or it is still
+	 * pending (an attempt under way or a retry scheduled)
+	 */
+	export function redeliver(id: string): Delivery {
+		const delivery = get(id);
+		if (!delivery) {
+			throw new WebhookError(
+				"WEBHOOK_NOT_FOUND",
+				`Webhook delivery ${id} not found`,
+			);
+		}
+		if (delivery.status === "pending" || attempting.has(id)) {
+			throw new WebhookError(
+				"WEBHOOK_PENDING",
+				`Webhook delivery ${id} is still pending, wait for its attempts to finish`,
+			);
+		}
+		// A stale retry timer must not add a second attempt
+		clearTimeout(timers.get(id));
+		timers.delete(id);
+		Db.connection()
+			.query(
+				`UPDATE webhook_deliveries SET status = 'pending', attempts = 0,
+					next_attempt_at = $now, delivered_at = NULL
+				WHERE id = $id`,
+			)
+			.run({ id, now: Date.now() });
+		log.info({ deliveryId: id }, "Webhook redelivery requested");
+		schedule(id, Date.now());
+		return get(id) ?? delivery;
+	}
+
+	function toDelivery(row: Row): Delivery {
+		const history = Db.connection()
+			.query<
+				{
+					attempt: number;
+					attempted_at: number;
+					duration_ms: number;
+					status_code: number | null;
+					error: string | null;
+				},
+				{ id: string }
+			>(
+				"SELECT * FROM webhook_attempts WHERE delivery_id = $id ORDER BY attempt",
+			)
+			.all({ id: row.id });
+		return {
+			attempts: row.attempts,
+			createdAt: row.created_at,
+			deliveredAt: row.delivered_at,
+			event: row.event,
+			history: history.map((attempt) => ({
+				attempt: attempt.attempt,
+				attemptedAt: attempt.attempted_at,
+				durationMs: attempt.duration_ms,
+				error: attempt.error,
+				statusCode: attempt.status_code,
+			})),
+			id: row.id,
+			nextAttemptAt: row.next_attempt_at,
+			payload: JSON.parse(row.payload),
+			status: row.status,
+			transcriptionId: row.transcription_id,
+			url: row.url,
+		};
+	}
+}
+
+/**
+ * Thrown when a webhook delivery cannot be redelivered.
+ */
+export class WebhookError extends Error {
+	constructor(
+		readonly code: "WEBHOOK_NOT_FOUND" | "WEBHOOK_PENDING",
+		message: string,
+	) {
+		super(message);
+		this.name = "WebhookError";
+	}
+}
+
+export const WEBHOOK_ERROR_STATUS: Record<WebhookError["code"], number> = {
+	WEBHOOK_NOT_FOUND: 404,
+	WEBHOOK_PENDING: 409,
+};
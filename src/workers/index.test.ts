@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { chmod, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { Global } from "../global";
+import { type SpawnOptions, Workers } from ".";
+
+const cwd = join(Global.Path.data, "workers-test");
+
+function options(overrides: Partial<SpawnOptions> = {}): SpawnOptions {
+	return {
+		cmd: "whisper-server",
+		cwd,
+		env: {},
+		extraArgs: [],
+		model: "",
+		threads: 0,
+		...overrides,
+	};
+}
+
+describe("Workers.buildWorkerArgs", () => {
+	test("passes the model, threads and extra args after the port", () => {
+		expect(
+			Workers.buildWorkerArgs(39000, "models/base.bin", 4, [
+				"--flash-attn",
+				"--beam-size",
+				"5",
+			]),
+		).toEqual([
+			"--port",
+			"39000",
+			"--model",
+			"models/base.bin",
+			"--threads",
+			"4",
+			"--flash-attn",
+			"--beam-size",
+			"5",
+		]);
+	});
+
+	test("leaves out settings that use the server default", () => {
+		expect(Workers.buildWorkerArgs(39001, "", 0, ["", "-nt"])).toEqual([
+			"--port",
+			"39001",
+			"-nt",
+		]);
+	});
+});
+
+describe("Workers.validateSpawnOptions", () => {
+	test("resolves the model against the worker's cwd", async () => {
+		await Bun.write(join(cwd, "models", "tiny.bin"), "weights");
+		const valid = options({ model: "models/tiny.bin" });
+		expect(Workers.resolveModelPath(valid)).toBe(
+			join(cwd, "models", "tiny.bin"),
+		);
+		await Workers.validateSpawnOptions(valid);
+		await Workers.validateSpawnOptions(options());
+	});
+
+	test("rejects a missing model file", async () => {
+		await expect(
+			Workers.validateSpawnOptions(options({ model: "missing.bin" })),
+		).rejects.toThrow(
+			`Whisper model file not found: ${join(cwd, "missing.bin")}`,
+		);
+	});
+});
+
+describe("Workers.spawn", () => {
+	test("starts the command in its cwd with the args and extra env", async () => {
+		await mkdir(cwd, { recursive: true });
+		const cmd = join(cwd, "fake-whisper-server.sh");
+		await Bun.write(
+			cmd,
+			'#!/bin/sh\n{ pwd; echo "$@"; echo "$WHISPER_TEST_VAR"; } > spawned.txt\n',
+		);
+		await chmod(cmd, 0o755);
+
+		const worker = Workers.spawn(
+			39002,
+			options({
+				cmd,
+				env: { WHISPER_TEST_VAR: "from-config" },
+				extraArgs: ["-nt"],
+				threads: 2,
+			}),
+			"default",
+		);
+		expect(worker).toMatchObject({
+			baseUrl: "http://127.0.0.1:39002",
+			inFlight: 0,
+			pool: "default",
+			port: 39002,
+		});
+		expect(await worker.process.exited).toBe(0);
+		expect(await Bun.file(join(cwd, "spawned.txt")).text()).toBe(
+			`${cwd}\n--port 39002 --threads 2 -nt\nfrom-config\n`,
+		);
+	});
+});
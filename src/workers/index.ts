@@ -1,3 +1,4 @@
+import { resolve } from "node:path";
 import { Log } from "../observability/logger";
 import { WorkerLogger } from "../observability/worker-logger";
 
@@ -5,66 +6,130 @@ export enum WorkerState {
 	Starting = "starting",
 	Healthy = "healthy",
 	Unhealthy = "unhealthy",
+	Draining = "draining",
 	Stopped = "stopped",
 }
 
 export interface Worker {
 	id: string;
+	/** Name of the pool this worker belongs to */
+	pool: string;
 	port: number;
 	baseUrl: string;
 	process: ReturnType<typeof Bun.spawn>;
 	state: WorkerState;
 	requestCount: number;
+	/** Requests currently being processed by this worker */
+	inFlight: number;
+	/** Smoothed latency of recent successful requests, null until the first one */
+	recentLatencyMs: number | null;
 	consecutiveFailures: number;
 	acceptingRequests: boolean;
 	startedAt: number;
 	lastHealthyAt: number;
 }
 
+export interface SpawnOptions {
+	cmd: string;
+	cwd: string;
+	/** Model file passed as --model, empty to use the server default */
+	model: string;
+	/** Thread count passed as --threads, 0 to use the server default */
+	threads: number;
+	extraArgs: string[];
+	env: Record<string, string>;
+}
+
 // Track worker loggers for cleanup
 const workerLoggers = new Map<
 	string,
 	ReturnType<typeof WorkerLogger.createStreamHandlers>
 >();
 
+// Worker processes still running. Workers are detached from the manager's
+// process group, so they are killed here if the manager exits without draining.
+const running = new Set<Worker["process"]>();
+process.on("exit", () => {
+	for (const proc of running) {
+		proc.kill("SIGKILL");
+	}
+});
+
 export namespace Workers {
 	const log = Log.child({ module: "Workers" });
 	let workerCounter = 0;
 
+	const DRAIN_POLL_MS = 200;
+	// How long a worker gets to exit after SIGTERM before it is killed
+	const KILL_TIMEOUT_MS = 10000;
+
 	export function buildWorkerArgs(
 		port: number,
 		model: string,
 		threads: number,
-		extraArgs: string,
+		extraArgs: string[],
 	): string[] {
 		const base = ["--port", port.toString()];
 		const modelArgs = model ? ["--model", model] : [];
 		const threadArgs = threads > 0 ? ["--threads", threads.toString()] : [];
-		const extra = extraArgs ? extraArgs.split(" ").filter((a) => a) : [];
+		const extra = extraArgs.filter((a) => a);
 		return [...base, ...modelArgs, ...threadArgs, ...extra];
 	}
 
+	/**
+	 * Resolve the model path the way the worker will see it (relative to its cwd).
+	 */
+	export function resolveModelPath(options: SpawnOptions): string {
+		return resolve(options.cwd, options.model);
+	}
+
+	/**
+	 * Validate spawn options before starting a process.
+	 * @throws Error when the configured model file does not exist
+	 */
+	export async function validateSpawnOptions(
+		options: SpawnOptions,
+	): Promise<void> {
+		if (!options.model) {
+			return;
+		}
+		const modelPath = resolveModelPath(options);
+		if (!(await Bun.file(modelPath).exists())) {
+			throw new Error(`Whisper model file not found: ${modelPath}`);
+		}
+	}
+
 	export function spawn(
 		port: number,
-		serverCmd: string,
-		serverCwd: string,
-		model: string,
-		threads: number,
-		extraArgs: string,
+		options: SpawnOptions,
+		pool: string,
 	): Worker {
 		const id = `worker_${port}_${Date.now()}_${workerCounter++}`;
-		const args = buildWorkerArgs(port, model, threads, extraArgs);
+		const args = buildWorkerArgs(
+			port,
+			options.model,
+			options.threads,
+			options.extraArgs,
+		);
 
-		log.info({ port, workerId: id }, "Spawning worker");
+		log.info(
+			{ args, model: options.model, pool, port, workerId: id },
+			"Spawning worker",
+		);
 
 		// Create per-worker log file handler
 		const workerLog = WorkerLogger.createStreamHandlers(port);
 		workerLoggers.set(id, workerLog);
 
 		try {
-			const proc = Bun.spawn([serverCmd, ...args], {
-				cwd: serverCwd,
-				onExit: (_proc, exitCode, signalCode) => {
+			const proc = Bun.spawn([options.cmd, ...args], {
+				cwd: options.cwd,
+				// Own process group, so a Ctrl+C or service stop reaches only the
+				// manager, which drains the worker before stopping it
+				detached: true,
+				env: { ...process.env, ...options.env },
+				onExit: (proc, exitCode, signalCode) => {
+					running.delete(proc);
 					log.info(
 						{ exitCode, port, signalCode, workerId: id },
 						"Worker exited",
@@ -79,6 +144,7 @@ export namespace Workers {
 				stderr: "pipe",
 				stdout: "pipe",
 			});
+			running.add(proc);
 
 			// Stream stdout to worker log file
 			(async () => {
@@ -125,9 +191,12 @@ export namespace Workers {
 				baseUrl: `http://127.0.0.1:${port}`,
 				consecutiveFailures: 0,
 				id,
+				inFlight: 0,
 				lastHealthyAt: 0,
+				pool,
 				port,
 				process: proc,
+				recentLatencyMs: null,
 				requestCount: 0,
 				startedAt: Date.now(),
 				state: WorkerState.Starting,
@@ -143,31 +212,72 @@ export namespace Workers {
 		}
 	}
 
-	export function terminate(worker: Worker, graceful: boolean): void {
+	/**
+	 * Stop routing requests to a worker and wait for its in-flight requests
+	 * to finish.
+	 * @returns false when requests were still running at the deadline
+	 */
+	export async function drain(
+		worker: Worker,
+		timeoutMs: number,
+	): Promise<boolean> {
+		worker.acceptingRequests = false;
+		const deadline = Date.now() + timeoutMs;
+		while (worker.inFlight > 0 && isAlive(worker)) {
+			if (Date.now() >= deadline) {
+				log.warn(
+					{ inFlight: worker.inFlight, port: worker.port, workerId: worker.id },
+					"Drain timed out with requests in flight",
+				);
+				return false;
+			}
+			await Bun.sleep(DRAIN_POLL_MS);
+		}
+		return true;
+	}
+
+	/**
+	 * Stop a worker process. Graceful termination sends SIGTERM and escalates
+	 * to SIGKILL if the process is still running after KILL_TIMEOUT_MS.
+	 * Resolves once the process has exited.
+	 */
+	export async function terminate(
+		worker: Worker,
+		graceful: boolean,
+	): Promise<void> {
+		worker.acceptingRequests = false;
 		try {
-			worker.acceptingRequests = false;
 			if (graceful) {
-				// Give a moment for in-flight requests
-				setTimeout(() => {
-					worker.process.kill();
-				}, 2000);
+				worker.process.kill("SIGTERM");
+				const exited = await Promise.race([
+					worker.process.exited.then(() => true),
+					Bun.sleep(KILL_TIMEOUT_MS).then(() => false),
+				]);
+				if (!exited) {
+					log.warn(
+						{ port: worker.port, workerId: worker.id },
+						"Worker ignored SIGTERM, sending SIGKILL",
+					);
+					worker.process.kill("SIGKILL");
+				}
 			} else {
-				worker.process.kill();
+				worker.process.kill("SIGKILL");
 			}
+			await worker.process.exited;
 			worker.state = WorkerState.Stopped;
 			log.info({ port: worker.port, workerId: worker.id }, "Worker terminated");
-
+		} catch (error) {
+			log.error(
+				{ error, port: worker.port, workerId: worker.id },
+				"Failed to terminate worker",
+			);
+		} finally {
 			// Cleanup the worker logger
 			const logger = workerLoggers.get(worker.id);
 			if (logger) {
 				logger.cleanup();
 				workerLoggers.delete(worker.id);
 			}
-		} catch (error) {
-			log.error(
-				{ error, port: worker.port, workerId: worker.id },
-				"Failed to terminate worker",
-			);
 		}
 	}
 